@@ -0,0 +1,234 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { CatalogImportError } from './types';
+import {
+  ErrorSortDirection,
+  fetchErrorReport,
+  filterImportErrors,
+  groupImportErrors,
+  sortImportErrors,
+} from './errorReport';
+import { CatalogImportErrorHeaderCells, CatalogImportErrorRow } from './CatalogImportErrors';
+
+export interface CatalogImportErrorReportProps {
+  /** URL of the error report (CatalogImportStatus.errorsLocation, resolved by the host) */
+  url: string;
+  /** Credentials for downloading the report (default: 'include') */
+  credentials?: RequestCredentials;
+}
+
+type ErrorReportView = 'rows' | 'grouped';
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100];
+
+/**
+ * Paginated viewer for the full row-error report of a finished import.
+ * Only the current page is rendered, so reports with 100k+ rows stay responsive.
+ */
+export function CatalogImportErrorReport({
+  url,
+  credentials = 'include',
+}: CatalogImportErrorReportProps) {
+  const { t } = useTranslation('products');
+  const [errors, setErrors] = useState<CatalogImportError[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [view, setView] = useState<ErrorReportView>('rows');
+  const [sortDirection, setSortDirection] = useState<ErrorSortDirection>('asc');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(ROWS_PER_PAGE_OPTIONS[0]);
+
+  // Filtering runs against the deferred query so typing never blocks on large reports
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    setErrors(null);
+    setLoadError(null);
+
+    fetchErrorReport(url, { credentials })
+      .then((result) => {
+        if (!cancelled) setErrors(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLoadError(err instanceof Error ? err.message : 'Failed to load error report');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, credentials]);
+
+  const filtered = useMemo(
+    () => (errors ? filterImportErrors(errors, deferredQuery) : []),
+    [errors, deferredQuery],
+  );
+  const sorted = useMemo(
+    () => (view === 'rows' ? sortImportErrors(filtered, sortDirection) : []),
+    [filtered, view, sortDirection],
+  );
+  const groups = useMemo(
+    () => (view === 'grouped' ? groupImportErrors(filtered) : []),
+    [filtered, view],
+  );
+
+  // Go back to the first page whenever the result set changes
+  useEffect(() => {
+    setPage(0);
+  }, [deferredQuery, view, sortDirection]);
+
+  if (loadError) {
+    return (
+      <Alert severity="error" sx={{ mt: 3 }}>
+        {t('catalogImport.errorReport.loadFailed')}: {loadError}
+      </Alert>
+    );
+  }
+
+  if (!errors) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 3 }}>
+        <CircularProgress size={20} />
+        <Typography>{t('catalogImport.errorReport.loading')}</Typography>
+      </Box>
+    );
+  }
+
+  if (errors.length === 0) return null;
+
+  const total = view === 'rows' ? sorted.length : groups.length;
+  const currentPage = Math.min(page, Math.max(0, Math.ceil(total / rowsPerPage) - 1));
+  const start = currentPage * rowsPerPage;
+
+  return (
+    <Box
+      sx={{
+        mt: 3,
+        p: 3,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+      }}
+    >
+      <Typography variant="h6" gutterBottom color="error.main">
+        {t('catalogImport.importErrors', { count: errors.length })}
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+        <TextField
+          size="small"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('catalogImport.errorReport.filterPlaceholder')}
+          sx={{ flex: 1 }}
+        />
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_event, next: ErrorReportView | null) => {
+            if (next) setView(next);
+          }}
+        >
+          <ToggleButton value="rows">{t('catalogImport.errorReport.viewRows')}</ToggleButton>
+          <ToggleButton value="grouped">{t('catalogImport.errorReport.viewGrouped')}</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 400 }}>
+        {view === 'rows' ? (
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <CatalogImportErrorHeaderCells
+                  rowSortDirection={sortDirection}
+                  rowHeader={
+                    <TableSortLabel
+                      active
+                      direction={sortDirection}
+                      onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}
+                    >
+                      <strong>{t('catalogImport.row')}</strong>
+                    </TableSortLabel>
+                  }
+                />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sorted.slice(start, start + rowsPerPage).map((err, index) => (
+                <CatalogImportErrorRow key={`${err.row}-${start + index}`} error={err} />
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  <strong>{t('catalogImport.error')}</strong>
+                </TableCell>
+                <TableCell align="right">
+                  <strong>{t('catalogImport.errorReport.count')}</strong>
+                </TableCell>
+                <TableCell>
+                  <strong>{t('catalogImport.errorReport.exampleRows')}</strong>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {groups.slice(start, start + rowsPerPage).map((group) => (
+                <TableRow key={group.error}>
+                  <TableCell>
+                    <Typography variant="body2" color="error.main">
+                      {group.error}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{group.count.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {group.sampleRows.join(', ')}
+                    {group.count > group.sampleRows.length && ', ...'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </TableContainer>
+
+      <TablePagination
+        component="div"
+        count={total}
+        page={currentPage}
+        onPageChange={(_event, nextPage) => setPage(nextPage)}
+        rowsPerPage={rowsPerPage}
+        rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+      />
+    </Box>
+  );
+}
+
+export default CatalogImportErrorReport;
@@ -0,0 +1,157 @@
+import { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { CatalogImportError, MAPPING_LABELS } from './types';
+
+/**
+ * Header cells matching CatalogImportErrorRow. `rowHeader` replaces the plain
+ * "Row" label, e.g. with a sort control.
+ */
+export function CatalogImportErrorHeaderCells({
+  rowHeader,
+  rowSortDirection = false,
+}: {
+  rowHeader?: ReactNode;
+  rowSortDirection?: 'asc' | 'desc' | false;
+}) {
+  const { t } = useTranslation('products');
+
+  return (
+    <>
+      <TableCell sortDirection={rowSortDirection}>
+        {rowHeader ?? <strong>{t('catalogImport.row')}</strong>}
+      </TableCell>
+      <TableCell>
+        <strong>{t('catalogImport.sku')}</strong>
+      </TableCell>
+      <TableCell>
+        <strong>{t('catalogImport.column')}</strong>
+      </TableCell>
+      <TableCell>
+        <strong>{t('catalogImport.value')}</strong>
+      </TableCell>
+      <TableCell>
+        <strong>{t('catalogImport.error')}</strong>
+      </TableCell>
+    </>
+  );
+}
+
+/**
+ * One row error. Structured errors show the offending column and highlight the
+ * raw value; legacy errors (message only) leave those cells empty.
+ */
+export function CatalogImportErrorRow({ error: err }: { error: CatalogImportError }) {
+  const { t } = useTranslation('products');
+  const isWarning = err.severity === 'warning';
+  const color = isWarning ? 'warning' : 'error';
+
+  return (
+    <TableRow>
+      <TableCell>{err.row || t('catalogImport.na')}</TableCell>
+      <TableCell>{err.sku || t('catalogImport.na')}</TableCell>
+      <TableCell>
+        {err.fileColumn ? (
+          <>
+            <Typography variant="body2">{err.fileColumn}</Typography>
+            {err.mapTo && (
+              <Typography variant="caption" color="text.secondary">
+                {MAPPING_LABELS[err.mapTo]}
+              </Typography>
+            )}
+          </>
+        ) : (
+          <Typography variant="body2" color="text.disabled">
+            {t('catalogImport.na')}
+          </Typography>
+        )}
+      </TableCell>
+      <TableCell
+        sx={
+          err.value !== undefined
+            ? { bgcolor: `${color}.light`, color: `${color}.contrastText` }
+            : undefined
+        }
+      >
+        {err.value === undefined ? (
+          <Typography variant="body2" color="text.disabled">
+            {t('catalogImport.na')}
+          </Typography>
+        ) : err.value === '' ? (
+          <Typography variant="body2" fontStyle="italic">
+            {t('catalogImport.emptyValue')}
+          </Typography>
+        ) : (
+          <Typography
+            variant="body2"
+            fontFamily="monospace"
+            sx={{ wordBreak: 'break-all', maxWidth: 240 }}
+          >
+            {err.value}
+          </Typography>
+        )}
+      </TableCell>
+      <TableCell>
+        <Typography variant="body2" color={`${color}.main`}>
+          {isWarning && <strong>{t('catalogImport.warning')}: </strong>}
+          {err.error}
+        </Typography>
+        {err.code && err.code !== 'UNKNOWN' && (
+          <Typography variant="caption" color="text.secondary" fontFamily="monospace">
+            {err.code}
+          </Typography>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Inline list of the row errors included in the import status.
+ */
+export function CatalogImportErrors({ errors }: { errors: CatalogImportError[] }) {
+  const { t } = useTranslation('products');
+  if (errors.length === 0) return null;
+
+  return (
+    <Box
+      sx={{
+        mt: 3,
+        p: 3,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+      }}
+    >
+      <Typography variant="h6" gutterBottom color="error.main">
+        {t('catalogImport.importErrors', { count: errors.length })}
+      </Typography>
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 300 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <CatalogImportErrorHeaderCells />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {errors.map((err, index) => (
+              <CatalogImportErrorRow key={index} error={err} />
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
+
+export default CatalogImportErrors;
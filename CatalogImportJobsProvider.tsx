@@ -0,0 +1,66 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore } from 'react';
+import { CatalogImportApiConfig } from './catalogImportApi';
+import {
+  CatalogImportJob,
+  CatalogImportJobRegistry,
+  createImportJobRegistry,
+} from './importJobRegistry';
+
+const CatalogImportJobsContext = createContext<CatalogImportJobRegistry | null>(null);
+
+export interface CatalogImportJobsProviderProps {
+  /** API configuration used to poll, stream and cancel every tracked job */
+  apiConfig: CatalogImportApiConfig;
+  children: React.ReactNode;
+}
+
+/**
+ * Shares one job registry with every useCatalogImport / useCatalogImportJobs
+ * call below it, so jobs started in one place stay visible everywhere.
+ * Mount it once near the app root.
+ */
+export function CatalogImportJobsProvider({ apiConfig, children }: CatalogImportJobsProviderProps) {
+  const [registry] = useState(() => createImportJobRegistry(apiConfig));
+
+  useEffect(() => {
+    registry.setApiConfig(apiConfig);
+  }, [registry, apiConfig]);
+
+  useEffect(() => registry.start(), [registry]);
+
+  return (
+    <CatalogImportJobsContext.Provider value={registry}>
+      {children}
+    </CatalogImportJobsContext.Provider>
+  );
+}
+
+/**
+ * The registry provided by the nearest CatalogImportJobsProvider, or null
+ * when there is none.
+ */
+export function useCatalogImportJobRegistry(): CatalogImportJobRegistry | null {
+  return useContext(CatalogImportJobsContext);
+}
+
+/**
+ * Hook for working with every import job tracked by the surrounding
+ * CatalogImportJobsProvider.
+ */
+export function useCatalogImportJobs() {
+  const registry = useContext(CatalogImportJobsContext);
+  if (!registry) {
+    throw new Error('useCatalogImportJobs must be used within a CatalogImportJobsProvider');
+  }
+
+  const jobs: CatalogImportJob[] = useSyncExternalStore(registry.subscribe, registry.getJobs);
+
+  return {
+    jobs,
+    getJob: registry.getJob,
+    track: registry.track,
+    refresh: registry.refresh,
+    cancel: registry.cancel,
+    reset: registry.reset,
+  };
+}
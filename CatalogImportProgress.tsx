@@ -0,0 +1,271 @@
+import { useTranslation } from 'react-i18next';
+import { Box, Typography, LinearProgress, Chip } from '@mui/material';
+import { CatalogImportStatus } from './types';
+
+function formatDuration(sec: number): string {
+  if (sec < 60) return `${sec}s`;
+  const min = Math.floor(sec / 60);
+  const remSec = sec % 60;
+  if (min < 60) return `${min}m ${remSec}s`;
+  const hr = Math.floor(min / 60);
+  const remMin = min % 60;
+
+  return `${hr}h ${remMin}m`;
+}
+
+function getStageLabel(stage: string | undefined, t: (key: string) => string): string {
+  switch (stage) {
+    case 'parsing':
+      return t('catalogImport.stageParsing');
+    case 'upserting':
+      return t('catalogImport.stageUpserting');
+    case 'image_generation':
+      return t('catalogImport.stageImageGeneration');
+    case 'finalizing':
+      return t('catalogImport.stageFinalizing');
+    default:
+      return '';
+  }
+}
+
+export interface CatalogImportProgressProps {
+  status: CatalogImportStatus;
+  /** Condensed layout (state, stage and progress bar only) for small containers like the tray */
+  compact?: boolean;
+  /**
+   * Label the counters as what a real import would do
+   * (default: status.validateOnly)
+   */
+  validateOnly?: boolean;
+}
+
+/**
+ * Status, progress bar and counters of a single import job.
+ * Used by the wizard's progress step and by CatalogImportTray.
+ */
+export function CatalogImportProgress({
+  status,
+  compact = false,
+  validateOnly = !!status.validateOnly,
+}: CatalogImportProgressProps) {
+  const { t } = useTranslation('products');
+  const { state, progress, failureReason } = status;
+
+  const getStateLabel = () => {
+    switch (state) {
+      case 'queued':
+        return t('catalogImport.statusQueued');
+      case 'active':
+        return t('catalogImport.statusProcessing');
+      case 'completed':
+        return t('catalogImport.statusCompleted');
+      case 'failed':
+        return t('catalogImport.statusFailed');
+      default:
+        return t('catalogImport.statusUnknown');
+    }
+  };
+
+  const getStateColor = (): 'default' | 'primary' | 'success' | 'error' => {
+    switch (state) {
+      case 'queued':
+        return 'default';
+      case 'active':
+        return 'primary';
+      case 'completed':
+        return 'success';
+      case 'failed':
+        return 'error';
+      default:
+        return 'default';
+    }
+  };
+
+  const getProgressPercent = () => {
+    if (status.progressPct != null && status.progressPct > 0) {
+      return status.progressPct;
+    }
+    if (!progress || progress.total === 0) return 0;
+
+    return Math.round((progress.processed / progress.total) * 100);
+  };
+
+  const getElapsedAndEta = () => {
+    if (!progress?.startedAt) return null;
+
+    const startTime = new Date(progress.startedAt).getTime();
+    const now = progress.finishedAt ? new Date(progress.finishedAt).getTime() : Date.now();
+    const elapsedMs = now - startTime;
+    const elapsedSec = Math.floor(elapsedMs / 1000);
+    const elapsed = formatDuration(elapsedSec);
+
+    const pct = getProgressPercent();
+    let eta = '';
+    if (pct > 5 && pct < 100 && !progress.finishedAt) {
+      const remainingMs = (elapsedMs / pct) * (100 - pct);
+      eta = formatDuration(Math.floor(remainingMs / 1000));
+    }
+
+    return { elapsed, eta };
+  };
+
+  const progressPercent = getProgressPercent();
+  const stageLabel = getStageLabel(status.stage, t);
+
+  return (
+    <Box
+      sx={{
+        p: compact ? 1.5 : 3,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: compact ? 1 : 2,
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant={compact ? 'subtitle2' : 'h6'}>
+            {t('catalogImport.status')}: {getStateLabel()}
+          </Typography>
+          <Chip label={getStateLabel()} color={getStateColor()} size="small" />
+          {validateOnly && (
+            <Chip label={t('catalogImport.validateOnly')} variant="outlined" size="small" />
+          )}
+        </Box>
+      </Box>
+
+      {stageLabel && state === 'active' && (
+        <Typography variant="body2" color="text.secondary">
+          {stageLabel}
+          {status.message ? ` \u2014 ${status.message}` : ''}
+        </Typography>
+      )}
+
+      {progress && (
+        <>
+          <Box sx={{ width: '100%' }}>
+            <LinearProgress
+              variant={
+                state === 'active' && progressPercent === 0 ? 'indeterminate' : 'determinate'
+              }
+              value={progressPercent}
+              sx={{ height: 8, borderRadius: 1 }}
+            />
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+              {progressPercent}%
+              {progress.total > 0
+                ? // eslint-disable-next-line max-len
+                  ` (${t('catalogImport.rowsProcessed', { processed: progress.processed.toLocaleString(), total: progress.total.toLocaleString() })})`
+                : progress.processed > 0
+                  ? ` (${t('catalogImport.rowsProcessedNoTotal', { processed: progress.processed.toLocaleString() })})`
+                  : ''}
+            </Typography>
+            {(() => {
+              const timing = getElapsedAndEta();
+              if (!timing) return null;
+
+              return (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
+                  {t('catalogImport.elapsed')}: {timing.elapsed}
+                  {timing.eta && ` | ${t('catalogImport.estRemaining')}: ${timing.eta}`}
+                </Typography>
+              );
+            })()}
+          </Box>
+
+          {!compact && (
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
+                gap: 2,
+                mt: 1,
+              }}
+            >
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('catalogImport.total')}
+                </Typography>
+                <Typography variant="h6">
+                  {progress.total > 0
+                    ? progress.total.toLocaleString()
+                    : progress.processed > 0
+                      ? `~${progress.processed.toLocaleString()}`
+                      : '...'}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('catalogImport.processed')}
+                </Typography>
+                <Typography variant="h6" color="primary.main">
+                  {progress.processed.toLocaleString()}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {validateOnly ? t('catalogImport.wouldInsert') : t('catalogImport.inserted')}
+                </Typography>
+                <Typography variant="h6" color="success.main">
+                  {progress.inserted.toLocaleString()}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {validateOnly ? t('catalogImport.wouldUpdate') : t('catalogImport.updated')}
+                </Typography>
+                <Typography variant="h6" color="info.main">
+                  {progress.updated.toLocaleString()}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('catalogImport.errors')}
+                </Typography>
+                <Typography variant="h6" color="error.main">
+                  {progress.errored.toLocaleString()}
+                </Typography>
+              </Box>
+            </Box>
+          )}
+
+          {progress.startedAt && !compact && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                {t('catalogImport.started')}: {new Date(progress.startedAt).toLocaleString()}
+              </Typography>
+              {progress.finishedAt && (
+                <Typography variant="body2" color="text.secondary">
+                  {t('catalogImport.finished')}: {new Date(progress.finishedAt).toLocaleString()}
+                </Typography>
+              )}
+            </Box>
+          )}
+        </>
+      )}
+
+      {state === 'failed' && failureReason && (
+        <Box
+          sx={{
+            mt: 2,
+            p: 2,
+            bgcolor: 'error.light',
+            borderRadius: 1,
+          }}
+        >
+          <Typography variant="body2" color="error.main">
+            <strong>{t('catalogImport.error')}:</strong> {failureReason}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+}
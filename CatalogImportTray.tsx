@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { useCatalogImportJobs } from './CatalogImportJobsProvider';
+import { CatalogImportJob } from './importJobRegistry';
+import { isImportRunning } from './catalogImportApi';
+import { CatalogImportProgress } from './CatalogImportProgress';
+
+export interface CatalogImportTrayProps {
+  /**
+   * Called when the user asks for a job's details, typically to open
+   * CatalogImportWizard with `jobId` set.
+   */
+  onOpenDetails?: (jobId: string) => void;
+  /** Number of finished jobs kept in the tray until dismissed (default: 5) */
+  maxRecentJobs?: number;
+}
+
+function isJobRunning(job: CatalogImportJob): boolean {
+  // Jobs without a status yet are about to report their first state
+  return !job.status || isImportRunning(job.status);
+}
+
+/**
+ * Compact floating panel listing running and recently finished imports of the
+ * surrounding CatalogImportJobsProvider. Mount it once at the app root so
+ * imports handed off by the wizard stay visible on every page.
+ */
+export function CatalogImportTray({ onOpenDetails, maxRecentJobs = 5 }: CatalogImportTrayProps) {
+  const { t } = useTranslation('products');
+  const { jobs, reset } = useCatalogImportJobs();
+  const [collapsed, setCollapsed] = useState(false);
+
+  const visibleJobs = useMemo(() => {
+    const running = jobs.filter(isJobRunning);
+    const finished = jobs.filter((job) => !isJobRunning(job)).slice(0, maxRecentJobs);
+
+    return [...running, ...finished];
+  }, [jobs, maxRecentJobs]);
+
+  if (visibleJobs.length === 0) return null;
+
+  const runningCount = visibleJobs.filter(isJobRunning).length;
+
+  return (
+    <Paper
+      elevation={8}
+      sx={{
+        position: 'fixed',
+        right: 24,
+        bottom: 24,
+        width: 360,
+        maxHeight: '60vh',
+        display: 'flex',
+        flexDirection: 'column',
+        borderRadius: 2,
+        zIndex: (theme) => theme.zIndex.snackbar,
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          px: 2,
+          py: 1,
+          borderBottom: collapsed ? 'none' : '1px solid',
+          borderColor: 'divider',
+        }}
+      >
+        <Typography variant="subtitle1" fontWeight="medium">
+          {runningCount > 0
+            ? t('catalogImport.tray.titleRunning', { count: runningCount })
+            : t('catalogImport.tray.title')}
+        </Typography>
+        <IconButton
+          size="small"
+          onClick={() => setCollapsed((prev) => !prev)}
+          aria-label={collapsed ? t('catalogImport.tray.expand') : t('catalogImport.tray.collapse')}
+        >
+          {collapsed ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        </IconButton>
+      </Box>
+
+      {!collapsed && (
+        <Box sx={{ overflowY: 'auto', p: 1.5, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          {visibleJobs.map((job) => (
+            <Box key={job.jobId}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography
+                    variant="body2"
+                    fontWeight="medium"
+                    sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                    title={job.meta.fileName ?? job.jobId}
+                  >
+                    {job.meta.fileName ?? job.jobId}
+                  </Typography>
+                  {job.meta.organizationName && (
+                    <Typography variant="caption" color="text.secondary">
+                      {job.meta.organizationName}
+                    </Typography>
+                  )}
+                </Box>
+                {onOpenDetails && (
+                  <Button size="small" onClick={() => onOpenDetails(job.jobId)}>
+                    {t('catalogImport.tray.details')}
+                  </Button>
+                )}
+                {!isJobRunning(job) && (
+                  <Tooltip title={t('catalogImport.tray.dismiss')}>
+                    <IconButton size="small" onClick={() => reset(job.jobId)}>
+                      <CloseIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+
+              {job.status ? (
+                <CatalogImportProgress
+                  status={job.status}
+                  compact
+                  validateOnly={job.status.validateOnly ?? job.meta.params?.validateOnly}
+                />
+              ) : (
+                <LinearProgress sx={{ height: 8, borderRadius: 1 }} />
+              )}
+
+              {job.error && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  {job.error}
+                </Alert>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+}
+
+export default CatalogImportTray;
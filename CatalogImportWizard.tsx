@@ -17,33 +17,66 @@ import {
   FormControl,
   FormLabel,
   Alert,
-  LinearProgress,
-  Chip,
-  Paper,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   CircularProgress,
   TextField,
   Select,
   MenuItem,
+  Menu,
   InputLabel,
 } from '@mui/material';
 import {
+  CatalogImportError,
   CatalogImportMode,
   CatalogImportStatus,
   CatalogImportKind,
   ColumnMapping,
+  ColumnMappingKind,
+  ColumnTransform,
+  ConstantValues,
   HeaderPreviewColumn,
+  HeaderPreviewResponse,
   ScreeningMode,
   PlateFormat,
   PLATE_FORMAT_OPTIONS,
+  ReplaceImpactPreview,
 } from './types';
 import { ColumnMappingStep, initializeColumnMapping } from './ColumnMappingStep';
-import { useCatalogImport, CatalogImportApiConfig } from './useCatalogImport';
+import {
+  useCatalogImport,
+  CatalogImportApiConfig,
+  StartCatalogImportParams,
+} from './useCatalogImport';
+import { CatalogImportJobMeta } from './importJobRegistry';
+import { useCatalogImportJobRegistry } from './CatalogImportJobsProvider';
+import { CatalogImportProgress } from './CatalogImportProgress';
+import { CatalogImportErrorReport } from './CatalogImportErrorReport';
+import { CatalogImportErrors } from './CatalogImportErrors';
+import { fetchErrorReport } from './errorReport';
+import { buildImportReport, downloadImportReport, ImportReportFormat } from './importReport';
+import { isReplaceConfirmed, ReplaceImpactReview } from './ReplaceImpactReview';
+import { SpreadsheetLayoutPicker } from './SpreadsheetLayoutPicker';
+import { detectHeaderRowIndex, isSpreadsheetFileName } from './spreadsheetPreview';
+import {
+  applyTemplateMapping,
+  CatalogImportMappingTemplate,
+  MappingTemplateCandidate,
+  MappingTemplateConfig,
+  MappingTemplateStore,
+} from './mappingTemplates';
+import { findBestTemplateMatch, matchTemplate, TemplateMatch } from './headerFingerprint';
+import { BUILT_IN_VENDOR_PROFILES } from './vendorProfiles';
+import { TemplateMatchSummary } from './TemplateMatchSummary';
+import {
+  buildLearnedMappings,
+  findMappingCorrections,
+  MappingCorrection,
+  MappingCorrectionInput,
+  MappingCorrectionStore,
+} from './mappingCorrections';
+import { MappingRule } from './mappingRules';
+import { toBackendMappingKind } from './mappingKinds';
+import { MappingTemplatePicker } from './MappingTemplatePicker';
+import { SaveMappingTemplateDialog } from './SaveMappingTemplateDialog';
 
 // ============================================================================
 // Helpers
@@ -52,33 +85,32 @@ import { useCatalogImport, CatalogImportApiConfig } from './useCatalogImport';
 /**
  * Translate frontend-specific mapping kinds to their backend equivalents.
  * The frontend uses more descriptive names (libraryName, plateId, molfile) while
- * the backend uses shorter/canonical names (library, plate, mdl).
+ * the backend uses shorter/canonical names (library, plate, mdl); each kind's
+ * backend name comes from the mapping kind registry.
  *
  * Returns a plain object (not typed as ColumnMapping) since the translated
  * values may not match the frontend's ColumnMappingKind type.
  */
 function translateColumnMapping(mapping: ColumnMapping): {
-  mappings: { fileColumn: string; mapTo: string }[];
+  mappings: { fileColumn: string; mapTo: string; transforms?: ColumnTransform[] }[];
 } {
   return {
     mappings: mapping.mappings.map((entry) => ({
       fileColumn: entry.fileColumn,
-      mapTo: translateMappingKind(entry.mapTo),
+      mapTo: toBackendMappingKind(entry.mapTo),
+      // Transform pipelines are sent as-is; the backend runs the same steps
+      ...(entry.transforms?.length ? { transforms: entry.transforms } : {}),
     })),
   };
 }
 
-function translateMappingKind(kind: string): string {
-  switch (kind) {
-    case 'libraryName':
-      return 'library';
-    case 'plateId':
-      return 'plate';
-    case 'molfile':
-      return 'mdl';
-    default:
-      return kind;
-  }
+/** Non-empty constant values, trimmed and keyed by backend mapping kind */
+function translateConstantValues(values: ConstantValues): Record<string, string> {
+  return Object.fromEntries(
+    (Object.entries(values) as [ColumnMappingKind, string][])
+      .map(([kind, value]): [string, string] => [toBackendMappingKind(kind), value.trim()])
+      .filter(([, value]) => value !== ''),
+  );
 }
 
 // ============================================================================
@@ -100,309 +132,43 @@ export interface CatalogImportWizardProps {
   uploadedFileId?: string | null;
   /** File name if already uploaded */
   uploadedFileName?: string | null;
-}
-
-// ============================================================================
-// Sub-Components
-// ============================================================================
-
-function formatDuration(sec: number): string {
-  if (sec < 60) return `${sec}s`;
-  const min = Math.floor(sec / 60);
-  const remSec = sec % 60;
-  if (min < 60) return `${min}m ${remSec}s`;
-  const hr = Math.floor(min / 60);
-  const remMin = min % 60;
-
-  return `${hr}h ${remMin}m`;
-}
-
-function getStageLabel(stage: string | undefined, t: (key: string) => string): string {
-  switch (stage) {
-    case 'parsing':
-      return t('catalogImport.stageParsing');
-    case 'upserting':
-      return t('catalogImport.stageUpserting');
-    case 'image_generation':
-      return t('catalogImport.stageImageGeneration');
-    case 'finalizing':
-      return t('catalogImport.stageFinalizing');
-    default:
-      return '';
-  }
-}
-
-function CatalogImportProgress({ status }: { status: CatalogImportStatus }) {
-  const { t } = useTranslation('products');
-  const { state, progress, failureReason } = status;
-
-  const getStateLabel = () => {
-    switch (state) {
-      case 'queued':
-        return t('catalogImport.statusQueued');
-      case 'active':
-        return t('catalogImport.statusProcessing');
-      case 'completed':
-        return t('catalogImport.statusCompleted');
-      case 'failed':
-        return t('catalogImport.statusFailed');
-      default:
-        return t('catalogImport.statusUnknown');
-    }
-  };
-
-  const getStateColor = (): 'default' | 'primary' | 'success' | 'error' => {
-    switch (state) {
-      case 'queued':
-        return 'default';
-      case 'active':
-        return 'primary';
-      case 'completed':
-        return 'success';
-      case 'failed':
-        return 'error';
-      default:
-        return 'default';
-    }
-  };
-
-  const getProgressPercent = () => {
-    if (status.progressPct != null && status.progressPct > 0) {
-      return status.progressPct;
-    }
-    if (!progress || progress.total === 0) return 0;
-
-    return Math.round((progress.processed / progress.total) * 100);
-  };
-
-  const getElapsedAndEta = () => {
-    if (!progress?.startedAt) return null;
-
-    const startTime = new Date(progress.startedAt).getTime();
-    const now = progress.finishedAt ? new Date(progress.finishedAt).getTime() : Date.now();
-    const elapsedMs = now - startTime;
-    const elapsedSec = Math.floor(elapsedMs / 1000);
-    const elapsed = formatDuration(elapsedSec);
-
-    const pct = getProgressPercent();
-    let eta = '';
-    if (pct > 5 && pct < 100 && !progress.finishedAt) {
-      const remainingMs = (elapsedMs / pct) * (100 - pct);
-      eta = formatDuration(Math.floor(remainingMs / 1000));
-    }
-
-    return { elapsed, eta };
-  };
-
-  const progressPercent = getProgressPercent();
-  const stageLabel = getStageLabel(status.stage, t);
-
-  return (
-    <Box
-      sx={{
-        p: 3,
-        border: '1px solid',
-        borderColor: 'divider',
-        borderRadius: 2,
-        display: 'flex',
-        flexDirection: 'column',
-        gap: 2,
-      }}
-    >
-      <Box
-        sx={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-        }}
-      >
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-          <Typography variant="h6">
-            {t('catalogImport.status')}: {getStateLabel()}
-          </Typography>
-          <Chip label={getStateLabel()} color={getStateColor()} size="small" />
-        </Box>
-      </Box>
-
-      {stageLabel && state === 'active' && (
-        <Typography variant="body2" color="text.secondary">
-          {stageLabel}
-          {status.message ? ` \u2014 ${status.message}` : ''}
-        </Typography>
-      )}
-
-      {progress && (
-        <>
-          <Box sx={{ width: '100%' }}>
-            <LinearProgress
-              variant={
-                state === 'active' && progressPercent === 0 ? 'indeterminate' : 'determinate'
-              }
-              value={progressPercent}
-              sx={{ height: 8, borderRadius: 1 }}
-            />
-            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
-              {progressPercent}%
-              {progress.total > 0
-                ? // eslint-disable-next-line max-len
-                  ` (${t('catalogImport.rowsProcessed', { processed: progress.processed.toLocaleString(), total: progress.total.toLocaleString() })})`
-                : progress.processed > 0
-                  ? ` (${t('catalogImport.rowsProcessedNoTotal', { processed: progress.processed.toLocaleString() })})`
-                  : ''}
-            </Typography>
-            {(() => {
-              const timing = getElapsedAndEta();
-              if (!timing) return null;
-
-              return (
-                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
-                  {t('catalogImport.elapsed')}: {timing.elapsed}
-                  {timing.eta && ` | ${t('catalogImport.estRemaining')}: ${timing.eta}`}
-                </Typography>
-              );
-            })()}
-          </Box>
-
-          <Box
-            sx={{
-              display: 'grid',
-              gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
-              gap: 2,
-              mt: 1,
-            }}
-          >
-            <Box>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.total')}
-              </Typography>
-              <Typography variant="h6">
-                {progress.total > 0
-                  ? progress.total.toLocaleString()
-                  : progress.processed > 0
-                    ? `~${progress.processed.toLocaleString()}`
-                    : '...'}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.processed')}
-              </Typography>
-              <Typography variant="h6" color="primary.main">
-                {progress.processed.toLocaleString()}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.inserted')}
-              </Typography>
-              <Typography variant="h6" color="success.main">
-                {progress.inserted.toLocaleString()}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.updated')}
-              </Typography>
-              <Typography variant="h6" color="info.main">
-                {progress.updated.toLocaleString()}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.errors')}
-              </Typography>
-              <Typography variant="h6" color="error.main">
-                {progress.errored.toLocaleString()}
-              </Typography>
-            </Box>
-          </Box>
-
-          {progress.startedAt && (
-            <Box sx={{ mt: 2 }}>
-              <Typography variant="body2" color="text.secondary">
-                {t('catalogImport.started')}: {new Date(progress.startedAt).toLocaleString()}
-              </Typography>
-              {progress.finishedAt && (
-                <Typography variant="body2" color="text.secondary">
-                  {t('catalogImport.finished')}: {new Date(progress.finishedAt).toLocaleString()}
-                </Typography>
-              )}
-            </Box>
-          )}
-        </>
-      )}
-
-      {state === 'failed' && failureReason && (
-        <Box
-          sx={{
-            mt: 2,
-            p: 2,
-            bgcolor: 'error.light',
-            borderRadius: 1,
-          }}
-        >
-          <Typography variant="body2" color="error.main">
-            <strong>{t('catalogImport.error')}:</strong> {failureReason}
-          </Typography>
-        </Box>
-      )}
-    </Box>
-  );
-}
-
-function CatalogImportErrors({
-  errors,
-}: {
-  errors: Array<{ row: number; sku?: string; error: string }>;
-}) {
-  const { t } = useTranslation('products');
-  if (errors.length === 0) return null;
-
-  return (
-    <Box
-      sx={{
-        mt: 3,
-        p: 3,
-        border: '1px solid',
-        borderColor: 'divider',
-        borderRadius: 2,
-      }}
-    >
-      <Typography variant="h6" gutterBottom color="error.main">
-        {t('catalogImport.importErrors', { count: errors.length })}
-      </Typography>
-      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 300 }}>
-        <Table size="small" stickyHeader>
-          <TableHead>
-            <TableRow>
-              <TableCell>
-                <strong>{t('catalogImport.row')}</strong>
-              </TableCell>
-              <TableCell>
-                <strong>{t('catalogImport.sku')}</strong>
-              </TableCell>
-              <TableCell>
-                <strong>{t('catalogImport.error')}</strong>
-              </TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {errors.map((err, index) => (
-              <TableRow key={index}>
-                <TableCell>{err.row}</TableCell>
-                <TableCell>{err.sku || t('catalogImport.na')}</TableCell>
-                <TableCell>
-                  <Typography variant="body2" color="error.main">
-                    {err.error}
-                  </Typography>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-    </Box>
-  );
+  /**
+   * The uploaded file itself, when the host still has it. CSV/TSV headers are
+   * then previewed in the browser instead of through previewHeadersUrl.
+   */
+  uploadedFile?: File | null;
+  /**
+   * Called when a running import for the organization was found on mount
+   * (e.g. after a page reload), so the host can open the wizard on it.
+   */
+  onActiveImportDetected?: (status: CatalogImportStatus) => void;
+  /**
+   * Open the wizard on an existing job's progress, e.g. when the user picks
+   * "Details" in CatalogImportTray.
+   */
+  jobId?: string | null;
+  /**
+   * Where mapping templates are kept (see createLocalStorageTemplateStore and
+   * createRestTemplateStore). Without it the template picker and the
+   * "Save as Template" action are hidden.
+   */
+  templateStore?: MappingTemplateStore;
+  /**
+   * Supplier layouts matched by header fingerprint alongside saved templates
+   * (default: BUILT_IN_VENDOR_PROFILES; pass [] to turn them off).
+   */
+  vendorProfiles?: MappingTemplateCandidate[];
+  /**
+   * Where per-header mapping corrections are learned (see
+   * createLocalStorageCorrectionStore). Overrides of the proposed mapping are
+   * recorded when an import starts and preferred on the next import.
+   */
+  correctionStore?: MappingCorrectionStore;
+  /**
+   * Mapping validation rules, e.g. organization-specific requirements built
+   * with extendMappingRules(DEFAULT_MAPPING_RULES, ...).
+   */
+  validationRules?: MappingRule[];
 }
 
 // ============================================================================
@@ -440,22 +206,45 @@ export function CatalogImportWizard({
   onFileUploaded,
   uploadedFileId,
   uploadedFileName,
+  uploadedFile,
+  onActiveImportDetected,
+  jobId,
+  templateStore,
+  vendorProfiles = BUILT_IN_VENDOR_PROFILES,
+  correctionStore,
+  validationRules,
 }: CatalogImportWizardProps) {
   const { t } = useTranslation('products');
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileId, setFileId] = useState<string | null>(uploadedFileId || null);
+  const [fileName, setFileName] = useState<string | null>(uploadedFileName || null);
+  const [importMode, setImportMode] = useState<CatalogImportMode>('merge');
+  const [importKind, setImportKind] = useState<CatalogImportKind | null>(null);
+
+  // Replace-mode review: the import waits here until the organization name is typed
+  const [pendingReplace, setPendingReplace] = useState<{
+    params: StartCatalogImportParams;
+    meta: CatalogImportJobMeta;
+    /** Learned once the replacement is confirmed and started */
+    corrections?: MappingCorrectionInput[];
+  } | null>(null);
+  const [replaceImpact, setReplaceImpact] = useState<ReplaceImpactPreview | null>(null);
+  const [isLoadingReplaceImpact, setIsLoadingReplaceImpact] = useState(false);
+  const [replaceConfirmText, setReplaceConfirmText] = useState('');
+
+  // Replace imports get an extra review step before the progress step
+  const hasReviewStep = importMode === 'replace' || !!pendingReplace;
+  const progressStep = hasReviewStep ? 4 : 3;
   const steps = useMemo(
     () => [
       t('catalogImport.steps.uploadFile'),
       t('catalogImport.steps.configureImport'),
       t('catalogImport.steps.mapColumns'),
+      ...(hasReviewStep ? [t('catalogImport.steps.reviewReplacement')] : []),
       t('catalogImport.steps.monitorProgress'),
     ],
-    [t],
+    [t, hasReviewStep],
   );
-  const [activeStep, setActiveStep] = useState(0);
-  const [fileId, setFileId] = useState<string | null>(uploadedFileId || null);
-  const [fileName, setFileName] = useState<string | null>(uploadedFileName || null);
-  const [importMode, setImportMode] = useState<CatalogImportMode>('merge');
-  const [importKind, setImportKind] = useState<CatalogImportKind | null>(null);
 
   // Screening compound specific state
   const [screeningMode, setScreeningMode] = useState<ScreeningMode | null>(null);
@@ -463,25 +252,76 @@ export function CatalogImportWizard({
   const [plateFormat, setPlateFormat] = useState<PlateFormat>('P96');
   const [defaultPlateId, setDefaultPlateId] = useState('');
 
+  // Spreadsheet layout (sheet and header row), chosen in the configure step
+  const [workbookPreview, setWorkbookPreview] = useState<HeaderPreviewResponse | null>(null);
+  const [isLoadingWorkbook, setIsLoadingWorkbook] = useState(false);
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  const [headerRowIndex, setHeaderRowIndex] = useState<number | null>(null);
+  const isSpreadsheet = !!fileName && isSpreadsheetFileName(fileName);
+
   // Column mapping state
   const [headerColumns, setHeaderColumns] = useState<HeaderPreviewColumn[]>([]);
+  // Records the preview could not read (e.g. malformed SDF records)
+  const [previewErrors, setPreviewErrors] = useState<CatalogImportError[]>([]);
+  const [previewRows, setPreviewRows] = useState<string[][]>([]);
   const [columnMapping, setColumnMapping] = useState<ColumnMapping>({
     mappings: [],
   });
+  // File-wide values for fields without a column, set in the mapping step
+  const [constantValues, setConstantValues] = useState<ConstantValues>({});
   const [isLoadingHeaders, setIsLoadingHeaders] = useState(false);
+  // Mapping the wizard proposed; what the user changes from it is learned
+  const [proposedMapping, setProposedMapping] = useState<ColumnMapping | null>(null);
+  const [corrections, setCorrections] = useState<MappingCorrection[]>([]);
+  const learnedMappings = useMemo(
+    () => (importKind ? buildLearnedMappings(corrections, importKind) : undefined),
+    [corrections, importKind],
+  );
+
+  // Mapping templates; the applied one maps the columns once headers are read
+  const [templates, setTemplates] = useState<CatalogImportMappingTemplate[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [appliedTemplate, setAppliedTemplate] = useState<CatalogImportMappingTemplate | null>(null);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  // Template that mapped the current file, with the header changes since it was saved
+  const [templateMatch, setTemplateMatch] = useState<{
+    match: TemplateMatch;
+    isAutomatic: boolean;
+  } | null>(null);
 
   const {
     startImport,
     cancelImport,
+    attachToJob,
     previewHeaders,
+    previewReplaceImpact,
     reset,
     status,
+    jobMeta,
+    reattachedJobId,
     isStarting,
     isCancelling,
     error,
   } = useCatalogImport(organizationId, apiConfig);
 
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
+  const [reportMenuAnchor, setReportMenuAnchor] = useState<HTMLElement | null>(null);
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // With a CatalogImportJobsProvider the job keeps being tracked after the
+  // wizard closes, so running imports can be handed off to CatalogImportTray
+  const canRunInBackground = useCatalogImportJobRegistry() !== null;
+
+  // Show the requested job's progress when opened from the tray
+  useEffect(() => {
+    if (open && jobId && status?.jobId !== jobId) {
+      attachToJob(jobId).catch(() => {
+        // Error is already reported by the hook
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, jobId]);
 
   // Sync file state from props
   useEffect(() => {
@@ -510,12 +350,148 @@ export function CatalogImportWizard({
     }
   }, [fileId, activeStep]);
 
-  // Advance to step 3 when import starts
+  // Advance to the progress step when import starts or a running import was
+  // reattached, unless a replace import is waiting for confirmation
   useEffect(() => {
-    if (status) {
-      setActiveStep(3);
+    if (status && !pendingReplace) {
+      setActiveStep(progressStep);
     }
-  }, [status]);
+  }, [status, pendingReplace, progressStep]);
+
+  // Let the host open the wizard on a reattached import
+  const reattachedStatus = status && status.jobId === reattachedJobId ? status : null;
+  useEffect(() => {
+    if (reattachedStatus && onActiveImportDetected) {
+      onActiveImportDetected(reattachedStatus);
+    }
+    // Only notify once per reattached job, not on every status update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reattachedStatus?.jobId]);
+
+  const loadWorkbookPreview = useCallback(
+    async (nextSheetName?: string) => {
+      if (!fileId) return;
+      setIsLoadingWorkbook(true);
+      try {
+        const result = await previewHeaders(fileId, null, { sheetName: nextSheetName });
+        if (result) {
+          setWorkbookPreview(result);
+          setSheetName(result.sheetName ?? nextSheetName ?? result.sheets?.[0] ?? null);
+          setHeaderRowIndex(
+            result.rawRows ? detectHeaderRowIndex(result.rawRows) : (result.headerRowIndex ?? null),
+          );
+        }
+      } finally {
+        setIsLoadingWorkbook(false);
+      }
+    },
+    [fileId, previewHeaders],
+  );
+
+  // Spreadsheets need their layout before the import can be configured
+  useEffect(() => {
+    if (activeStep === 1 && isSpreadsheet && !workbookPreview && !isLoadingWorkbook) {
+      loadWorkbookPreview();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeStep, isSpreadsheet, fileId]);
+
+  // Load the organization's templates for the configure step picker
+  useEffect(() => {
+    if (!open || activeStep !== 1 || !templateStore) return;
+    let cancelled = false;
+    setIsLoadingTemplates(true);
+    templateStore
+      .list(organizationId)
+      .then((list) => {
+        if (!cancelled) setTemplates(list);
+      })
+      .catch(() => {
+        // Templates are a convenience; the wizard works without them
+        if (!cancelled) setTemplates([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTemplates(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, activeStep, templateStore, organizationId]);
+
+  // Load the organization's learned corrections before headers are mapped
+  useEffect(() => {
+    if (!open || activeStep !== 1 || !correctionStore) return;
+    let cancelled = false;
+    correctionStore
+      .list(organizationId)
+      .then((list) => {
+        if (!cancelled) setCorrections(list);
+      })
+      .catch(() => {
+        // Without corrections the mapping is auto-detected as usual
+        if (!cancelled) setCorrections([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, activeStep, correctionStore, organizationId]);
+
+  const handleApplyTemplate = useCallback((template: CatalogImportMappingTemplate | null) => {
+    setAppliedTemplate(template);
+    if (!template) return;
+    const { config } = template;
+    setImportKind(config.importKind);
+    setScreeningMode(config.screeningMode ?? null);
+    setPlateFormat(config.plateFormat ?? 'P96');
+    setDefaultPlateId(config.defaultPlateId ?? '');
+  }, []);
+
+  const handleSaveTemplate = useCallback(
+    async (values: { id?: string; name: string; vendorName?: string }) => {
+      if (!templateStore || !importKind) return;
+      const isScreening = importKind === 'SCREENING_COMPOUND';
+      const isPlatedKit = isScreening && screeningMode === 'PLATED_KIT';
+      const savedConstants = Object.fromEntries(
+        Object.entries(constantValues).filter(([, value]) => value?.trim()),
+      ) as ConstantValues;
+      const config: MappingTemplateConfig = {
+        importKind,
+        screeningMode: isScreening ? screeningMode || undefined : undefined,
+        plateFormat: isPlatedKit ? plateFormat : undefined,
+        defaultPlateId: isPlatedKit ? defaultPlateId.trim() || undefined : undefined,
+        constantValues: Object.keys(savedConstants).length > 0 ? savedConstants : undefined,
+      };
+      const saved = await templateStore.save({
+        ...values,
+        organizationId,
+        mapping: columnMapping,
+        config,
+      });
+      setTemplates((prev) => [saved, ...prev.filter((template) => template.id !== saved.id)]);
+      setAppliedTemplate(saved);
+    },
+    [
+      templateStore,
+      importKind,
+      screeningMode,
+      plateFormat,
+      defaultPlateId,
+      constantValues,
+      organizationId,
+      columnMapping,
+    ],
+  );
+
+  // Sheet and header row sent with the preview and import requests
+  const spreadsheetLayout = useMemo(
+    () =>
+      isSpreadsheet
+        ? { sheetName: sheetName ?? undefined, headerRowIndex: headerRowIndex ?? undefined }
+        : undefined,
+    [isSpreadsheet, sheetName, headerRowIndex],
+  );
 
   const handleConfigureNext = useCallback(async () => {
     if (!fileId || !importKind) return;
@@ -533,11 +509,43 @@ export function CatalogImportWizard({
     // Fetch headers for column mapping
     setIsLoadingHeaders(true);
     try {
-      const headerResult = await previewHeaders(fileId);
+      const headerResult = await previewHeaders(fileId, uploadedFile, spreadsheetLayout);
       if (headerResult && headerResult.columns) {
         setHeaderColumns(headerResult.columns);
-        // Initialize column mapping with auto-detected values based on import kind
-        setColumnMapping(initializeColumnMapping(headerResult.columns, importKind));
+        setPreviewErrors(headerResult.errors ?? []);
+        setPreviewRows(headerResult.rows ?? []);
+        // Initialize column mapping with auto-detected values based on import kind,
+        // overridden by the picked template, or else the saved template or vendor
+        // profile whose headers fit the file best, for the columns it knows
+        const detectedMapping = initializeColumnMapping(
+          headerResult.columns,
+          importKind,
+          learnedMappings,
+        );
+        const pickedTemplate =
+          appliedTemplate?.config.importKind === importKind ? appliedTemplate : null;
+        const match = pickedTemplate
+          ? matchTemplate(pickedTemplate, headerResult.columns)
+          : findBestTemplateMatch(
+              headerResult.columns,
+              [...templates, ...vendorProfiles].filter(
+                ({ config }) =>
+                  config.importKind === importKind &&
+                  (!config.screeningMode || config.screeningMode === screeningMode),
+              ),
+            );
+        const initialMapping = match
+          ? applyTemplateMapping(
+              match.template,
+              headerResult.columns,
+              detectedMapping,
+              match.diff.renamed,
+            )
+          : detectedMapping;
+        setTemplateMatch(match ? { match, isAutomatic: !pickedTemplate } : null);
+        setColumnMapping(initialMapping);
+        setConstantValues(match?.template.config.constantValues ?? {});
+        setProposedMapping(initialMapping);
         // Move to mapping step
         setActiveStep(2);
       }
@@ -546,18 +554,92 @@ export function CatalogImportWizard({
     } finally {
       setIsLoadingHeaders(false);
     }
-  }, [fileId, importKind, screeningMode, libraryName, fileName, previewHeaders]);
+  }, [
+    fileId,
+    importKind,
+    screeningMode,
+    libraryName,
+    fileName,
+    previewHeaders,
+    uploadedFile,
+    spreadsheetLayout,
+    appliedTemplate,
+    templates,
+    vendorProfiles,
+    learnedMappings,
+  ]);
 
-  const handleStartImport = useCallback(async () => {
-    if (!fileId || !importKind) return;
+  const handleDiscardTemplateMatch = useCallback(() => {
+    if (!importKind) return;
+    const detectedMapping = initializeColumnMapping(headerColumns, importKind, learnedMappings);
+    setTemplateMatch(null);
+    setColumnMapping(detectedMapping);
+    setConstantValues({});
+    setProposedMapping(detectedMapping);
+  }, [headerColumns, importKind, learnedMappings]);
+
+  // Columns the user has to review because the template did not know them
+  const changedColumns = useMemo(
+    () =>
+      templateMatch
+        ? [
+            ...templateMatch.match.diff.added.map((fileColumn) => ({ fileColumn })),
+            ...templateMatch.match.diff.renamed.map(({ from, to }) => ({
+              fileColumn: to,
+              previousName: from,
+            })),
+          ]
+        : undefined,
+    [templateMatch],
+  );
 
-    // Determine final library name
-    let finalLibraryName = libraryName.trim();
-    if (importKind === 'SCREENING_COMPOUND' && !finalLibraryName && fileName) {
-      finalLibraryName = deriveLibraryNameFromFilename(fileName);
-    }
+  const openReplaceReview = useCallback(
+    (
+      params: StartCatalogImportParams,
+      meta: CatalogImportJobMeta,
+      corrections?: MappingCorrectionInput[],
+    ) => {
+      setPendingReplace({ params, meta, corrections });
+      setReplaceConfirmText('');
+      setReplaceImpact(null);
+      setActiveStep(3);
+
+      if (!apiConfig.replaceImpactPreviewUrl) return;
+      setIsLoadingReplaceImpact(true);
+      previewReplaceImpact(params)
+        .then(setReplaceImpact)
+        .finally(() => setIsLoadingReplaceImpact(false));
+    },
+    [apiConfig.replaceImpactPreviewUrl, previewReplaceImpact],
+  );
+
+  // Learn the columns the user mapped differently than proposed, once an import started with them
+  const recordCorrections = useCallback(
+    (newCorrections: MappingCorrectionInput[], mapping: ColumnMapping) => {
+      if (!correctionStore || newCorrections.length === 0) return;
+      correctionStore
+        .record(organizationId, newCorrections)
+        .then((updated) => {
+          setCorrections(updated);
+          setProposedMapping(mapping);
+        })
+        .catch(() => {
+          // Learning is best effort and must not block the import
+        });
+    },
+    [correctionStore, organizationId],
+  );
+
+  const handleStartImport = useCallback(
+    async (validateOnly = false) => {
+      if (!fileId || !importKind) return;
+
+      // Determine final library name
+      let finalLibraryName = libraryName.trim();
+      if (importKind === 'SCREENING_COMPOUND' && !finalLibraryName && fileName) {
+        finalLibraryName = deriveLibraryNameFromFilename(fileName);
+      }
 
-    try {
       // Translate frontend mapping kinds to backend equivalents before sending
       // Use type assertion since translated values (library, plate, mdl) are valid
       // backend values but not part of the frontend ColumnMappingKind type
@@ -565,8 +647,9 @@ export function CatalogImportWizard({
         columnMapping.mappings.length > 0
           ? (translateColumnMapping(columnMapping) as ColumnMapping)
           : undefined;
+      const translatedConstants = translateConstantValues(constantValues);
 
-      await startImport({
+      const params: StartCatalogImportParams = {
         fileId,
         mode: importMode,
         importKind,
@@ -578,28 +661,110 @@ export function CatalogImportWizard({
         plateFormat: screeningMode === 'PLATED_KIT' ? plateFormat : undefined,
         defaultPlateId:
           screeningMode === 'PLATED_KIT' ? defaultPlateId.trim() || undefined : undefined,
-      });
+        constantValues:
+          Object.keys(translatedConstants).length > 0
+            ? (translatedConstants as ConstantValues)
+            : undefined,
+        validateOnly: validateOnly || undefined,
+        ...spreadsheetLayout,
+      };
+      const meta = { fileName: fileName ?? undefined, organizationName };
+
+      const newCorrections =
+        correctionStore && proposedMapping
+          ? findMappingCorrections(proposedMapping, columnMapping, importKind)
+          : [];
+
+      // Validation runs write nothing, so only real replace imports need the review
+      if (params.mode === 'replace' && !params.validateOnly) {
+        openReplaceReview(params, meta, newCorrections);
+
+        return;
+      }
+
+      try {
+        await startImport(params, meta);
+        recordCorrections(newCorrections, columnMapping);
+      } catch {
+        // Error is already reported by the hook
+      }
+    },
+    [
+      fileId,
+      importMode,
+      importKind,
+      columnMapping,
+      constantValues,
+      startImport,
+      screeningMode,
+      libraryName,
+      fileName,
+      plateFormat,
+      defaultPlateId,
+      organizationName,
+      openReplaceReview,
+      spreadsheetLayout,
+      correctionStore,
+      proposedMapping,
+      recordCorrections,
+    ],
+  );
+
+  // Start the real import of a validated file with the exact same parameters
+  const handleImportForReal = useCallback(async () => {
+    if (!jobMeta?.params) return;
+    const params = { ...jobMeta.params, validateOnly: undefined };
+    const meta = { fileName: jobMeta.fileName, organizationName: jobMeta.organizationName };
+
+    if (params.mode === 'replace') {
+      openReplaceReview(params, meta);
+
+      return;
+    }
+
+    try {
+      await startImport(params, meta);
     } catch {
       // Error is already reported by the hook
     }
+  }, [jobMeta, startImport, openReplaceReview]);
+
+  const handleConfirmReplace = useCallback(async () => {
+    if (!pendingReplace || !isReplaceConfirmed(replaceConfirmText, organizationName)) return;
+    try {
+      await startImport(pendingReplace.params, pendingReplace.meta);
+      recordCorrections(pendingReplace.corrections ?? [], columnMapping);
+      setPendingReplace(null);
+    } catch {
+      // Error is already reported by the hook; stay on the review step
+    }
   }, [
-    fileId,
-    importMode,
-    importKind,
-    columnMapping,
+    pendingReplace,
+    replaceConfirmText,
+    organizationName,
     startImport,
-    screeningMode,
-    libraryName,
-    fileName,
-    plateFormat,
-    defaultPlateId,
+    recordCorrections,
+    columnMapping,
   ]);
 
+  const handleReplaceReviewBack = useCallback(() => {
+    setPendingReplace(null);
+    // A validated job is still shown; otherwise go back to the mapping
+    if (!status) {
+      setActiveStep(2);
+    }
+  }, [status]);
+
   const handleMappingBack = useCallback(() => {
     setActiveStep(1);
     // Reset column mapping state
     setHeaderColumns([]);
+    setPreviewErrors([]);
+    setPreviewRows([]);
     setColumnMapping({ mappings: [] });
+    setConstantValues({});
+    setProposedMapping(null);
+    setTemplateMatch(null);
   }, []);
 
   const handleReset = useCallback(() => {
@@ -613,7 +778,20 @@ export function CatalogImportWizard({
     setPlateFormat('P96');
     setDefaultPlateId('');
     setHeaderColumns([]);
+    setPreviewErrors([]);
+    setPreviewRows([]);
     setColumnMapping({ mappings: [] });
+    setConstantValues({});
+    setWorkbookPreview(null);
+    setSheetName(null);
+    setHeaderRowIndex(null);
+    setAppliedTemplate(null);
+    setTemplateMatch(null);
+    setProposedMapping(null);
+    setReportError(null);
+    setPendingReplace(null);
+    setReplaceConfirmText('');
+    setReplaceImpact(null);
     reset();
   }, [reset]);
 
@@ -628,24 +806,65 @@ export function CatalogImportWizard({
     }
   }, [status?.jobId, cancelImport]);
 
+  const isImportInProgress = status?.state === 'queued' || status?.state === 'active';
+
   const handleClose = useCallback(() => {
-    // Don't allow closing if import is in progress
-    if (status?.state === 'queued' || status?.state === 'active') {
+    // Don't allow closing if import is in progress, unless the job can keep
+    // running in the background (it stays in the shared job registry)
+    if (isImportInProgress && !canRunInBackground) {
       return;
     }
     handleReset();
     onClose();
-  }, [status, handleReset, onClose]);
+  }, [isImportInProgress, canRunInBackground, handleReset, onClose]);
 
-  const isImportInProgress = status?.state === 'queued' || status?.state === 'active';
   const isImportCompleted = status?.state === 'completed';
   const isImportFailed = status?.state === 'failed';
+  const isValidationRun = !!(status?.validateOnly ?? jobMeta?.params?.validateOnly);
+
+  const errorReportUrl =
+    status?.errorsLocation && (isImportCompleted || isImportFailed)
+      ? (apiConfig.resolveErrorsLocation?.(status.errorsLocation, status.jobId) ??
+        status.errorsLocation)
+      : null;
+
+  const handleDownloadReport = useCallback(
+    async (format: ImportReportFormat) => {
+      setReportMenuAnchor(null);
+      if (!status) return;
+
+      setIsDownloadingReport(true);
+      setReportError(null);
+      try {
+        // The inline errors are only a sample; the report needs every row error
+        const errors = errorReportUrl
+          ? await fetchErrorReport(errorReportUrl, {
+              credentials: apiConfig.errorReportCredentials ?? 'include',
+            })
+          : undefined;
+        const report = buildImportReport({
+          status,
+          params: jobMeta?.params,
+          fileName: jobMeta?.fileName ?? fileName ?? undefined,
+          organizationName: jobMeta?.organizationName ?? organizationName,
+          errors,
+        });
+        downloadImportReport(report, format);
+      } catch (err) {
+        setReportError(err instanceof Error ? err.message : 'Failed to build import report');
+      } finally {
+        setIsDownloadingReport(false);
+      }
+    },
+    [status, errorReportUrl, apiConfig.errorReportCredentials, jobMeta, fileName, organizationName],
+  );
 
   // Determine if we can proceed from configure step
 
   const canProceedFromConfigure = () => {
     if (!fileId || !importKind) return false;
     if (importKind === 'SCREENING_COMPOUND' && !screeningMode) return false;
+    if (isSpreadsheet && isLoadingWorkbook) return false;
 
     return true;
   };
@@ -656,7 +875,7 @@ export function CatalogImportWizard({
       onClose={handleClose}
       maxWidth="lg"
       fullWidth
-      disableEscapeKeyDown={isImportInProgress}
+      disableEscapeKeyDown={isImportInProgress && !canRunInBackground}
     >
       <DialogTitle>
         <Box>
@@ -701,6 +920,27 @@ export function CatalogImportWizard({
                 {t('catalogImport.fileUploaded')}: <strong>{fileName}</strong>
               </Alert>
 
+              {isSpreadsheet && (
+                <SpreadsheetLayoutPicker
+                  sheets={workbookPreview?.sheets ?? []}
+                  sheetName={sheetName}
+                  onSheetChange={(nextSheetName) => loadWorkbookPreview(nextSheetName)}
+                  rawRows={workbookPreview?.rawRows}
+                  headerRowIndex={headerRowIndex}
+                  onHeaderRowChange={setHeaderRowIndex}
+                  isLoading={isLoadingWorkbook}
+                />
+              )}
+
+              {templateStore && (
+                <MappingTemplatePicker
+                  templates={templates}
+                  appliedTemplateId={appliedTemplate?.id ?? null}
+                  onApply={handleApplyTemplate}
+                  isLoading={isLoadingTemplates}
+                />
+              )}
+
               {/* Import Kind Selection */}
               <FormControl component="fieldset" sx={{ mb: 3, width: '100%' }}>
                 <FormLabel component="legend">{t('catalogImport.whatDoesFileContain')}</FormLabel>
@@ -903,6 +1143,15 @@ export function CatalogImportWizard({
                 )}
               </Alert>
 
+              {previewErrors.length > 0 && (
+                <Box sx={{ mb: 3 }}>
+                  <Alert severity="warning">
+                    {t('catalogImport.previewRecordErrors', { count: previewErrors.length })}
+                  </Alert>
+                  <CatalogImportErrors errors={previewErrors} />
+                </Box>
+              )}
+
               {isLoadingHeaders ? (
                 <Box
                   sx={{
@@ -916,17 +1165,34 @@ export function CatalogImportWizard({
                   <Typography sx={{ ml: 2 }}>{t('catalogImport.analyzingHeaders')}</Typography>
                 </Box>
               ) : (
-                <ColumnMappingStep
-                  columns={headerColumns}
-                  mapping={columnMapping}
-                  onMappingChange={setColumnMapping}
-                  isLoading={isLoadingHeaders || isStarting}
-                  onBack={handleMappingBack}
-                  onConfirm={handleStartImport}
-                  importKind={importKind}
-                  screeningMode={screeningMode || undefined}
-                  defaultPlateId={screeningMode === 'PLATED_KIT' ? defaultPlateId : undefined}
-                />
+                <>
+                  {templateMatch && (
+                    <TemplateMatchSummary
+                      match={templateMatch.match}
+                      isAutomatic={templateMatch.isAutomatic}
+                      onDiscard={handleDiscardTemplateMatch}
+                    />
+                  )}
+                  <ColumnMappingStep
+                    columns={headerColumns}
+                    previewRows={previewRows}
+                    mapping={columnMapping}
+                    onMappingChange={setColumnMapping}
+                    isLoading={isLoadingHeaders || isStarting}
+                    onBack={handleMappingBack}
+                    onConfirm={() => handleStartImport()}
+                    onValidate={() => handleStartImport(true)}
+                    onSaveTemplate={templateStore ? () => setShowSaveTemplate(true) : undefined}
+                    importKind={importKind}
+                    screeningMode={screeningMode || undefined}
+                    defaultPlateId={screeningMode === 'PLATED_KIT' ? defaultPlateId : undefined}
+                    changedColumns={changedColumns}
+                    learnedMappings={learnedMappings}
+                    validationRules={validationRules}
+                    constantValues={constantValues}
+                    onConstantValuesChange={setConstantValues}
+                  />
+                </>
               )}
 
               {isStarting && (
@@ -938,30 +1204,94 @@ export function CatalogImportWizard({
             </Box>
           )}
 
-          {/* Step 3: Monitor Progress */}
-          {activeStep === 3 && status && (
+          {/* Step 3 (replace only): Review Replacement */}
+          {activeStep === 3 && pendingReplace && (
             <Box>
               <Typography variant="h6" gutterBottom>
-                4. {t('catalogImport.importProgress')}
+                4. {t('catalogImport.steps.reviewReplacement')}
               </Typography>
 
-              <CatalogImportProgress status={status} />
+              <ReplaceImpactReview
+                preview={replaceImpact}
+                isLoading={isLoadingReplaceImpact}
+                organizationName={organizationName}
+                confirmText={replaceConfirmText}
+                onConfirmTextChange={setReplaceConfirmText}
+              />
 
-              {status.progress?.errors && status.progress.errors.length > 0 && (
-                <CatalogImportErrors errors={status.progress.errors} />
+              {error && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {error}
+                </Alert>
               )}
+            </Box>
+          )}
+
+          {/* Last step: Monitor Progress */}
+          {activeStep === progressStep && !status && isStarting && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <CircularProgress size={20} />
+              <Typography>{t('catalogImport.startingImport')}</Typography>
+            </Box>
+          )}
+
+          {activeStep === progressStep && status && (
+            <Box>
+              <Typography variant="h6" gutterBottom>
+                {progressStep + 1}.{' '}
+                {isValidationRun
+                  ? t('catalogImport.validationProgress')
+                  : t('catalogImport.importProgress')}
+              </Typography>
+
+              {reattachedStatus && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  {t('catalogImport.reattachedToRunningImport')}
+                </Alert>
+              )}
+
+              <CatalogImportProgress status={status} validateOnly={isValidationRun} />
 
-              {isImportCompleted && (
+              {/* The full report replaces the inline sample once the job has finished */}
+              {errorReportUrl ? (
+                <CatalogImportErrorReport
+                  url={errorReportUrl}
+                  credentials={apiConfig.errorReportCredentials}
+                />
+              ) : (
+                status.progress?.errors &&
+                status.progress.errors.length > 0 && (
+                  <CatalogImportErrors errors={status.progress.errors} />
+                )
+              )}
+
+              {isImportCompleted && !isValidationRun && (
                 <Alert severity="success" sx={{ mt: 3 }}>
                   {t('catalogImport.importCompletedSuccess')}
                 </Alert>
               )}
 
+              {isImportCompleted && isValidationRun && (
+                <Alert severity={status.progress?.errored ? 'warning' : 'success'} sx={{ mt: 3 }}>
+                  {t('catalogImport.validationCompleted', {
+                    inserted: (status.progress?.inserted ?? 0).toLocaleString(),
+                    updated: (status.progress?.updated ?? 0).toLocaleString(),
+                    errored: (status.progress?.errored ?? 0).toLocaleString(),
+                  })}
+                </Alert>
+              )}
+
               {isImportFailed && (
                 <Alert severity="error" sx={{ mt: 3 }}>
                   {t('catalogImport.importFailedMessage')}
                 </Alert>
               )}
+
+              {reportError && (
+                <Alert severity="warning" sx={{ mt: 3 }} onClose={() => setReportError(null)}>
+                  {t('catalogImport.report.downloadFailed')}: {reportError}
+                </Alert>
+              )}
             </Box>
           )}
         </Box>
@@ -988,7 +1318,28 @@ export function CatalogImportWizard({
 
         {/* Step 2 actions are handled by ColumnMappingStep component */}
 
-        {activeStep === 3 && (
+        {activeStep === 3 && pendingReplace && (
+          <>
+            <Button onClick={handleReplaceReviewBack} disabled={isStarting}>
+              {t('catalogImport.back')}
+            </Button>
+            <Button
+              variant="contained"
+              color="error"
+              onClick={handleConfirmReplace}
+              disabled={
+                isStarting ||
+                isLoadingReplaceImpact ||
+                !isReplaceConfirmed(replaceConfirmText, organizationName)
+              }
+              startIcon={isStarting ? <CircularProgress size={16} /> : null}
+            >
+              {t('catalogImport.replaceReview.startReplace')}
+            </Button>
+          </>
+        )}
+
+        {activeStep === progressStep && (
           <>
             {isImportInProgress && (
               <Button
@@ -1001,12 +1352,49 @@ export function CatalogImportWizard({
                 {isCancelling ? t('catalogImport.cancelling') : t('catalogImport.cancelImport')}
               </Button>
             )}
+            {isImportInProgress && canRunInBackground && (
+              <Button onClick={handleClose} variant="contained">
+                {t('catalogImport.runInBackground')}
+              </Button>
+            )}
             {(isImportCompleted || isImportFailed) && (
               <>
+                <Button
+                  onClick={(e) => setReportMenuAnchor(e.currentTarget)}
+                  disabled={isDownloadingReport}
+                  startIcon={isDownloadingReport ? <CircularProgress size={16} /> : null}
+                >
+                  {t('catalogImport.report.download')}
+                </Button>
+                <Menu
+                  anchorEl={reportMenuAnchor}
+                  open={!!reportMenuAnchor}
+                  onClose={() => setReportMenuAnchor(null)}
+                >
+                  <MenuItem onClick={() => handleDownloadReport('csv')}>
+                    {t('catalogImport.report.csv')}
+                  </MenuItem>
+                  <MenuItem onClick={() => handleDownloadReport('json')}>
+                    {t('catalogImport.report.json')}
+                  </MenuItem>
+                </Menu>
                 <Button onClick={handleReset} variant="outlined">
                   {t('catalogImport.importAnotherFile')}
                 </Button>
-                <Button onClick={handleClose} variant="contained">
+                {isImportCompleted && isValidationRun && jobMeta?.params && (
+                  <Button
+                    onClick={handleImportForReal}
+                    variant="contained"
+                    disabled={isStarting}
+                    startIcon={isStarting ? <CircularProgress size={16} /> : null}
+                  >
+                    {t('catalogImport.importForReal')}
+                  </Button>
+                )}
+                <Button
+                  onClick={handleClose}
+                  variant={isImportCompleted && isValidationRun ? 'outlined' : 'contained'}
+                >
                   {t('catalogImport.close')}
                 </Button>
               </>
@@ -1015,6 +1403,19 @@ export function CatalogImportWizard({
         )}
       </DialogActions>
 
+      {templateStore && (
+        <SaveMappingTemplateDialog
+          open={showSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+          templates={templates}
+          initialTemplate={
+            appliedTemplate ??
+            templates.find((template) => template.id === templateMatch?.match.template.id)
+          }
+          onSave={handleSaveTemplate}
+        />
+      )}
+
       {/* Cancel Confirmation Dialog */}
       <Dialog open={showCancelConfirm} onClose={() => setShowCancelConfirm(false)} maxWidth="xs">
         <DialogTitle>{t('catalogImport.cancelImportConfirm')}</DialogTitle>
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useRef, type Ref } from 'react';
 import {
   Autocomplete,
   Box,
@@ -22,6 +22,12 @@ interface ColumnMappingAutocompleteProps {
   onChange: (value: ColumnMappingKind) => void;
   optionGroups: MappingOptionGroup[];
   disabled?: boolean;
+  /** Ref to the search input, e.g. to focus it from the data preview grid */
+  inputRef?: Ref<HTMLInputElement>;
+  /** Marks the input as conflicting, e.g. when another column has the same single-value kind */
+  error?: boolean;
+  /** Kinds already used by another column (kind -> that column); marked in the options */
+  usedKinds?: ReadonlyMap<ColumnMappingKind, string>;
 }
 
 /** Build a flat list of MappingOption from grouped option arrays. */
@@ -53,6 +59,9 @@ export default function ColumnMappingAutocomplete({
   onChange,
   optionGroups,
   disabled = false,
+  inputRef,
+  error = false,
+  usedKinds,
 }: ColumnMappingAutocompleteProps) {
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const activeCategoryRef = useRef<string | null>(null);
@@ -182,6 +191,7 @@ export default function ColumnMappingAutocomplete({
         _state: AutocompleteRenderOptionState,
       ) => {
         const { key, ...rest } = props as React.HTMLAttributes<HTMLLIElement> & { key: string };
+        const usedBy = option.kind !== value ? usedKinds?.get(option.kind) : undefined;
 
         return (
           <li
@@ -192,12 +202,23 @@ export default function ColumnMappingAutocomplete({
             }}
           >
             {option.label}
+            {usedBy && (
+              <Box
+                component="span"
+                sx={{ ml: 1, fontSize: 12, color: 'text.secondary' }}
+                title={`Mapping it here as well conflicts with "${usedBy}"`}
+              >
+                (used by {usedBy})
+              </Box>
+            )}
           </li>
         );
       }}
       renderInput={(params) => (
         <TextField
           {...params}
+          inputRef={inputRef}
+          error={error}
           placeholder="Search..."
           sx={{
             minWidth: 220,
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnMappings, validateMapping } from './ColumnMappingStep';
+import { buildSdfHeaderPreview, parseSdf, SDF_MOLBLOCK_COLUMN } from './sdfReader';
+import { MappingRule } from './mappingRules';
+
+const SDF = `Methane
+  RDKit          2D
+
+  1  0  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+M  END
+> <CAS>
+74-82-8
+
+$$$$
+`;
+
+describe('detectColumnMappings', () => {
+  it('maps the SD molblock column to Molfile with full confidence', () => {
+    const { records } = parseSdf(SDF);
+    const { columns } = buildSdfHeaderPreview(records);
+
+    const molblock = detectColumnMappings(columns, 'SCREENING_COMPOUND').find(
+      (detection) => detection.fileColumn === SDF_MOLBLOCK_COLUMN,
+    );
+
+    expect(molblock).toEqual({
+      fileColumn: SDF_MOLBLOCK_COLUMN,
+      mapTo: 'molfile',
+      confidence: 1,
+      source: 'header',
+    });
+  });
+
+  it('maps an unfamiliar "Struct" header from its SMILES samples', () => {
+    const [detection] = detectColumnMappings(
+      [{ fileColumn: 'Struct', samples: ['CCO', 'c1ccccc1', 'CC(=O)Oc1ccccc1C(=O)O'] }],
+      'SCREENING_COMPOUND',
+    );
+
+    expect(detection).toMatchObject({ fileColumn: 'Struct', mapTo: 'smiles', source: 'content' });
+  });
+});
+
+describe('validateMapping', () => {
+  it('reports concatenated columns missing from the file', () => {
+    const mapping = {
+      mappings: [
+        { fileColumn: 'Cat No', mapTo: 'catalogNumber' as const },
+        {
+          fileColumn: 'Amount',
+          mapTo: 'packageSize' as const,
+          transforms: [{ type: 'concat' as const, columns: ['Unit'], separator: ' ' }],
+        },
+      ],
+    };
+
+    const result = validateMapping(mapping, 'BUILDING_BLOCK', undefined, undefined, {
+      fileColumns: ['Cat No', 'Amount'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        ruleId: 'invalidTransform',
+        params: expect.objectContaining({
+          problem: 'Step 1 (Concatenate Columns): column not in the file: Unit',
+        }),
+      }),
+    ]);
+    expect(
+      validateMapping(mapping, 'BUILDING_BLOCK', undefined, undefined, {
+        fileColumns: ['Cat No', 'Amount', 'Unit'],
+      }).valid,
+    ).toBe(true);
+  });
+
+  it('keeps the positional screening mode and default Plate ID arguments', () => {
+    const mapping = {
+      mappings: [
+        { fileColumn: 'ID', mapTo: 'compoundId' as const },
+        { fileColumn: 'Well', mapTo: 'well' as const },
+      ],
+    };
+
+    const withPlate = validateMapping(mapping, 'SCREENING_COMPOUND', 'PLATED_KIT', 'P1');
+    const withoutPlate = validateMapping(mapping, 'SCREENING_COMPOUND', 'PLATED_KIT');
+
+    expect(withPlate.issues.map((issue) => issue.ruleId)).not.toContain('plateIdRequired');
+    expect(withoutPlate.issues.map((issue) => issue.ruleId)).toContain('plateIdRequired');
+  });
+
+  it('accepts the rules alone as the fifth argument', () => {
+    const mapping = { mappings: [{ fileColumn: 'CAS', mapTo: 'cas' as const }] };
+    const rules: MappingRule[] = [
+      {
+        id: 'vendorRequired',
+        type: 'requiredOneOf',
+        anyOf: [['vendorName']],
+        messageKey: 'org.vendorRequired',
+        message: 'Vendor is required',
+      },
+    ];
+
+    expect(validateMapping(mapping, 'BUILDING_BLOCK', undefined, undefined, rules).errors).toEqual([
+      'Vendor is required',
+    ]);
+  });
+
+  it('reports a field with both a constant value and a mapped column', () => {
+    const mapping = {
+      mappings: [
+        { fileColumn: 'CAS', mapTo: 'cas' as const },
+        { fileColumn: 'Supplier', mapTo: 'vendorName' as const },
+      ],
+    };
+
+    const conflicting = validateMapping(mapping, 'BUILDING_BLOCK', undefined, undefined, {
+      constantValues: { vendorName: 'Enamine' },
+    });
+    const blankConstant = validateMapping(mapping, 'BUILDING_BLOCK', undefined, undefined, {
+      constantValues: { vendorName: ' ' },
+    });
+
+    expect(conflicting.issues).toEqual([
+      expect.objectContaining({
+        ruleId: 'constantAndColumn',
+        severity: 'error',
+        messageKey: 'catalogImport.validation.constantAndColumn',
+        params: { field: 'Vendor Name', columns: 'Supplier' },
+      }),
+    ]);
+    expect(blankConstant.valid).toBe(true);
+  });
+});
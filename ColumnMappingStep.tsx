@@ -1,6 +1,9 @@
+import { useMemo, useRef, useState } from 'react';
 import {
   Box,
   Button,
+  Chip,
+  Collapse,
   Table,
   TableBody,
   TableCell,
@@ -8,725 +11,391 @@ import {
   TableHead,
   TableRow,
   Paper,
+  Tooltip,
   Typography,
   Alert,
+  alpha,
 } from '@mui/material';
 import {
   CatalogImportKind,
   ColumnMapping,
+  ColumnMappingDetection,
+  ColumnMappingEntry,
   ColumnMappingKind,
+  ColumnTransform,
+  ConstantValues,
   HeaderPreviewColumn,
+  MappingOptionGroup,
   ScreeningMode,
+  ValidationIssue,
   ValidationResult,
   BUILDING_BLOCK_OPTIONS,
   SCREENING_COMPOUND_OPTIONS,
+  MAPPING_CARDINALITY,
+  MAPPING_LABELS,
 } from './types';
 import ColumnMappingAutocomplete from './ColumnMappingAutocomplete';
+import DataPreviewGrid from './DataPreviewGrid';
+import { classifyColumnContent, contentScoreFor, proposeKindFromContent } from './columnClassifier';
+import { matchHeader } from './headerMatching';
+import { SDF_MOLBLOCK_COLUMN } from './sdfReader';
+import { correctionHeaderKey, LearnedMappings } from './mappingCorrections';
+import { DEFAULT_MAPPING_RULES, evaluateMappingRules, MappingRule } from './mappingRules';
+import {
+  describeColumnTransform,
+  findTransformProblems,
+  hasTransforms,
+  previewTransformedSamples,
+} from './columnTransforms';
+import ColumnTransformDialog from './ColumnTransformDialog';
+import ConstantValuesEditor from './ConstantValuesEditor';
+import { checkValueFormat } from './valueFormats';
 
 export interface ColumnMappingStepProps {
   columns: HeaderPreviewColumn[];
+  /** First data rows, cells in `columns` order; hides the data preview when omitted */
+  previewRows?: string[][];
   mapping: ColumnMapping;
   onMappingChange: (mapping: ColumnMapping) => void;
   isLoading: boolean;
   onBack: () => void;
   onConfirm: () => void;
+  /** Run a validate-only job with the current mapping; hides the button when omitted */
+  onValidate?: () => void;
+  /**
+   * Columns added or renamed since the applied template was saved. They are
+   * marked, and the table starts filtered to them so only they are reviewed.
+   */
+  changedColumns?: ChangedColumn[];
+  /** Corrections learned from earlier imports, shown with their own badge */
+  learnedMappings?: LearnedMappings;
+  /** Save the current mapping as a template; hides the button when omitted */
+  onSaveTemplate?: () => void;
   importKind: CatalogImportKind;
   /** Screening mode - only applicable when importKind is SCREENING_COMPOUND */
   screeningMode?: ScreeningMode;
   /** Default Plate ID - only applicable for PLATED_KIT mode */
   defaultPlateId?: string;
+  /** Validation rules (default: DEFAULT_MAPPING_RULES), see extendMappingRules */
+  validationRules?: MappingRule[];
+  /** File-wide values for fields missing from the file */
+  constantValues?: ConstantValues;
+  /** Edit the constant values; hides the constant values section when omitted */
+  onConstantValuesChange?: (values: ConstantValues) => void;
 }
 
-/**
- * Context for auto-detection to enable conditional mapping logic.
- */
-interface AutoDetectContext {
-  /** Whether the file contains a warehouse_code column */
-  hasWarehouseCodeColumn: boolean;
+export interface ChangedColumn {
+  fileColumn: string;
+  /** Header in the template, for renamed columns */
+  previousName?: string;
 }
 
-// Auto-detect mapping based on column name
-function autoDetectMapping(
-  columnName: string,
-  importKind: CatalogImportKind,
-  ctx?: AutoDetectContext,
-): ColumnMappingKind {
-  const lower = columnName.toLowerCase().trim();
-
-  // BUILDING_BLOCK warehouse detection BEFORE generic inventory patterns
-  // This ensures warehouse_stock_qty is not incorrectly mapped to inventoryAvailable
-  if (importKind === 'BUILDING_BLOCK') {
-    // Warehouse code - always check first
-    if (lower === 'warehouse_code' || lower === 'warehousecode') {
-      return 'warehouseCode';
-    }
-
-    // Warehouse name
-    if (lower === 'warehouse_name' || lower === 'warehousename') {
-      return 'warehouseName';
-    }
-
-    // Warehouse country
-    if (lower === 'warehouse_country' || lower === 'warehousecountry') {
-      return 'warehouseCountry';
-    }
-
-    // Warehouse city
-    if (lower === 'warehouse_city' || lower === 'warehousecity') {
-      return 'warehouseCity';
-    }
-
-    // Warehouse lead time
-    if (
-      lower === 'warehouse_lead_time_days' ||
-      lower === 'warehouseleadtimedays' ||
-      lower === 'warehouse_lead_time'
-    ) {
-      return 'warehouseLeadTimeDays';
-    }
+// Weight of the header score when content can confirm the header's kind
+const HEADER_WEIGHT = 0.6;
+// Content-only proposals are capped below a header match confirmed by content
+const CONTENT_ONLY_WEIGHT = 0.8;
+// A header match is overruled when almost no samples fit it but nearly all fit another kind
+const HEADER_CONTRADICTED_SCORE = 0.2;
+const CONTENT_OVERRULE_SCORE = 0.9;
+
+const DETECTION_SOURCE_LABELS: Record<ColumnMappingDetection['source'], string> = {
+  header: 'header name',
+  content: 'sample values',
+  'header+content': 'header name and sample values',
+  learned: 'earlier corrections in your organization',
+  none: '',
+};
+
+/** Badge for an auto-detected mapping; low confidence asks the reviewer to double-check */
+function ConfidenceBadge({ detection }: { detection?: ColumnMappingDetection }) {
+  if (!detection) return null;
+
+  if (detection.source === 'learned') {
+    return (
+      <Tooltip title={`Mapped like ${DETECTION_SOURCE_LABELS.learned}`}>
+        <Chip
+          label="Learned"
+          color="primary"
+          size="small"
+          variant="outlined"
+          sx={{ flexShrink: 0 }}
+        />
+      </Tooltip>
+    );
+  }
 
-    // Warehouse stock qty
-    if (
-      lower === 'warehouse_stock_qty' ||
-      lower === 'warehousestockqty' ||
-      lower === 'warehouse_qty' ||
-      lower === 'warehouse_inventory'
-    ) {
-      return 'warehouseStockQty';
-    }
+  const percent = Math.round(detection.confidence * 100);
+  const [label, color] =
+    detection.confidence >= 0.8
+      ? (['High', 'success'] as const)
+      : detection.confidence >= 0.5
+        ? (['Medium', 'warning'] as const)
+        : (['Low', 'error'] as const);
 
-    // Warehouse price
-    if (lower === 'warehouse_price' || lower === 'warehouseprice') {
-      return 'warehousePrice';
-    }
-
-    // Conditional mapping: inventory_available_qty
-    // If warehouse_code column exists, map to warehouseStockQty; otherwise inventoryAvailable
-    if (lower === 'inventory_available_qty') {
-      if (ctx?.hasWarehouseCodeColumn) {
-        return 'warehouseStockQty';
-      }
+  return (
+    <Tooltip
+      title={`Auto-detected from ${DETECTION_SOURCE_LABELS[detection.source]} (${percent}% confidence)`}
+    >
+      <Chip label={label} color={color} size="small" variant="outlined" sx={{ flexShrink: 0 }} />
+    </Tooltip>
+  );
+}
 
-      return 'inventoryAvailable';
-    }
-  }
+/** Marks a column added or renamed since the applied template was saved */
+function ChangeBadge({ change }: { change?: ChangedColumn }) {
+  if (!change) return null;
+
+  return change.previousName ? (
+    <Tooltip title={`Renamed from "${change.previousName}"`}>
+      <Chip label="Renamed" color="info" size="small" sx={{ flexShrink: 0 }} />
+    </Tooltip>
+  ) : (
+    <Tooltip title="Not in the applied template">
+      <Chip label="New" color="info" size="small" sx={{ flexShrink: 0 }} />
+    </Tooltip>
+  );
+}
 
-  // Plate map patterns (prioritize for SCREENING_COMPOUND)
-  if (importKind === 'SCREENING_COMPOUND') {
-    // Plate ID patterns - including rack_number for vendor files
-    if (
-      lower === 'plate' ||
-      lower === 'plate_id' ||
-      lower === 'plateid' ||
-      lower === 'rack_number' ||
-      lower === 'racknumber' ||
-      lower === 'rack'
-    ) {
-      return 'plateId';
-    }
+function getOptionGroups(importKind: CatalogImportKind): MappingOptionGroup[] {
+  return importKind === 'SCREENING_COMPOUND' ? SCREENING_COMPOUND_OPTIONS : BUILDING_BLOCK_OPTIONS;
+}
 
-    // Well patterns - including plate_location for vendor files
-    if (
-      lower === 'well' ||
-      lower === 'well_position' ||
-      lower === 'plate_location' ||
-      lower === 'platelocation' ||
-      lower === 'position' ||
-      lower === 'well_location'
-    ) {
-      return 'well';
-    }
+/**
+ * Detect a mapping for every column from its header name and its sample
+ * values. Header matches are confirmed (or, when the samples clearly belong
+ * to another kind, overruled) by content; unknown headers are mapped by
+ * content alone, without taking a kind already claimed by another column.
+ * Corrections in `learned` take priority over both.
+ */
+export function detectColumnMappings(
+  columns: HeaderPreviewColumn[],
+  importKind: CatalogImportKind = 'BUILDING_BLOCK',
+  learned?: LearnedMappings,
+): ColumnMappingDetection[] {
+  const allowedKinds = new Set(getOptionGroups(importKind).flatMap((group) => group.options));
+  // Kinds present in the file, for synonyms that depend on other columns
+  const fileKinds = new Set(
+    columns.flatMap((col) => matchHeader(col.fileColumn, allowedKinds)?.kind ?? []),
+  );
 
-    // Row patterns
-    if (lower === 'row' || lower === 'plate_row') {
-      return 'row';
+  const detections: ColumnMappingDetection[] = columns.map((col) => {
+    const learnedKind = learned?.get(correctionHeaderKey(col.fileColumn));
+    if (learnedKind && (learnedKind === 'ignore' || allowedKinds.has(learnedKind))) {
+      return { fileColumn: col.fileColumn, mapTo: learnedKind, confidence: 1, source: 'learned' };
     }
 
-    // Column patterns
-    if (
-      lower === 'column' ||
-      lower === 'col' ||
-      lower === 'plate_column' ||
-      lower === 'plate_col'
-    ) {
-      return 'column';
+    const headerMatch = matchHeader(col.fileColumn, allowedKinds, fileKinds);
+    const headerKind = headerMatch?.kind ?? 'ignore';
+    const headerScore = headerMatch?.score ?? 0;
+    const matches = classifyColumnContent(col.samples);
+    const proposal = proposeKindFromContent(matches, allowedKinds);
+
+    if (headerKind === 'ignore') {
+      return proposal
+        ? {
+            fileColumn: col.fileColumn,
+            mapTo: proposal.kind,
+            confidence: proposal.score * CONTENT_ONLY_WEIGHT,
+            source: 'content',
+          }
+        : { fileColumn: col.fileColumn, mapTo: 'ignore', confidence: 0, source: 'none' };
     }
 
-    // Compound ID / IDNUMBER patterns
-    if (
-      lower === 'idnumber' ||
-      lower === 'id_number' ||
-      lower === 'compound_id' ||
-      lower === 'compoundid' ||
-      lower === 'mcule_id' ||
-      lower === 'mcule id'
-    ) {
-      return 'compoundId';
+    // The SD reader's molblock column holds the record structures by construction;
+    // its samples are only summaries, so content cannot confirm it
+    if (col.fileColumn === SDF_MOLBLOCK_COLUMN && headerKind === 'molfile') {
+      return { fileColumn: col.fileColumn, mapTo: headerKind, confidence: 1, source: 'header' };
     }
 
-    // Library name patterns
-    if (lower === 'library' || lower === 'library_name') {
-      return 'libraryName';
+    // No samples, or no pattern for the kind: the header is all we have
+    const contentScore = contentScoreFor(col.samples, headerKind);
+    if (contentScore === null) {
+      return {
+        fileColumn: col.fileColumn,
+        mapTo: headerKind,
+        confidence: headerScore,
+        source: 'header',
+      };
     }
 
-    // Target name patterns
     if (
-      lower === 'target' ||
-      lower === 'target_name' ||
-      lower === 'e3l' ||
-      lower === 'biological_target'
+      contentScore < HEADER_CONTRADICTED_SCORE &&
+      proposal &&
+      proposal.kind !== headerKind &&
+      proposal.score >= CONTENT_OVERRULE_SCORE
     ) {
-      return 'targetName';
-    }
-
-    // Pathway patterns
-    if (lower === 'pathway') {
-      return 'pathway';
-    }
-
-    // Description patterns
-    if (lower === 'short_description' || lower === 'description') {
-      return 'description';
-    }
-
-    // Molecule type patterns
-    if (lower === 'type_of_molecule') {
-      return 'moleculeType';
+      return {
+        fileColumn: col.fileColumn,
+        mapTo: proposal.kind,
+        confidence: proposal.score * CONTENT_ONLY_WEIGHT,
+        source: 'content',
+      };
     }
 
-    // Alias patterns
-    if (lower === 'alias') {
-      return 'alias';
-    }
-
-    // Mechanism of action patterns
-    if (lower === 'mechanism_of_action' || lower === 'mechanism') {
-      return 'mechanismOfAction';
-    }
-
-    // Concentration patterns
-    if (lower === 'concentration' || lower === 'conc') {
-      return 'concentration';
-    }
-
-    // Volume patterns
-    if (lower === 'volume' || lower === 'vol') {
-      return 'volume';
-    }
-
-    // Control type patterns
-    if (lower === 'control' || lower === 'control_type') {
-      return 'controlType';
-    }
+    return {
+      fileColumn: col.fileColumn,
+      mapTo: headerKind,
+      confidence: HEADER_WEIGHT * headerScore + (1 - HEADER_WEIGHT) * contentScore,
+      source: 'header+content',
+    };
+  });
 
-    // Batch ID patterns
-    if (lower === 'batch' || lower === 'batch_id' || lower === 'lot' || lower === 'lot_id') {
-      return 'batchId';
+  // Content-only proposals yield to header matches and to stronger proposals of the same kind
+  const claimed = new Set(
+    detections.filter((d) => d.source !== 'content' && d.mapTo !== 'ignore').map((d) => d.mapTo),
+  );
+  const byConfidence = detections
+    .filter((d) => d.source === 'content')
+    .sort((a, b) => b.confidence - a.confidence);
+  for (const detection of byConfidence) {
+    if (claimed.has(detection.mapTo)) {
+      detection.mapTo = 'ignore';
+      detection.confidence = 0;
+      detection.source = 'none';
+    } else {
+      claimed.add(detection.mapTo);
     }
   }
 
-  // Catalog number patterns
-  // Note: "cat" must be exact match to avoid false positives (e.g., "category")
-  if (
-    lower === 'cat' ||
-    lower.includes('catalog') ||
-    lower.includes('sku') ||
-    lower.includes('product_id') ||
-    lower.includes('productid') ||
-    lower.includes('item_number') ||
-    lower.includes('part_number')
-  ) {
-    return 'catalogNumber';
-  }
-
-  // CAS number patterns
-  if (lower.includes('cas') || lower === 'cas_number' || lower === 'casnumber') {
-    return 'cas';
-  }
-
-  // InChI Key patterns
-  if (lower.includes('inchi') || lower.includes('inchikey')) {
-    return 'inchiKey';
-  }
-
-  // Product name patterns
-  if (
-    lower === 'name' ||
-    lower === 'product_name' ||
-    lower === 'productname' ||
-    lower === 'chemical_name' ||
-    lower === 'chemicalname' ||
-    lower === 'compound_name' ||
-    lower === 'compoundname' ||
-    lower === 'title' ||
-    lower === 'product'
-  ) {
-    return 'productName';
-  }
-
-  if (
-    lower === 'target' ||
-    lower === 'target_name' ||
-    lower === 'biological_target' ||
-    lower === 'e3l'
-  ) {
-    return 'targetName';
-  }
-
-  if (lower === 'pathway' || lower === 'signaling_pathway') {
-    return 'pathway';
-  }
-
-  if (
-    lower === 'application' ||
-    lower === 'applications' ||
-    lower === 'intended_use' ||
-    lower === 'use_case' ||
-    lower === 'research_area'
-  ) {
-    return 'application';
-  }
-
-  if (lower === 'short_description' || lower === 'description' || lower === 'summary') {
-    return 'description';
-  }
-
-  if (lower === 'type_of_molecule' || lower === 'molecule_type') {
-    return 'moleculeType';
-  }
-
-  if (lower === 'alias' || lower === 'aliases' || lower === 'synonyms') {
-    return 'alias';
-  }
-
-  if (lower === 'mechanism_of_action' || lower === 'mechanism' || lower === 'moa') {
-    return 'mechanismOfAction';
-  }
-
-  // Price patterns (BEFORE package size — "unit_price_per_package_size" contains "package", "size", and "unit")
-  if (lower.includes('price') || lower.includes('cost') || lower.includes('usd')) {
-    return 'unitPrice';
-  }
-
-  // Package size patterns (after price to avoid "unit_price" matching "unit" or "package")
-  if (
-    lower.includes('package') ||
-    lower.includes('size') ||
-    lower.includes('quantity') ||
-    lower.includes('amount') ||
-    (lower.includes('unit') && !lower.includes('price'))
-  ) {
-    return 'packageSize';
-  }
-
-  // SDS Available patterns
-  if (lower.includes('sds') && (lower.includes('avail') || lower === 'sds')) {
-    return 'sdsAvailable';
-  }
-
-  // COA Available patterns
-  if (lower.includes('coa') && (lower.includes('avail') || lower === 'coa')) {
-    return 'coaAvailable';
-  }
-
-  // Inventory patterns
-  // Exclude SDS/COA columns that contain "available" (e.g. "sds_available_sds_", "coa_available_coa_")
-  const isDocAvailabilityColumn =
-    lower.includes('sds') || lower.includes('coa') || lower.includes('certificate');
-  if (
-    !isDocAvailabilityColumn &&
-    (lower.includes('inventory') ||
-      lower.includes('stock') ||
-      lower.includes('available') ||
-      lower.includes('qty'))
-  ) {
-    return 'inventoryAvailable';
-  }
-
-  // Lead time patterns
-  if (lower.includes('lead') || lower.includes('delivery') || lower.includes('ship')) {
-    return 'leadTime';
-  }
-
-  // Molecular formula patterns
-  // Be specific to avoid false positives like "formulation"
-  if (
-    lower === 'formula' ||
-    lower === 'mol_formula' ||
-    lower === 'molformula' ||
-    lower === 'molecular_formula' ||
-    lower === 'mf'
-  ) {
-    return 'molFormula';
-  }
-
-  // Molecular weight patterns
-  if (
-    lower.includes('weight') ||
-    lower === 'mw' ||
-    lower === 'mol_weight' ||
-    lower === 'molweight'
-  ) {
-    return 'molWeight';
-  }
-
-  // SMILES patterns
-  if (lower.includes('smiles') || lower === 'structure') {
-    return 'smiles';
-  }
-
-  // MDL Number patterns (identifier, not structure)
-  // Includes MFCD format (MDL Foundation Compound Database)
-  if (
-    lower === 'mdl_number_mdl' ||
-    lower === 'mdl_number' ||
-    lower === 'mdlnumber' ||
-    lower === 'mfcdnumber' ||
-    lower === 'mfcd_number' ||
-    lower === 'mfcd'
-  ) {
-    return 'mdlNumber';
-  }
-
-  // Molfile patterns (structure)
-  if (lower.includes('molfile') || lower.includes('mol_block') || lower === 'ctab') {
-    return 'molfile';
-  }
-
-  // Legacy MDL patterns - map to molfile for backward compatibility
-  // Only if it doesn't look like an MDL number
-  if (lower === 'mdl' && !lower.includes('number')) {
-    return 'molfile';
-  }
-
-  // Salt data patterns
-  if (lower.includes('salt')) {
-    return 'saltData';
-  }
-
-  // Chiral purity patterns (must be checked before generic purity)
-  if (lower.includes('chiral') && lower.includes('purity')) {
-    return 'chiralPurity';
-  }
-
-  // Purity patterns (including vendor-specific like "Quality", "Assay")
-  if (
-    lower.includes('purity') ||
-    lower === 'quality' ||
-    lower === 'assay' ||
-    lower === 'hplc' ||
-    lower === 'lcms'
-  ) {
-    return 'purity';
-  }
-
-  // Hazmat patterns
-  if (
-    lower.includes('hazmat') ||
-    lower.includes('hazard') ||
-    lower === 'dangerousgoods' ||
-    lower === 'dangerous_goods' ||
-    lower === 'dg'
-  ) {
-    return 'hazmat';
-  }
-
-  // NOTE: Warehouse patterns for BUILDING_BLOCK are now handled at the TOP of this function
-  // to ensure they are detected before generic inventory patterns (which would incorrectly
-  // match warehouse_stock_qty due to "stock" and "qty" substrings).
-
-  // Vendor name patterns
-  if (
-    lower === 'vendor_name' ||
-    lower === 'vendorname' ||
-    lower === 'vendor' ||
-    lower === 'supplier'
-  ) {
-    return 'vendorName';
-  }
-
-  // Re-test / Expiry patterns
-  if (
-    lower.includes('retest') ||
-    lower.includes('re_test') ||
-    lower.includes('re-test') ||
-    lower.includes('expiry') ||
-    lower.includes('expiration')
-  ) {
-    return 'retestOrExpiry';
-  }
-
-  // Custom synthesis patterns
-  if (
-    lower.includes('custom_synth') ||
-    lower.includes('customsynth') ||
-    lower === 'custom synthesis'
-  ) {
-    return 'customSynthesis';
-  }
-
-  // Notes patterns
-  if (lower === 'notes' || lower === 'note' || lower === 'comments' || lower === 'remark') {
-    return 'notes';
-  }
-
-  // MOQ patterns
-  if (lower === 'moq' || lower.includes('min_order') || lower.includes('minimum_order')) {
-    return 'moq';
-  }
-
-  // HS Code patterns
-  if (lower === 'hs_code' || lower === 'hscode' || lower.includes('harmonized')) {
-    return 'hsCode';
-  }
-
-  // Shelf life patterns
-  if (lower === 'shelf_life' || lower === 'shelflife') {
-    return 'shelfLife';
-  }
-
-  // Appearance patterns
-  if (lower === 'appearance') {
-    return 'appearance';
-  }
-
-  // Solubility patterns
-  if (lower === 'solubility') {
-    return 'solubility';
-  }
-
-  // Physical form patterns
-  if (lower === 'physical_form' || lower === 'physicalform' || lower === 'form') {
-    return 'physicalForm';
-  }
-
-  // Default to ignore for unrecognized columns
-  return 'ignore';
+  return detections;
 }
 
 /**
- * Initialize column mapping with auto-detected values based on column names.
+ * Initialize column mapping with auto-detected values based on column names
+ * and sample values, preferring corrections learned from earlier imports.
  */
 export function initializeColumnMapping(
   columns: HeaderPreviewColumn[],
   importKind: CatalogImportKind = 'BUILDING_BLOCK',
+  learned?: LearnedMappings,
 ): ColumnMapping {
-  // Compute context for conditional mapping logic
-  const hasWarehouseCodeColumn = columns.some((col) => {
-    const lower = col.fileColumn.toLowerCase().trim();
-
-    return lower === 'warehouse_code' || lower === 'warehousecode';
-  });
-
-  const ctx: AutoDetectContext = { hasWarehouseCodeColumn };
-
   return {
-    mappings: columns.map((col) => ({
-      fileColumn: col.fileColumn,
-      mapTo: autoDetectMapping(col.fileColumn, importKind, ctx),
+    mappings: detectColumnMappings(columns, importKind, learned).map(({ fileColumn, mapTo }) => ({
+      fileColumn,
+      mapTo,
     })),
   };
 }
 
+/**
+ * Kinds that allow a single column (see MAPPING_CARDINALITY) but are mapped
+ * from several, with the file columns mapped to each.
+ */
+export function findDuplicateTargets(mapping: ColumnMapping): Map<ColumnMappingKind, string[]> {
+  const columnsByKind = new Map<ColumnMappingKind, string[]>();
+  for (const { fileColumn, mapTo } of mapping.mappings) {
+    if (MAPPING_CARDINALITY[mapTo] !== 'single') continue;
+    columnsByKind.set(mapTo, [...(columnsByKind.get(mapTo) ?? []), fileColumn]);
+  }
+
+  return new Map([...columnsByKind].filter(([, fileColumns]) => fileColumns.length > 1));
+}
+
+export interface ValidateMappingOptions {
+  /** Validation rules (default: DEFAULT_MAPPING_RULES), see extendMappingRules */
+  rules?: MappingRule[];
+  /** File-wide values for fields missing from the file */
+  constantValues?: ConstantValues;
+  /** Columns of the file, to check that concatenated columns exist */
+  fileColumns?: string[];
+}
+
 /**
  * Validate column mapping based on import kind and screening mode.
  *
- * Validation rules:
- *
- * BUILDING_BLOCK:
- * - Requires at least one key identifier (catalogNumber, cas, inchiKey, or productName)
+ * Single-value kinds mapped from several columns are always errors; every
+ * other check comes from `rules` (DEFAULT_MAPPING_RULES unless the host
+ * customised them, see mappingRules.ts). A default Plate ID and non-empty
+ * constant values satisfy rules requiring a column of their kind. Broken
+ * column transforms, badly formatted constant values and constant values for
+ * kinds also mapped from a column are errors too.
  *
- * SCREENING_COMPOUND with COMPOUND_LIST mode (unplated):
- * - Requires Compound ID or Catalog Number
- * - Requires Structure (SMILES or MDL)
- * - Plate fields (Plate ID, Well, Row, Column) are NOT required
- *
- * SCREENING_COMPOUND with PLATED_KIT mode (pre-plated):
- * - Requires Compound ID or Catalog Number
- * - Requires Well OR (Row AND Column)
- * - Requires Plate ID OR defaultPlateId must be provided
- * - Structure is optional (warning only)
- * - Cannot map both Well AND Row/Column (mutual exclusivity)
+ * `options` may also be just the rules, as accepted before constant values.
  */
 export function validateMapping(
   mapping: ColumnMapping,
   importKind: CatalogImportKind,
   screeningMode?: ScreeningMode,
   defaultPlateId?: string,
+  options: ValidateMappingOptions | MappingRule[] = {},
 ): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
+  const {
+    rules = DEFAULT_MAPPING_RULES,
+    constantValues = {},
+    fileColumns,
+  }: ValidateMappingOptions = Array.isArray(options) ? { rules: options } : options;
   const mappedKinds = new Set(mapping.mappings.map((m) => m.mapTo));
+  const constants = (Object.entries(constantValues) as [ColumnMappingKind, string][]).filter(
+    ([, value]) => value.trim() !== '',
+  );
+  const providedKinds = new Set<ColumnMappingKind>([
+    ...(defaultPlateId && defaultPlateId.trim() !== '' ? ['plateId' as const] : []),
+    ...constants.map(([kind]) => kind),
+  ]);
+
+  // The backend keeps only one of several columns mapped to a single-value kind
+  const duplicateIssues = [...findDuplicateTargets(mapping)].map(
+    ([kind, fileColumns]): ValidationIssue => ({
+      ruleId: 'duplicateTarget',
+      severity: 'error',
+      messageKey: 'catalogImport.validation.duplicateTarget',
+      message: `"${MAPPING_LABELS[kind]}" is mapped from more than one column (${fileColumns.join(', ')}): map only one of them`,
+      params: { field: MAPPING_LABELS[kind], columns: fileColumns.join(', ') },
+    }),
+  );
 
-  if (importKind === 'SCREENING_COMPOUND') {
-    // Compound ID is always required for screening compounds (compoundId or catalogNumber)
-    if (!mappedKinds.has('compoundId') && !mappedKinds.has('catalogNumber')) {
-      errors.push('Compound ID is required: map a column to "Compound ID" or "Catalog Number"');
-    }
-
-    if (screeningMode === 'COMPOUND_LIST') {
-      // COMPOUND_LIST (unplated) mode:
-      // - Structure is required
-      // - Plate fields are NOT required
-
-      if (!mappedKinds.has('mdl') && !mappedKinds.has('molfile') && !mappedKinds.has('smiles')) {
-        errors.push(
-          'Structure is required for unplated compound lists: map a column to "Molfile (.mol)" or "SMILES"',
-        );
-      }
-
-      // Plate fields are optional - just show a warning if provided but incomplete
-      const hasPlateId = mappedKinds.has('plateId');
-      const hasWell = mappedKinds.has('well');
-      const hasRow = mappedKinds.has('row');
-      const hasColumn = mappedKinds.has('column');
-
-      // If any plate field is mapped, check for mutual exclusivity
-      if (hasWell && (hasRow || hasColumn)) {
-        errors.push(
-          'Conflicting well position mappings: use either "Well" OR "Row"+"Column", not both',
-        );
-      }
-
-      // Warnings for recommendations
-      if (!mappedKinds.has('libraryName')) {
-        warnings.push('Library Name is recommended for better organization of screening compounds');
-      }
-
-      if (!mappedKinds.has('inchiKey')) {
-        warnings.push('InChI Key is recommended for compound deduplication and search');
-      }
-
-      // Info about plate fields being optional
-      if (!hasPlateId && !hasWell && !hasRow && !hasColumn) {
-        // This is fine for unplated compound lists - no warning needed
-      }
-    } else if (screeningMode === 'PLATED_KIT') {
-      // PLATED_KIT (pre-plated) mode:
-      // - Plate ID is required (unless defaultPlateId is provided)
-      // - Well OR (Row AND Column) is required
-      // - Structure is optional (warning only)
-
-      // Plate ID validation
-      const hasPlateIdColumn = mappedKinds.has('plateId');
-      const hasDefaultPlateId = defaultPlateId && defaultPlateId.trim() !== '';
-
-      if (!hasPlateIdColumn && !hasDefaultPlateId) {
-        errors.push(
-          'Plate ID is required for pre-plated kits: map a column to "Plate ID" or provide a Default Plate ID',
-        );
-      }
-
-      // Well position validation
-      const hasWell = mappedKinds.has('well');
-      const hasRow = mappedKinds.has('row');
-      const hasColumn = mappedKinds.has('column');
-
-      if (!hasWell && !(hasRow && hasColumn)) {
-        errors.push(
-          'Well position is required for pre-plated kits: map a column to "Well" OR both "Row" AND "Column"',
-        );
-      }
-
-      // Mutual exclusivity: well vs row/column
-      if (hasWell && (hasRow || hasColumn)) {
-        errors.push(
-          'Conflicting well position mappings: use either "Well" OR "Row"+"Column", not both',
-        );
-      }
-
-      // Structure is optional for pre-plated kits - just warn
-      if (!mappedKinds.has('mdl') && !mappedKinds.has('molfile') && !mappedKinds.has('smiles')) {
-        warnings.push(
-          'Structure (SMILES or Molfile) is recommended but not required for pre-plated kits',
-        );
-      }
-
-      // Warnings for recommendations
-      if (!mappedKinds.has('libraryName')) {
-        warnings.push('Library Name is recommended for better organization of screening compounds');
-      }
-    } else {
-      // Default behavior when screeningMode is not specified (backwards compatibility)
-      // This maintains the original strict validation
-
-      // Plate ID is required
-      if (!mappedKinds.has('plateId')) {
-        errors.push('Plate ID is required: map a column to "Plate ID"');
-      }
-
-      // Well position: either well OR (row AND column)
-      const hasWell = mappedKinds.has('well');
-      const hasRow = mappedKinds.has('row');
-      const hasColumn = mappedKinds.has('column');
-
-      if (!hasWell && !(hasRow && hasColumn)) {
-        errors.push('Well position is required: map a column to "Well" OR both "Row" AND "Column"');
-      }
-
-      // Mutual exclusivity: well vs row/column
-      if (hasWell && (hasRow || hasColumn)) {
-        errors.push(
-          'Conflicting well position mappings: use either "Well" OR "Row"+"Column", not both',
-        );
-      }
-
-      // Structure is required (mdl, molfile, or smiles)
-      if (!mappedKinds.has('mdl') && !mappedKinds.has('molfile') && !mappedKinds.has('smiles')) {
-        errors.push('Structure is required: map a column to "Molfile (.mol)" or "SMILES"');
-      }
-
-      // Warnings (non-blocking)
-      if (!mappedKinds.has('libraryName')) {
-        warnings.push('Library Name is recommended for better organization of screening compounds');
-      }
-
-      if (!mappedKinds.has('inchiKey')) {
-        warnings.push('InChI Key is recommended for compound deduplication and search');
-      }
-    }
-  } else {
-    // BUILDING_BLOCK validation
-    // At least one key field is required
-    const keyFields: ColumnMappingKind[] = ['catalogNumber', 'cas', 'inchiKey', 'productName'];
-    const hasAnyKey = keyFields.some((k) => mappedKinds.has(k));
-
-    if (!hasAnyKey) {
-      errors.push(
-        'At least one key field is required: Catalog Number, CAS Number, InChI Key, or Product Name',
-      );
-    }
-
-    // Warehouse validation: if any warehouse field is mapped, warehouseCode is required
-    const warehouseFields: ColumnMappingKind[] = [
-      'warehouseCode',
-      'warehouseName',
-      'warehouseCountry',
-      'warehouseCity',
-      'warehouseLeadTimeDays',
-      'warehouseStockQty',
-      'warehousePrice',
-    ];
-    const hasAnyWarehouseField = warehouseFields.some((k) => mappedKinds.has(k));
-    const hasWarehouseCode = mappedKinds.has('warehouseCode');
-
-    if (hasAnyWarehouseField && !hasWarehouseCode) {
-      errors.push('Warehouse Code is required when mapping warehouse-specific fields');
-    }
+  const transformIssues = mapping.mappings.flatMap(({ fileColumn, mapTo, transforms }) =>
+    findTransformProblems(transforms ?? [], fileColumns).map((problem): ValidationIssue => ({
+      ruleId: 'invalidTransform',
+      severity: 'error',
+      messageKey: 'catalogImport.validation.invalidTransform',
+      message: `Transform of "${fileColumn}" into "${MAPPING_LABELS[mapTo]}": ${problem}`,
+      params: { column: fileColumn, field: MAPPING_LABELS[mapTo], problem },
+    })),
+  );
 
-    // Warning if both inventoryAvailable and warehouseStockQty are mapped
-    if (mappedKinds.has('inventoryAvailable') && mappedKinds.has('warehouseStockQty')) {
-      warnings.push(
-        'Warehouse Stock Qty is mapped. Recommend setting global Inventory Available to Ignore to avoid confusion.',
-      );
-    }
-  }
+  const constantIssues = constants
+    .filter(([kind, value]) => !checkValueFormat(kind, value))
+    .map(([kind, value]): ValidationIssue => ({
+      ruleId: 'invalidConstantValue',
+      severity: 'error',
+      messageKey: 'catalogImport.validation.invalidConstantValue',
+      message: `Constant value "${value}" is not a valid ${MAPPING_LABELS[kind]}`,
+      params: { field: MAPPING_LABELS[kind], value },
+    }));
+
+  // A field takes its value either from a column or from a constant, not both
+  const constantAndColumnIssues = constants
+    .filter(([kind]) => mappedKinds.has(kind))
+    .map(([kind]): ValidationIssue => {
+      const fileColumns = mapping.mappings
+        .filter((m) => m.mapTo === kind)
+        .map((m) => m.fileColumn)
+        .join(', ');
+
+      return {
+        ruleId: 'constantAndColumn',
+        severity: 'error',
+        messageKey: 'catalogImport.validation.constantAndColumn',
+        message: `"${MAPPING_LABELS[kind]}" has a constant value and is also mapped from a column (${fileColumns}): remove one of them`,
+        params: { field: MAPPING_LABELS[kind], columns: fileColumns },
+      };
+    });
+
+  const issues = [
+    ...duplicateIssues,
+    ...transformIssues,
+    ...constantIssues,
+    ...constantAndColumnIssues,
+    ...evaluateMappingRules(rules, mappedKinds, { importKind, screeningMode, providedKinds }),
+  ];
+  const errors = issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message);
 
   return {
     valid: errors.length === 0,
     errors,
-    warnings,
+    warnings: issues.filter((issue) => issue.severity === 'warning').map((issue) => issue.message),
+    issues,
   };
 }
 
@@ -807,20 +476,84 @@ function getInstructionText(importKind: CatalogImportKind, screeningMode?: Scree
 
 export function ColumnMappingStep({
   columns,
+  previewRows,
   mapping,
   onMappingChange,
   isLoading,
   onBack,
   onConfirm,
+  onValidate,
+  changedColumns,
+  learnedMappings,
+  onSaveTemplate,
   importKind,
   screeningMode,
   defaultPlateId,
+  validationRules,
+  constantValues,
+  onConstantValuesChange,
 }: ColumnMappingStepProps) {
-  const handleMappingChange = (fileColumn: string, newMapTo: ColumnMappingKind) => {
-    const newMappings = mapping.mappings.map((m) =>
-      m.fileColumn === fileColumn ? { ...m, mapTo: newMapTo } : m,
+  const [showDataPreview, setShowDataPreview] = useState(false);
+  // Index of the mapping entry whose transforms are being edited
+  const [editingEntry, setEditingEntry] = useState<number | null>(null);
+  const changes = useMemo(
+    () => new Map((changedColumns ?? []).map((change) => [change.fileColumn, change])),
+    [changedColumns],
+  );
+  const [showChangedOnly, setShowChangedOnly] = useState(changes.size > 0);
+  const visibleColumns =
+    showChangedOnly && changes.size > 0
+      ? columns.filter((col) => changes.has(col.fileColumn))
+      : columns;
+  // What auto-detection proposed; the badge disappears once the user picks another kind
+  const detections = useMemo(
+    () =>
+      new Map(
+        detectColumnMappings(columns, importKind, learnedMappings).map((d) => [d.fileColumn, d]),
+      ),
+    [columns, importKind, learnedMappings],
+  );
+  // Mapping inputs by file column, focused from the data preview headers
+  const mappingInputs = useRef(new Map<string, HTMLInputElement>());
+
+  const focusMappingInput = (fileColumn: string) => {
+    const input = mappingInputs.current.get(fileColumn);
+    if (!input) return;
+    input.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    input.focus({ preventScroll: true });
+  };
+
+  // Entry indices per file column; the first is the column's main mapping
+  const entryIndices = useMemo(() => {
+    const indices = new Map<string, number[]>();
+    mapping.mappings.forEach((m, index) =>
+      indices.set(m.fileColumn, [...(indices.get(m.fileColumn) ?? []), index]),
     );
-    onMappingChange({ mappings: newMappings });
+
+    return indices;
+  }, [mapping]);
+
+  const updateEntry = (index: number, changes: Partial<ColumnMappingEntry>) => {
+    onMappingChange({
+      mappings: mapping.mappings.map((m, i) => (i === index ? { ...m, ...changes } : m)),
+    });
+  };
+
+  const handleTransformsChange = (index: number, transforms: ColumnTransform[]) => {
+    updateEntry(index, { transforms: transforms.length > 0 ? transforms : undefined });
+    setEditingEntry(null);
+  };
+
+  // Another field fed by the same column, placed after the column's other entries
+  const handleAddField = (fileColumn: string) => {
+    const indices = entryIndices.get(fileColumn) ?? [];
+    const mappings = [...mapping.mappings];
+    mappings.splice(indices[indices.length - 1] + 1, 0, { fileColumn, mapTo: 'ignore' });
+    onMappingChange({ mappings });
+  };
+
+  const handleRemoveEntry = (index: number) => {
+    onMappingChange({ mappings: mapping.mappings.filter((_, i) => i !== index) });
   };
 
   const getMappingForColumn = (fileColumn: string): ColumnMappingKind => {
@@ -829,12 +562,162 @@ export function ColumnMappingStep({
     return entry?.mapTo || 'ignore';
   };
 
+  // Auto-detected mapping of a column, as long as the user has kept it
+  const getActiveDetection = (fileColumn: string): ColumnMappingDetection | undefined => {
+    const detection = detections.get(fileColumn);
+    if (!detection || detection.mapTo === 'ignore') return undefined;
+
+    return detection.mapTo === getMappingForColumn(fileColumn) ? detection : undefined;
+  };
+
   // Validate mapping with screening mode
-  const validation = validateMapping(mapping, importKind, screeningMode, defaultPlateId);
+  const validation = validateMapping(mapping, importKind, screeningMode, defaultPlateId, {
+    rules: validationRules,
+    constantValues,
+    fileColumns: columns.map((c) => c.fileColumn),
+  });
+  const duplicates = useMemo(() => findDuplicateTargets(mapping), [mapping]);
+
+  // Single-value kinds taken by other entries, marked in each row's options
+  const getKindsUsedElsewhere = (index: number) => {
+    const used = new Map<ColumnMappingKind, string>();
+    mapping.mappings.forEach((m, i) => {
+      if (i !== index && MAPPING_CARDINALITY[m.mapTo] === 'single') {
+        used.set(m.mapTo, m.fileColumn);
+      }
+    });
+
+    return used;
+  };
+
+  const isTransformed = (fileColumn: string) => {
+    const index = entryIndices.get(fileColumn)?.[0];
+
+    return index !== undefined && hasTransforms(mapping.mappings[index]);
+  };
+
+  const renderEntryRow = (col: HeaderPreviewColumn, index: number, isExtraField: boolean) => {
+    const entry: ColumnMappingEntry | undefined = mapping.mappings[index];
+    const mapTo = entry?.mapTo ?? 'ignore';
+    const targets = duplicates.get(mapTo);
+    const conflictingColumns = targets?.filter((_, i) => i !== targets.indexOf(col.fileColumn));
+    const transforms = entry?.transforms ?? [];
+    const preview =
+      entry && transforms.length > 0
+        ? previewTransformedSamples(entry, columns, previewRows)
+        : null;
+    const samples = preview ? preview.map((sample) => sample.result) : col.samples;
+
+    return (
+      <TableRow
+        key={`${col.fileColumn}:${index}`}
+        sx={
+          conflictingColumns
+            ? { bgcolor: (theme) => alpha(theme.palette.error.main, 0.06) }
+            : undefined
+        }
+      >
+        <TableCell>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography
+              variant="body2"
+              fontWeight="medium"
+              color={isExtraField ? 'text.secondary' : undefined}
+              sx={{
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+              title={col.fileColumn}
+            >
+              {isExtraField ? `↳ ${col.fileColumn}` : col.fileColumn}
+            </Typography>
+            {conflictingColumns && (
+              <Tooltip title={`Also mapped from: ${conflictingColumns.join(', ')}`}>
+                <Chip label="Duplicate" color="error" size="small" sx={{ flexShrink: 0 }} />
+              </Tooltip>
+            )}
+            {transforms.length > 0 && (
+              <Tooltip title={transforms.map(describeColumnTransform).join(' → ')}>
+                <Chip label="Transformed" size="small" variant="outlined" sx={{ flexShrink: 0 }} />
+              </Tooltip>
+            )}
+            {!isExtraField && (
+              <>
+                <ChangeBadge change={changes.get(col.fileColumn)} />
+                <ConfidenceBadge detection={getActiveDetection(col.fileColumn)} />
+              </>
+            )}
+          </Box>
+        </TableCell>
+        <TableCell>
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+            title={
+              preview
+                ? `In the file: ${preview.map((sample) => sample.value).join(', ')}`
+                : col.samples.join(', ')
+            }
+          >
+            {samples.slice(0, 3).join(', ')}
+            {samples.length > 3 && '...'}
+          </Typography>
+        </TableCell>
+        <TableCell>
+          <ColumnMappingAutocomplete
+            value={mapTo}
+            onChange={(newMapTo) => updateEntry(index, { mapTo: newMapTo })}
+            optionGroups={optionGroups}
+            disabled={isLoading}
+            error={!!conflictingColumns}
+            usedKinds={getKindsUsedElsewhere(index)}
+            inputRef={
+              isExtraField
+                ? undefined
+                : (input) => {
+                    if (input) mappingInputs.current.set(col.fileColumn, input);
+                    else mappingInputs.current.delete(col.fileColumn);
+                  }
+            }
+          />
+          {entry && (
+            <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+              <Button size="small" onClick={() => setEditingEntry(index)} disabled={isLoading}>
+                {transforms.length > 0 ? `Edit Transform (${transforms.length})` : 'Transform'}
+              </Button>
+              {isExtraField ? (
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => handleRemoveEntry(index)}
+                  disabled={isLoading}
+                >
+                  Remove
+                </Button>
+              ) : (
+                <Button
+                  size="small"
+                  onClick={() => handleAddField(col.fileColumn)}
+                  disabled={isLoading}
+                >
+                  Add Field
+                </Button>
+              )}
+            </Box>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
 
   // Get grouped options based on import kind
-  const optionGroups =
-    importKind === 'SCREENING_COMPOUND' ? SCREENING_COMPOUND_OPTIONS : BUILDING_BLOCK_OPTIONS;
+  const optionGroups = getOptionGroups(importKind);
 
   return (
     <Box>
@@ -877,7 +760,7 @@ export function ColumnMappingStep({
       {validation.errors.length > 0 && (
         <Alert severity="error" sx={{ mb: 2 }}>
           <Typography variant="subtitle2" sx={{ fontWeight: 'bold', mb: 1 }}>
-            Required fields missing:
+            Mapping problems:
           </Typography>
           <ul style={{ margin: 0, paddingLeft: 20 }}>
             {validation.errors.map((error, i) => (
@@ -901,6 +784,39 @@ export function ColumnMappingStep({
         </Alert>
       )}
 
+      {previewRows && previewRows.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Button size="small" onClick={() => setShowDataPreview((show) => !show)}>
+            {showDataPreview
+              ? 'Hide Data Preview'
+              : `Show Data Preview (${previewRows.length} rows)`}
+          </Button>
+          <Collapse in={showDataPreview} unmountOnExit>
+            <Typography variant="body2" color="text.secondary" sx={{ my: 1 }}>
+              Click a column header to change its mapping. Highlighted cells do not match the format
+              of the mapped field.
+            </Typography>
+            <DataPreviewGrid
+              columns={columns}
+              rows={previewRows}
+              getMapping={getMappingForColumn}
+              onColumnClick={focusMappingInput}
+              skipFormatCheck={isTransformed}
+            />
+          </Collapse>
+        </Box>
+      )}
+
+      {changes.size > 0 && (
+        <Box sx={{ mb: 1 }}>
+          <Button size="small" onClick={() => setShowChangedOnly((show) => !show)}>
+            {showChangedOnly
+              ? `Show All Columns (${columns.length})`
+              : `Show Only Changed Columns (${changes.size})`}
+          </Button>
+        </Box>
+      )}
+
       <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
         <Table size="small" sx={{ tableLayout: 'fixed' }}>
           <colgroup>
@@ -916,51 +832,33 @@ export function ColumnMappingStep({
             </TableRow>
           </TableHead>
           <TableBody>
-            {columns.map((col) => (
-              <TableRow key={col.fileColumn}>
-                <TableCell>
-                  <Typography
-                    variant="body2"
-                    fontWeight="medium"
-                    sx={{
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap',
-                    }}
-                    title={col.fileColumn}
-                  >
-                    {col.fileColumn}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography
-                    variant="body2"
-                    color="text.secondary"
-                    sx={{
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap',
-                    }}
-                    title={col.samples.join(', ')}
-                  >
-                    {col.samples.slice(0, 3).join(', ')}
-                    {col.samples.length > 3 && '...'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <ColumnMappingAutocomplete
-                    value={getMappingForColumn(col.fileColumn)}
-                    onChange={(newMapTo) => handleMappingChange(col.fileColumn, newMapTo)}
-                    optionGroups={optionGroups}
-                    disabled={isLoading}
-                  />
-                </TableCell>
-              </TableRow>
-            ))}
+            {visibleColumns.flatMap((col) =>
+              (entryIndices.get(col.fileColumn) ?? [-1]).map((index, position) =>
+                renderEntryRow(col, index, position > 0),
+              ),
+            )}
           </TableBody>
         </Table>
       </TableContainer>
 
+      {onConstantValuesChange && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+            Constant Values
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Fields the file has no column for, with one value for every row (e.g. the vendor or
+            solvent).
+          </Typography>
+          <ConstantValuesEditor
+            values={constantValues ?? {}}
+            onChange={onConstantValuesChange}
+            optionGroups={optionGroups}
+            disabled={isLoading}
+          />
+        </Box>
+      )}
+
       <Box
         sx={{
           display: 'flex',
@@ -971,10 +869,37 @@ export function ColumnMappingStep({
         <Button variant="outlined" onClick={onBack} disabled={isLoading}>
           Back
         </Button>
-        <Button variant="contained" onClick={onConfirm} disabled={!validation.valid || isLoading}>
-          Start Import
-        </Button>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {onSaveTemplate && (
+            <Button variant="text" onClick={onSaveTemplate} disabled={isLoading}>
+              Save as Template
+            </Button>
+          )}
+          {onValidate && (
+            <Button
+              variant="outlined"
+              onClick={onValidate}
+              disabled={!validation.valid || isLoading}
+            >
+              Validate Only
+            </Button>
+          )}
+          <Button variant="contained" onClick={onConfirm} disabled={!validation.valid || isLoading}>
+            Start Import
+          </Button>
+        </Box>
       </Box>
+
+      <ColumnTransformDialog
+        open={editingEntry !== null}
+        onClose={() => setEditingEntry(null)}
+        entry={editingEntry === null ? null : (mapping.mappings[editingEntry] ?? null)}
+        columns={columns}
+        rows={previewRows}
+        onSave={(transforms) => {
+          if (editingEntry !== null) handleTransformsChange(editingEntry, transforms);
+        }}
+      />
     </Box>
   );
 }
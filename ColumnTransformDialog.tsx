@@ -0,0 +1,430 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Menu,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+  ColumnMappingEntry,
+  ColumnTransform,
+  ColumnTransformType,
+  HeaderPreviewColumn,
+  MAPPING_LABELS,
+} from './types';
+import {
+  COLUMN_TRANSFORM_LABELS,
+  createColumnTransform,
+  findTransformProblems,
+  previewTransformedSamples,
+  YES_NO_LOOKUP,
+} from './columnTransforms';
+import { checkValueFormat } from './valueFormats';
+
+export interface ColumnTransformDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Entry whose transforms are edited */
+  entry: ColumnMappingEntry | null;
+  /** File columns with samples, for the preview and for concatenation */
+  columns: HeaderPreviewColumn[];
+  /** Row-aligned preview rows (cells in `columns` order); the preview falls back to samples */
+  rows?: string[][];
+  onSave: (transforms: ColumnTransform[]) => void;
+}
+
+const TRANSFORM_TYPES = Object.keys(COLUMN_TRANSFORM_LABELS) as ColumnTransformType[];
+
+function formatLookupTable(table: Record<string, string>): string {
+  return Object.entries(table)
+    .map(([from, to]) => `${from} = ${to}`)
+    .join('\n');
+}
+
+function parseLookupTable(text: string): Record<string, string> {
+  const table: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator < 0) continue;
+    const from = line.slice(0, separator).trim();
+    if (from !== '') table[from] = line.slice(separator + 1).trim();
+  }
+
+  return table;
+}
+
+/** Value map as "from = to" lines, kept as typed so half-written lines survive */
+function LookupEditor({
+  transform,
+  onChange,
+}: {
+  transform: Extract<ColumnTransform, { type: 'lookup' }>;
+  onChange: (transform: ColumnTransform) => void;
+}) {
+  const [text, setText] = useState(() => formatLookupTable(transform.table));
+
+  const updateText = (value: string) => {
+    setText(value);
+    onChange({ ...transform, table: parseLookupTable(value) });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, flex: 1 }}>
+      <TextField
+        label="Values (one per line: from = to)"
+        value={text}
+        onChange={(e) => updateText(e.target.value)}
+        multiline
+        minRows={3}
+        size="small"
+      />
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <Button size="small" onClick={() => updateText(formatLookupTable(YES_NO_LOOKUP))}>
+          Yes/No → true/false
+        </Button>
+        <TextField
+          label="Other values become"
+          placeholder="(kept as is)"
+          value={transform.otherwise ?? ''}
+          onChange={(e) => onChange({ ...transform, otherwise: e.target.value || undefined })}
+          size="small"
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={!!transform.caseSensitive}
+              onChange={(e) => onChange({ ...transform, caseSensitive: e.target.checked })}
+            />
+          }
+          label="Case sensitive"
+        />
+      </Box>
+    </Box>
+  );
+}
+
+function TransformFields({
+  transform,
+  fileColumn,
+  columns,
+  onChange,
+}: {
+  transform: ColumnTransform;
+  fileColumn: string;
+  columns: HeaderPreviewColumn[];
+  onChange: (transform: ColumnTransform) => void;
+}) {
+  switch (transform.type) {
+    case 'split':
+      return (
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Delimiter"
+            value={transform.delimiter}
+            onChange={(e) => onChange({ ...transform, delimiter: e.target.value })}
+            size="small"
+          />
+          <TextField
+            label="Part (-1 = last)"
+            type="number"
+            value={transform.index < 0 ? transform.index : transform.index + 1}
+            onChange={(e) => {
+              const part = parseInt(e.target.value, 10);
+              if (Number.isNaN(part) || part === 0) return;
+              onChange({ ...transform, index: part > 0 ? part - 1 : part });
+            }}
+            size="small"
+            sx={{ width: 140 }}
+          />
+        </Box>
+      );
+    case 'regex':
+      return (
+        <Box sx={{ display: 'flex', gap: 2, flex: 1 }}>
+          <TextField
+            label="Pattern"
+            placeholder="e.g. \$\s*([\d.]+)"
+            value={transform.pattern}
+            onChange={(e) => onChange({ ...transform, pattern: e.target.value })}
+            size="small"
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="Group"
+            type="number"
+            value={transform.group ?? 1}
+            onChange={(e) => {
+              const group = parseInt(e.target.value, 10);
+              if (!Number.isNaN(group) && group >= 0) onChange({ ...transform, group });
+            }}
+            size="small"
+            sx={{ width: 90 }}
+          />
+          <TextField
+            label="Flags"
+            placeholder="i"
+            value={transform.flags ?? ''}
+            onChange={(e) => onChange({ ...transform, flags: e.target.value || undefined })}
+            size="small"
+            sx={{ width: 80 }}
+          />
+        </Box>
+      );
+    case 'concat':
+      return (
+        <Box sx={{ display: 'flex', gap: 2, flex: 1 }}>
+          <TextField
+            select
+            label="Append columns"
+            value={transform.columns}
+            onChange={(e) => {
+              const value = e.target.value as unknown as string[] | string;
+              onChange({
+                ...transform,
+                columns: typeof value === 'string' ? value.split(',') : value,
+              });
+            }}
+            slotProps={{ select: { multiple: true } }}
+            size="small"
+            sx={{ flex: 1 }}
+          >
+            {columns
+              .filter((col) => col.fileColumn !== fileColumn)
+              .map((col) => (
+                <MenuItem key={col.fileColumn} value={col.fileColumn}>
+                  {col.fileColumn}
+                </MenuItem>
+              ))}
+          </TextField>
+          <TextField
+            label="Separator"
+            value={transform.separator}
+            onChange={(e) => onChange({ ...transform, separator: e.target.value })}
+            size="small"
+            sx={{ width: 110 }}
+          />
+        </Box>
+      );
+    case 'case':
+      return (
+        <TextField
+          select
+          label="Case"
+          value={transform.to}
+          onChange={(e) => onChange({ ...transform, to: e.target.value as 'upper' | 'lower' })}
+          size="small"
+          sx={{ width: 160 }}
+        >
+          <MenuItem value="upper">UPPER CASE</MenuItem>
+          <MenuItem value="lower">lower case</MenuItem>
+        </TextField>
+      );
+    case 'lookup':
+      return <LookupEditor transform={transform} onChange={onChange} />;
+    case 'trim':
+      return null;
+  }
+}
+
+/**
+ * Editor for the transform pipeline of one mapping entry, with a live
+ * preview of the transformed sample values.
+ */
+export function ColumnTransformDialog({
+  open,
+  onClose,
+  entry,
+  columns,
+  rows,
+  onSave,
+}: ColumnTransformDialogProps) {
+  const [steps, setSteps] = useState<ColumnTransform[]>([]);
+  const [addMenuAnchor, setAddMenuAnchor] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (open) setSteps(entry?.transforms ?? []);
+  }, [open, entry]);
+
+  if (!entry) return null;
+
+  const preview = previewTransformedSamples({ ...entry, transforms: steps }, columns, rows);
+  const problems = findTransformProblems(
+    steps,
+    columns.map((col) => col.fileColumn),
+  );
+
+  const updateStep = (index: number, step: ColumnTransform) =>
+    setSteps((prev) => prev.map((s, i) => (i === index ? step : s)));
+
+  const moveStep = (index: number, offset: number) =>
+    setSteps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+
+      return next;
+    });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Transform "{entry.fileColumn}" → {MAPPING_LABELS[entry.mapTo]}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Steps run top to bottom on every value of the column before it is imported.
+        </Typography>
+
+        {steps.length === 0 && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            No steps: values are imported as they are in the file.
+          </Typography>
+        )}
+
+        {steps.map((step, index) => (
+          <Paper
+            // Steps have no identity of their own; the editor state follows the position
+            key={`${index}:${step.type}`}
+            variant="outlined"
+            sx={{ p: 1.5, mb: 1.5, display: 'flex', gap: 2, alignItems: 'flex-start' }}
+          >
+            <Typography variant="subtitle2" sx={{ width: 150, flexShrink: 0, pt: 1 }}>
+              {index + 1}. {COLUMN_TRANSFORM_LABELS[step.type]}
+            </Typography>
+            <Box sx={{ flex: 1, display: 'flex' }}>
+              <TransformFields
+                transform={step}
+                fileColumn={entry.fileColumn}
+                columns={columns}
+                onChange={(next) => updateStep(index, next)}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', flexShrink: 0 }}>
+              <IconButton
+                size="small"
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                aria-label="Move step up"
+              >
+                <ArrowUpwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => moveStep(index, 1)}
+                disabled={index === steps.length - 1}
+                aria-label="Move step down"
+              >
+                <ArrowDownwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                aria-label="Remove step"
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          </Paper>
+        ))}
+
+        <Button size="small" onClick={(e) => setAddMenuAnchor(e.currentTarget)}>
+          Add Step
+        </Button>
+        <Menu
+          anchorEl={addMenuAnchor}
+          open={!!addMenuAnchor}
+          onClose={() => setAddMenuAnchor(null)}
+        >
+          {TRANSFORM_TYPES.map((type) => (
+            <MenuItem
+              key={type}
+              onClick={() => {
+                setAddMenuAnchor(null);
+                setSteps((prev) => [...prev, createColumnTransform(type)]);
+              }}
+            >
+              {COLUMN_TRANSFORM_LABELS[type]}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        {problems.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {problems.map((problem) => (
+              <div key={problem}>{problem}</div>
+            ))}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+          Preview
+        </Typography>
+        {preview.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No sample values in this column.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>File Value</TableCell>
+                  <TableCell sx={{ fontWeight: 'bold' }}>{MAPPING_LABELS[entry.mapTo]}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.map(({ value, result }, row) => {
+                  const isValid = checkValueFormat(entry.mapTo, result);
+
+                  return (
+                    <TableRow key={row}>
+                      <TableCell sx={{ wordBreak: 'break-all' }}>{value}</TableCell>
+                      <TableCell
+                        title={isValid ? undefined : 'Does not match the format of the field'}
+                        sx={{
+                          wordBreak: 'break-all',
+                          bgcolor: isValid ? undefined : 'error.light',
+                          color: isValid ? undefined : 'error.contrastText',
+                        }}
+                      >
+                        {result}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => onSave(steps)}>
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default ColumnTransformDialog;
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Autocomplete, Box, IconButton, TextField, Typography } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { ColumnMappingKind, ConstantValues, MappingOptionGroup, MAPPING_LABELS } from './types';
+import { checkValueFormat } from './valueFormats';
+
+export interface ConstantValuesEditorProps {
+  values: ConstantValues;
+  onChange: (values: ConstantValues) => void;
+  /** Kinds offered for a constant value, usually the import kind's mapping options */
+  optionGroups: MappingOptionGroup[];
+  disabled?: boolean;
+}
+
+interface KindOption {
+  kind: ColumnMappingKind;
+  label: string;
+  group: string;
+}
+
+/**
+ * File-wide values for fields the file has no column for, e.g. one vendor or
+ * solvent for every row. Values get the same format checks as mapped columns.
+ */
+export function ConstantValuesEditor({
+  values,
+  onChange,
+  optionGroups,
+  disabled = false,
+}: ConstantValuesEditorProps) {
+  const [search, setSearch] = useState('');
+  const kinds = Object.keys(values) as ColumnMappingKind[];
+
+  // Kinds without a constant value yet
+  const options = useMemo(
+    () =>
+      optionGroups.flatMap((g) =>
+        g.options
+          .filter((kind) => kind !== 'ignore' && values[kind] === undefined)
+          .map((kind): KindOption => ({ kind, label: MAPPING_LABELS[kind], group: g.group })),
+      ),
+    [optionGroups, values],
+  );
+
+  const handleAdd = (kind: ColumnMappingKind) => {
+    onChange({ ...values, [kind]: '' });
+    setSearch('');
+  };
+
+  const handleRemove = (kind: ColumnMappingKind) => {
+    const rest = { ...values };
+    delete rest[kind];
+    onChange(rest);
+  };
+
+  return (
+    <Box>
+      {kinds.map((kind) => {
+        const value = values[kind] ?? '';
+        const invalid = !checkValueFormat(kind, value);
+
+        return (
+          <Box key={kind} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 1 }}>
+            <Typography variant="body2" sx={{ width: '30%', pt: 1, fontWeight: 500 }}>
+              {MAPPING_LABELS[kind]}
+            </Typography>
+            <TextField
+              size="small"
+              value={value}
+              onChange={(e) => onChange({ ...values, [kind]: e.target.value })}
+              disabled={disabled}
+              error={invalid}
+              helperText={
+                invalid ? `Does not look like a valid ${MAPPING_LABELS[kind]}` : undefined
+              }
+              placeholder="Value for every row"
+              sx={{ flex: 1 }}
+            />
+            <IconButton
+              size="small"
+              aria-label={`Remove ${MAPPING_LABELS[kind]}`}
+              onClick={() => handleRemove(kind)}
+              disabled={disabled}
+              sx={{ mt: 0.5 }}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        );
+      })}
+      <Autocomplete
+        size="small"
+        options={options}
+        groupBy={(option) => option.group}
+        getOptionLabel={(option) => option.label}
+        value={null}
+        inputValue={search}
+        onInputChange={(_, text, reason) => {
+          if (reason !== 'reset') setSearch(text);
+        }}
+        onChange={(_, option) => {
+          if (option) handleAdd(option.kind);
+        }}
+        disabled={disabled}
+        blurOnSelect
+        renderInput={(params) => <TextField {...params} placeholder="Add a constant value…" />}
+        sx={{ maxWidth: 360 }}
+      />
+    </Box>
+  );
+}
+
+export default ConstantValuesEditor;
@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { ColumnMappingKind, HeaderPreviewColumn, MAPPING_LABELS } from './types';
+import { checkValueFormat } from './valueFormats';
+
+export interface DataPreviewGridProps {
+  columns: HeaderPreviewColumn[];
+  /** Data rows, cells in `columns` order */
+  rows: string[][];
+  getMapping: (fileColumn: string) => ColumnMappingKind;
+  /** Called when a column header is clicked, e.g. to focus its mapping input */
+  onColumnClick?: (fileColumn: string) => void;
+  /** Columns whose raw values are not format-checked, e.g. because a transform changes them */
+  skipFormatCheck?: (fileColumn: string) => boolean;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 360;
+const COLUMN_WIDTH = 180;
+const ROW_NUMBER_WIDTH = 56;
+/** Rows rendered above and below the visible window */
+const OVERSCAN = 6;
+
+/**
+ * Scrollable grid of the file's first rows. Only the visible rows are
+ * rendered, so a few hundred rows of wide files stay cheap. Cells that do not
+ * match the format of their column's mapped kind are highlighted.
+ */
+export function DataPreviewGrid({
+  columns,
+  rows,
+  getMapping,
+  onColumnClick,
+  skipFormatCheck,
+}: DataPreviewGridProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const mappedKinds = columns.map((col) => getMapping(col.fileColumn));
+  const checkedKinds = columns.map((col, colIndex) =>
+    skipFormatCheck?.(col.fileColumn) ? 'ignore' : mappedKinds[colIndex],
+  );
+  const gridTemplateColumns = `${ROW_NUMBER_WIDTH}px repeat(${columns.length}, ${COLUMN_WIDTH}px)`;
+  const totalWidth = ROW_NUMBER_WIDTH + columns.length * COLUMN_WIDTH;
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN,
+  );
+
+  // Invalid cell count per column, shown in the header
+  const invalidCounts = useMemo(
+    () =>
+      checkedKinds.map(
+        (kind, colIndex) =>
+          rows.filter((row) => !checkValueFormat(kind, row[colIndex] ?? '')).length,
+      ),
+    // checkedKinds is rebuilt every render; its joined value is what matters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [rows, checkedKinds.join('|')],
+  );
+
+  return (
+    <Box
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      sx={{
+        height: VIEWPORT_HEIGHT + HEADER_HEIGHT,
+        overflow: 'auto',
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 1,
+      }}
+    >
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns,
+          width: totalWidth,
+          height: HEADER_HEIGHT,
+          position: 'sticky',
+          top: 0,
+          zIndex: 1,
+          bgcolor: 'background.paper',
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+        }}
+      >
+        <Box />
+        {columns.map((col, colIndex) => {
+          const kind = mappedKinds[colIndex];
+
+          return (
+            <Box
+              key={col.fileColumn}
+              onClick={() => onColumnClick?.(col.fileColumn)}
+              sx={{
+                px: 1,
+                py: 0.5,
+                cursor: onColumnClick ? 'pointer' : undefined,
+                overflow: 'hidden',
+                '&:hover': onColumnClick ? { bgcolor: 'action.hover' } : undefined,
+              }}
+            >
+              <Typography variant="body2" fontWeight="bold" noWrap title={col.fileColumn}>
+                {col.fileColumn}
+              </Typography>
+              <Typography
+                variant="caption"
+                noWrap
+                component="div"
+                color={kind === 'ignore' ? 'text.disabled' : 'primary.main'}
+              >
+                {MAPPING_LABELS[kind]}
+                {invalidCounts[colIndex] > 0 && (
+                  <Box component="span" sx={{ color: 'error.main' }}>
+                    {' '}
+                    ({invalidCounts[colIndex]} invalid)
+                  </Box>
+                )}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box sx={{ position: 'relative', width: totalWidth, height: rows.length * ROW_HEIGHT }}>
+        {rows.slice(first, last).map((row, offset) => {
+          const rowIndex = first + offset;
+
+          return (
+            <Box
+              key={rowIndex}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns,
+                position: 'absolute',
+                top: rowIndex * ROW_HEIGHT,
+                height: ROW_HEIGHT,
+                width: totalWidth,
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+              }}
+            >
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ px: 1, lineHeight: `${ROW_HEIGHT}px` }}
+              >
+                {rowIndex + 1}
+              </Typography>
+              {columns.map((col, colIndex) => {
+                const value = row[colIndex] ?? '';
+                const kind = mappedKinds[colIndex];
+                const isValid = checkValueFormat(checkedKinds[colIndex], value);
+                // Multi-line values (e.g. molblocks) show their first line
+                const firstLine = value.split(/\r?\n/, 1)[0];
+
+                const cell = (
+                  <Typography
+                    variant="body2"
+                    noWrap
+                    title={isValid ? value : undefined}
+                    sx={{
+                      px: 1,
+                      lineHeight: `${ROW_HEIGHT}px`,
+                      bgcolor: isValid ? undefined : 'error.light',
+                      color: isValid ? undefined : 'error.contrastText',
+                    }}
+                  >
+                    {firstLine}
+                  </Typography>
+                );
+
+                return isValid ? (
+                  <Box key={col.fileColumn} sx={{ overflow: 'hidden' }}>
+                    {cell}
+                  </Box>
+                ) : (
+                  <Tooltip
+                    key={col.fileColumn}
+                    title={`"${value}" does not look like a valid ${MAPPING_LABELS[kind]}`}
+                  >
+                    <Box sx={{ overflow: 'hidden' }}>{cell}</Box>
+                  </Tooltip>
+                );
+              })}
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
+
+export default DataPreviewGrid;
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Menu,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { MAPPING_LABELS } from './types';
+import {
+  downloadCorrections,
+  findStaleCorrections,
+  MappingCorrection,
+  MappingCorrectionExportFormat,
+  MappingCorrectionStore,
+} from './mappingCorrections';
+
+export interface MappingCorrectionsAdminProps {
+  store: MappingCorrectionStore;
+  organizationId: string;
+  /** Corrections unused for this many days are offered for pruning (default: 180) */
+  staleAfterDays?: number;
+}
+
+const rowKey = (correction: MappingCorrection) => `${correction.importKind}:${correction.header}`;
+
+/**
+ * Admin view of an organization's learned mapping corrections: inspect them,
+ * export them as CSV or JSON, and prune selected or stale ones.
+ */
+export function MappingCorrectionsAdmin({
+  store,
+  organizationId,
+  staleAfterDays = 180,
+}: MappingCorrectionsAdminProps) {
+  const { t } = useTranslation('products');
+  const [corrections, setCorrections] = useState<MappingCorrection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCorrections(await store.list(organizationId));
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load mapping corrections');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [store, organizationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return corrections;
+
+    return corrections.filter(
+      (correction) =>
+        correction.exampleHeader.toLowerCase().includes(query) ||
+        correction.header.includes(query) ||
+        MAPPING_LABELS[correction.mapTo].toLowerCase().includes(query),
+    );
+  }, [corrections, filter]);
+
+  const toggle = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+
+      return next;
+    });
+
+  const allVisibleSelected = visible.length > 0 && visible.every((c) => selected.has(rowKey(c)));
+
+  const handleDeleteSelected = async () => {
+    const keys = corrections
+      .filter((correction) => selected.has(rowKey(correction)))
+      .map(({ header, importKind }) => ({ header, importKind }));
+    if (keys.length === 0) return;
+
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await store.remove(organizationId, keys);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete mapping corrections');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleExport = (format: MappingCorrectionExportFormat) => {
+    setExportMenuAnchor(null);
+    downloadCorrections(corrections, format);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label={t('catalogImport.corrections.filter')}
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          sx={{ minWidth: 240 }}
+        />
+        <Box sx={{ flex: 1 }} />
+        <Button
+          onClick={() =>
+            setSelected(new Set(findStaleCorrections(corrections, staleAfterDays).map(rowKey)))
+          }
+          disabled={isLoading || corrections.length === 0}
+        >
+          {t('catalogImport.corrections.selectStale', { days: staleAfterDays })}
+        </Button>
+        <Button
+          color="error"
+          onClick={handleDeleteSelected}
+          disabled={selected.size === 0 || isDeleting}
+          startIcon={isDeleting ? <CircularProgress size={16} /> : null}
+        >
+          {t('catalogImport.corrections.deleteSelected', { count: selected.size })}
+        </Button>
+        <Button
+          variant="outlined"
+          onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+          disabled={corrections.length === 0}
+        >
+          {t('catalogImport.corrections.export')}
+        </Button>
+        <Menu
+          anchorEl={exportMenuAnchor}
+          open={!!exportMenuAnchor}
+          onClose={() => setExportMenuAnchor(null)}
+        >
+          <MenuItem onClick={() => handleExport('csv')}>{t('catalogImport.report.csv')}</MenuItem>
+          <MenuItem onClick={() => handleExport('json')}>{t('catalogImport.report.json')}</MenuItem>
+        </Menu>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 2 }}>
+          <CircularProgress size={20} />
+          <Typography>{t('catalogImport.corrections.loading')}</Typography>
+        </Box>
+      ) : corrections.length === 0 ? (
+        <Typography color="text.secondary">{t('catalogImport.corrections.empty')}</Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allVisibleSelected}
+                    indeterminate={
+                      !allVisibleSelected && visible.some((c) => selected.has(rowKey(c)))
+                    }
+                    onChange={() =>
+                      setSelected((prev) => {
+                        const next = new Set(prev);
+                        visible.forEach((c) =>
+                          allVisibleSelected ? next.delete(rowKey(c)) : next.add(rowKey(c)),
+                        );
+
+                        return next;
+                      })
+                    }
+                  />
+                </TableCell>
+                <TableCell>{t('catalogImport.corrections.header')}</TableCell>
+                <TableCell>{t('catalogImport.corrections.importKind')}</TableCell>
+                <TableCell>{t('catalogImport.corrections.mapTo')}</TableCell>
+                <TableCell align="right">{t('catalogImport.corrections.count')}</TableCell>
+                <TableCell>{t('catalogImport.corrections.lastUsed')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visible.map((correction) => {
+                const key = rowKey(correction);
+
+                return (
+                  <TableRow key={key} hover onClick={() => toggle(key)} sx={{ cursor: 'pointer' }}>
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={selected.has(key)} />
+                    </TableCell>
+                    <TableCell title={correction.header}>{correction.exampleHeader}</TableCell>
+                    <TableCell>{correction.importKind}</TableCell>
+                    <TableCell>{MAPPING_LABELS[correction.mapTo]}</TableCell>
+                    <TableCell align="right">{correction.count}</TableCell>
+                    <TableCell>{new Date(correction.updatedAt).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
+
+export default MappingCorrectionsAdmin;
@@ -0,0 +1,55 @@
+import { useTranslation } from 'react-i18next';
+import { Box, FormControl, InputLabel, ListItemText, MenuItem, Select } from '@mui/material';
+import { CatalogImportMappingTemplate } from './mappingTemplates';
+
+export interface MappingTemplatePickerProps {
+  templates: CatalogImportMappingTemplate[];
+  /** Template currently applied, if any */
+  appliedTemplateId: string | null;
+  onApply: (template: CatalogImportMappingTemplate | null) => void;
+  isLoading: boolean;
+}
+
+/**
+ * "Apply template" picker for the configure step. Applying a template fills
+ * in its import configuration; its mapping is applied once headers are read.
+ */
+export function MappingTemplatePicker({
+  templates,
+  appliedTemplateId,
+  onApply,
+  isLoading,
+}: MappingTemplatePickerProps) {
+  const { t } = useTranslation('products');
+
+  if (!isLoading && templates.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <FormControl size="small" sx={{ minWidth: 320 }} disabled={isLoading}>
+        <InputLabel id="mapping-template-label">
+          {t('catalogImport.templates.applyTemplate')}
+        </InputLabel>
+        <Select
+          labelId="mapping-template-label"
+          value={appliedTemplateId ?? ''}
+          label={t('catalogImport.templates.applyTemplate')}
+          onChange={(e) =>
+            onApply(templates.find((template) => template.id === e.target.value) ?? null)
+          }
+        >
+          <MenuItem value="">
+            <em>{t('catalogImport.templates.noTemplate')}</em>
+          </MenuItem>
+          {templates.map((template) => (
+            <MenuItem key={template.id} value={template.id}>
+              <ListItemText primary={template.name} secondary={template.vendorName} />
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+  );
+}
+
+export default MappingTemplatePicker;
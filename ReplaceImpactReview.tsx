@@ -0,0 +1,126 @@
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, Chip, CircularProgress, TextField, Typography } from '@mui/material';
+import { ReplaceImpactPreview } from './types';
+
+export interface ReplaceImpactReviewProps {
+  /** Backend preview; null while loading or when it is unavailable */
+  preview: ReplaceImpactPreview | null;
+  isLoading: boolean;
+  organizationName: string;
+  confirmText: string;
+  onConfirmTextChange: (value: string) => void;
+}
+
+/** The typed text has to match the organization name exactly (ignoring outer spaces). */
+export function isReplaceConfirmed(confirmText: string, organizationName: string): boolean {
+  return confirmText.trim() !== '' && confirmText.trim() === organizationName.trim();
+}
+
+/**
+ * Review step shown before a replace-mode import: what will be deleted and a
+ * typed confirmation of the organization name.
+ */
+export function ReplaceImpactReview({
+  preview,
+  isLoading,
+  organizationName,
+  confirmText,
+  onConfirmTextChange,
+}: ReplaceImpactReviewProps) {
+  const { t } = useTranslation('products');
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 3 }}>
+        {t('catalogImport.replaceReview.warning')}
+      </Alert>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+          <CircularProgress size={20} />
+          <Typography>{t('catalogImport.replaceReview.loading')}</Typography>
+        </Box>
+      ) : preview ? (
+        <Box
+          sx={{
+            mb: 3,
+            p: 3,
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 2,
+          }}
+        >
+          <Typography variant="subtitle1" gutterBottom>
+            {t('catalogImport.replaceReview.willBeRemoved')}
+          </Typography>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
+              gap: 2,
+            }}
+          >
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                {t('catalogImport.replaceReview.products')}
+              </Typography>
+              <Typography variant="h6" color="error.main">
+                {preview.products.toLocaleString()}
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                {t('catalogImport.replaceReview.packages')}
+              </Typography>
+              <Typography variant="h6" color="error.main">
+                {preview.packages.toLocaleString()}
+              </Typography>
+            </Box>
+            {preview.libraryEntries > 0 && (
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('catalogImport.replaceReview.libraryEntries')}
+                </Typography>
+                <Typography variant="h6" color="error.main">
+                  {preview.libraryEntries.toLocaleString()}
+                </Typography>
+              </Box>
+            )}
+          </Box>
+
+          {preview.sampleSkus.length > 0 && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {t('catalogImport.replaceReview.sampleSkus')}
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                {preview.sampleSkus.map((sku) => (
+                  <Chip key={sku} label={sku} size="small" variant="outlined" />
+                ))}
+              </Box>
+            </Box>
+          )}
+        </Box>
+      ) : (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          {t('catalogImport.replaceReview.previewUnavailable')}
+        </Alert>
+      )}
+
+      <Typography variant="body2" gutterBottom>
+        {t('catalogImport.replaceReview.typeToConfirm', { organizationName })}
+      </Typography>
+      <TextField
+        fullWidth
+        size="small"
+        value={confirmText}
+        onChange={(e) => onConfirmTextChange(e.target.value)}
+        placeholder={organizationName}
+        autoComplete="off"
+        error={confirmText !== '' && !isReplaceConfirmed(confirmText, organizationName)}
+      />
+    </Box>
+  );
+}
+
+export default ReplaceImpactReview;
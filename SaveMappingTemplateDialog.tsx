@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { CatalogImportMappingTemplate } from './mappingTemplates';
+
+export interface SaveMappingTemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Existing templates; saving under one of their names overwrites it */
+  templates: CatalogImportMappingTemplate[];
+  /** Prefills the fields, e.g. with the template applied in the configure step */
+  initialTemplate?: CatalogImportMappingTemplate | null;
+  onSave: (values: { id?: string; name: string; vendorName?: string }) => Promise<void>;
+}
+
+/** Name and vendor prompt for saving the current mapping as a template. */
+export function SaveMappingTemplateDialog({
+  open,
+  onClose,
+  templates,
+  initialTemplate,
+  onSave,
+}: SaveMappingTemplateDialogProps) {
+  const { t } = useTranslation('products');
+  const [name, setName] = useState('');
+  const [vendorName, setVendorName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(initialTemplate?.name ?? '');
+      setVendorName(initialTemplate?.vendorName ?? '');
+      setError(null);
+    }
+  }, [open, initialTemplate]);
+
+  const existing = templates.find(
+    (template) => template.name.trim().toLowerCase() === name.trim().toLowerCase(),
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        id: existing?.id,
+        name: name.trim(),
+        vendorName: vendorName.trim() || undefined,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save mapping template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isSaving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('catalogImport.templates.saveTitle')}</DialogTitle>
+      <DialogContent>
+        <TextField
+          label={t('catalogImport.templates.name')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+          autoFocus
+          margin="dense"
+          helperText={existing ? t('catalogImport.templates.overwriteHelperText') : ''}
+        />
+        <TextField
+          label={t('catalogImport.templates.vendorName')}
+          value={vendorName}
+          onChange={(e) => setVendorName(e.target.value)}
+          fullWidth
+          margin="dense"
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          {t('catalogImport.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!name.trim() || isSaving}
+          startIcon={isSaving ? <CircularProgress size={16} /> : null}
+        >
+          {existing ? t('catalogImport.templates.overwrite') : t('catalogImport.templates.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default SaveMappingTemplateDialog;
@@ -0,0 +1,132 @@
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+export interface SpreadsheetLayoutPickerProps {
+  sheets: string[];
+  sheetName: string | null;
+  onSheetChange: (sheetName: string) => void;
+  /** First rows of the selected sheet as-is; the header selector is hidden without them */
+  rawRows?: string[][];
+  headerRowIndex: number | null;
+  onHeaderRowChange: (headerRowIndex: number) => void;
+  isLoading: boolean;
+}
+
+const MAX_PREVIEW_ROWS = 15;
+const MAX_PREVIEW_COLUMNS = 8;
+
+/**
+ * Sheet picker and header-row selector for spreadsheet files, with the raw
+ * top rows of the sheet so the user can see title banners above the table.
+ */
+export function SpreadsheetLayoutPicker({
+  sheets,
+  sheetName,
+  onSheetChange,
+  rawRows,
+  headerRowIndex,
+  onHeaderRowChange,
+  isLoading,
+}: SpreadsheetLayoutPickerProps) {
+  const { t } = useTranslation('products');
+  const rows = rawRows?.slice(0, MAX_PREVIEW_ROWS) ?? [];
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      {sheets.length > 1 && (
+        <FormControl size="small" sx={{ minWidth: 240, mb: 2 }} disabled={isLoading}>
+          <InputLabel>{t('catalogImport.spreadsheet.sheet')}</InputLabel>
+          <Select
+            value={sheetName ?? ''}
+            label={t('catalogImport.spreadsheet.sheet')}
+            onChange={(e) => onSheetChange(e.target.value)}
+          >
+            {sheets.map((sheet) => (
+              <MenuItem key={sheet} value={sheet}>
+                {sheet}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <CircularProgress size={20} />
+          <Typography>{t('catalogImport.spreadsheet.loadingRows')}</Typography>
+        </Box>
+      ) : (
+        rows.length > 0 && (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {t('catalogImport.spreadsheet.chooseHeaderRow')}
+            </Typography>
+            <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 360 }}>
+              <Table size="small">
+                <TableBody>
+                  {rows.map((row, index) => {
+                    const isHeader = index === headerRowIndex;
+                    // Rows above the header are skipped by the import
+                    const isSkipped = headerRowIndex !== null && index < headerRowIndex;
+
+                    return (
+                      <TableRow
+                        key={index}
+                        hover
+                        selected={isHeader}
+                        onClick={() => onHeaderRowChange(index)}
+                        sx={{ cursor: 'pointer', opacity: isSkipped ? 0.5 : 1 }}
+                      >
+                        <TableCell padding="checkbox">
+                          <Radio size="small" checked={isHeader} />
+                        </TableCell>
+                        <TableCell sx={{ color: 'text.secondary', width: 48 }}>
+                          {index + 1}
+                        </TableCell>
+                        {row.slice(0, MAX_PREVIEW_COLUMNS).map((cell, cellIndex) => (
+                          <TableCell
+                            key={cellIndex}
+                            sx={{
+                              fontWeight: isHeader ? 'bold' : undefined,
+                              maxWidth: 160,
+                              overflow: 'hidden',
+                              textOverflow: 'ellipsis',
+                              whiteSpace: 'nowrap',
+                            }}
+                            title={cell}
+                          >
+                            {cell}
+                          </TableCell>
+                        ))}
+                        {row.length > MAX_PREVIEW_COLUMNS && (
+                          <TableCell sx={{ color: 'text.secondary' }}>...</TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )
+      )}
+    </Box>
+  );
+}
+
+export default SpreadsheetLayoutPicker;
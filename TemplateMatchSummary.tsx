@@ -0,0 +1,83 @@
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, Button, Chip, Typography } from '@mui/material';
+import { TemplateMatch } from './headerFingerprint';
+
+export interface TemplateMatchSummaryProps {
+  match: TemplateMatch;
+  /** Whether the template was found by fingerprint rather than picked by the user */
+  isAutomatic: boolean;
+  /** Drop the template's mapping and go back to auto-detection */
+  onDiscard: () => void;
+}
+
+/**
+ * Which template mapped the file, and which headers were added, removed or
+ * renamed since it was saved.
+ */
+export function TemplateMatchSummary({ match, isAutomatic, onDiscard }: TemplateMatchSummaryProps) {
+  const { t } = useTranslation('products');
+  const { template, similarity, diff } = match;
+  const hasChanges = diff.added.length + diff.removed.length + diff.renamed.length > 0;
+
+  return (
+    <Alert
+      severity={hasChanges ? 'warning' : 'success'}
+      sx={{ mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={onDiscard}>
+          {t('catalogImport.templates.discard')}
+        </Button>
+      }
+    >
+      <Typography variant="body2">
+        {t(
+          isAutomatic
+            ? 'catalogImport.templates.matchedAutomatically'
+            : 'catalogImport.templates.applied',
+          {
+            name: template.name,
+            percent: Math.round(similarity * 100),
+          },
+        )}
+      </Typography>
+
+      {hasChanges && (
+        <Box sx={{ mt: 1, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="body2">{t('catalogImport.templates.reviewChanges')}</Typography>
+          {diff.added.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, alignItems: 'center' }}>
+              <Typography variant="caption">{t('catalogImport.templates.added')}:</Typography>
+              {diff.added.map((header) => (
+                <Chip key={header} label={header} size="small" color="info" variant="outlined" />
+              ))}
+            </Box>
+          )}
+          {diff.renamed.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, alignItems: 'center' }}>
+              <Typography variant="caption">{t('catalogImport.templates.renamed')}:</Typography>
+              {diff.renamed.map(({ from, to }) => (
+                <Chip key={to} label={`${from} → ${to}`} size="small" variant="outlined" />
+              ))}
+            </Box>
+          )}
+          {diff.removed.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, alignItems: 'center' }}>
+              <Typography variant="caption">{t('catalogImport.templates.removed')}:</Typography>
+              {diff.removed.map((header) => (
+                <Chip
+                  key={header}
+                  label={header}
+                  size="small"
+                  variant="outlined"
+                  sx={{ textDecoration: 'line-through' }}
+                />
+              ))}
+            </Box>
+          )}
+        </Box>
+      )}
+    </Alert>
+  );
+}
+
+export default TemplateMatchSummary;
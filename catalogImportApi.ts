@@ -0,0 +1,399 @@
+/* eslint-disable no-console */
+/**
+ * Request helpers for the catalog import endpoints.
+ *
+ * These functions hold no React state so the same calls can be shared by
+ * useCatalogImport and the multi-job registry.
+ */
+import {
+  ActiveCatalogImportsResponse,
+  CatalogImportStatus,
+  HeaderPreviewOptions,
+  HeaderPreviewResponse,
+  ReplaceImpactPreview,
+  StartCatalogImportParams,
+} from './types';
+import { StatusStreamConnector } from './statusStream';
+import { CatalogImportPollingPolicy, CatalogImportRequestError } from './pollingPolicy';
+import { normalizeImportErrors } from './errorReport';
+
+/**
+ * API configuration for the catalog import hook.
+ * Allows different apps to provide their own API endpoints.
+ */
+export interface CatalogImportApiConfig {
+  /** POST endpoint to start an import */
+  startImportUrl: string;
+  /** GET endpoint to check import status (receives jobId as parameter) */
+  getStatusUrl: (jobId: string) => string;
+  /** GET endpoint to list active imports for an organization */
+  getActiveImportsUrl: (organizationId: string) => string;
+  /** POST endpoint to preview file headers */
+  previewHeadersUrl: string;
+  /**
+   * POST endpoint returning what a replace-mode import of the file would delete.
+   * Receives the same body as startImportUrl. Without it the replace review
+   * step only asks for confirmation.
+   */
+  replaceImpactPreviewUrl?: string;
+  /** DELETE endpoint to cancel an import job (receives jobId as parameter) */
+  cancelImportUrl?: (jobId: string) => string;
+  /**
+   * Push endpoint for status updates (receives jobId as parameter).
+   * http(s) URLs are consumed as Server-Sent Events, ws(s) URLs as a WebSocket.
+   * When the stream disconnects the hook falls back to polling getStatusUrl.
+   */
+  statusStreamUrl?: (jobId: string) => string;
+  /** Override how the status stream is opened (defaults to EventSource/WebSocket) */
+  statusStreamConnector?: StatusStreamConnector;
+  /** Overrides for the status polling policy (intervals, backoff, retries) */
+  pollingPolicy?: Partial<CatalogImportPollingPolicy>;
+  /**
+   * Look up the organization's running import on mount and resume tracking it,
+   * e.g. after a page reload (default: true).
+   */
+  reattachActiveImport?: boolean;
+  /**
+   * Turn CatalogImportStatus.errorsLocation into a downloadable URL, e.g. when
+   * the backend reports a storage key (default: used as-is).
+   */
+  resolveErrorsLocation?: (errorsLocation: string, jobId: string) => string;
+  /**
+   * Credentials sent when downloading the error report (default: 'include', like
+   * the other endpoints). Use 'omit' when errorsLocation resolves to a presigned URL.
+   */
+  errorReportCredentials?: RequestCredentials;
+  /**
+   * Whether to include organizationId in request bodies.
+   * Admin endpoints require it (default: true); supplier endpoints derive it from the session.
+   */
+  includeOrganizationId?: boolean;
+}
+
+/**
+ * Maps a flat API response (ImportStatusResponseDto) into the frontend
+ * CatalogImportStatus shape with a nested `progress` object.
+ */
+export function mapApiResponseToStatus(data: Record<string, unknown>): CatalogImportStatus {
+  const valid = (data.valid as number) ?? 0;
+  const invalid = (data.invalid as number) ?? 0;
+  const total = (data.total as number) ?? 0;
+
+  return {
+    jobId: (data.jobId as string) ?? '',
+    organizationId: (data.organizationId as string) ?? '',
+    state: (data.state as CatalogImportStatus['state']) ?? 'queued',
+    progressPct: (data.progressPct as number) ?? 0,
+    stage: data.stage as CatalogImportStatus['stage'],
+    message: data.message as string | undefined,
+    failureReason: data.failureReason as string | undefined,
+    errorsLocation: data.errorsLocation as string | undefined,
+    validateOnly: data.validateOnly === true || undefined,
+    progress: {
+      total,
+      processed: valid + invalid,
+      inserted: (data.upsertedProducts as number) ?? 0,
+      insertedCompounds: (data.insertedCompounds as number) ?? 0,
+      updated: (data.upsertedPackages as number) ?? 0,
+      errored: invalid,
+      enqueuedAt: (data.enqueuedAt as string) ?? '',
+      startedAt: data.startedAt as string | undefined,
+      finishedAt: data.finishedAt as string | undefined,
+      // Inline sample of row errors, when the backend includes one
+      errors: Array.isArray(data.errors) ? normalizeImportErrors(data.errors) : undefined,
+    },
+  };
+}
+
+/**
+ * Maps the active imports payload, which is either a bare array of
+ * ImportStatusResponseDto or `{ imports: [...] }`.
+ */
+export function mapActiveImportsResponse(data: unknown): ActiveCatalogImportsResponse {
+  const items = Array.isArray(data)
+    ? data
+    : ((data as { imports?: unknown[] } | null)?.imports ?? []);
+
+  return {
+    imports: items
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map(mapApiResponseToStatus),
+  };
+}
+
+export function isImportRunning(status: CatalogImportStatus): boolean {
+  return status.state === 'queued' || status.state === 'active';
+}
+
+/**
+ * Fetch and map the status of a job.
+ * Throws CatalogImportRequestError for non-2xx responses.
+ */
+export async function fetchImportStatus(
+  apiConfig: CatalogImportApiConfig,
+  jobId: string,
+): Promise<CatalogImportStatus> {
+  console.log('[IMPORT_DEBUG] getStatus called for jobId:', jobId);
+  console.log('[IMPORT_DEBUG] getStatus URL:', apiConfig.getStatusUrl(jobId));
+  const response = await fetch(apiConfig.getStatusUrl(jobId), {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+  });
+
+  console.log('[IMPORT_DEBUG] getStatus response status:', response.status);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: 'Failed to get import status',
+    }));
+    console.log('[IMPORT_DEBUG] getStatus error:', errorData);
+    throw new CatalogImportRequestError(
+      errorData.message || 'Failed to get import status',
+      response.status,
+    );
+  }
+
+  const data = await response.json();
+  console.log('[IMPORT_DEBUG] getStatus response data:', JSON.stringify(data, null, 2));
+
+  return mapApiResponseToStatus(data);
+}
+
+function buildStartImportBody(
+  apiConfig: CatalogImportApiConfig,
+  organizationId: string,
+  params: StartCatalogImportParams,
+): Record<string, unknown> {
+  const requestBody: Record<string, unknown> = {
+    fileId: params.fileId,
+    mode: params.mode,
+    importKind: params.importKind || 'BUILDING_BLOCK',
+  };
+
+  if (apiConfig.includeOrganizationId !== false) {
+    requestBody.organizationId = organizationId;
+  }
+
+  // Add column mapping if provided
+  if (params.columnMapping) {
+    requestBody.columnMapping = params.columnMapping;
+  }
+
+  // Add screening-specific fields if provided
+  if (params.screeningMode) {
+    requestBody.screeningMode = params.screeningMode;
+  }
+  if (params.libraryName) {
+    requestBody.libraryName = params.libraryName;
+  }
+  if (params.plateFormat) {
+    requestBody.plateFormat = params.plateFormat;
+  }
+  if (params.defaultPlateId) {
+    requestBody.defaultPlateId = params.defaultPlateId;
+  }
+  if (params.constantValues && Object.keys(params.constantValues).length > 0) {
+    requestBody.constantValues = params.constantValues;
+  }
+  if (params.validateOnly) {
+    requestBody.validateOnly = true;
+  }
+  if (params.sheetName) {
+    requestBody.sheetName = params.sheetName;
+  }
+  if (params.headerRowIndex !== undefined) {
+    requestBody.headerRowIndex = params.headerRowIndex;
+  }
+
+  return requestBody;
+}
+
+/**
+ * Start an import and return the new job ID.
+ */
+export async function requestStartImport(
+  apiConfig: CatalogImportApiConfig,
+  organizationId: string,
+  params: StartCatalogImportParams,
+): Promise<string> {
+  const requestBody = buildStartImportBody(apiConfig, organizationId, params);
+
+  console.log('[IMPORT_DEBUG] startImport called');
+  console.log('[IMPORT_DEBUG] startImport URL:', apiConfig.startImportUrl);
+  console.log('[IMPORT_DEBUG] startImport requestBody:', JSON.stringify(requestBody, null, 2));
+
+  const response = await fetch(apiConfig.startImportUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(requestBody),
+  });
+
+  console.log('[IMPORT_DEBUG] startImport response status:', response.status);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: 'Failed to start catalog import',
+    }));
+    console.log('[IMPORT_DEBUG] startImport error response:', errorData);
+    throw new Error(errorData.message || 'Failed to start catalog import');
+  }
+
+  const data = await response.json();
+  console.log('[IMPORT_DEBUG] startImport success response:', JSON.stringify(data, null, 2));
+  console.log('[IMPORT_DEBUG] jobId received:', data.jobId);
+
+  return data.jobId;
+}
+
+/**
+ * List the organization's active imports. Returns null when the request fails.
+ */
+export async function fetchActiveImports(
+  apiConfig: CatalogImportApiConfig,
+  organizationId: string,
+): Promise<ActiveCatalogImportsResponse | null> {
+  try {
+    const response = await fetch(apiConfig.getActiveImportsUrl(organizationId), {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+
+    return mapActiveImportsResponse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Preview the header row and sample values of an uploaded file.
+ */
+export async function requestHeaderPreview(
+  apiConfig: CatalogImportApiConfig,
+  organizationId: string,
+  fileId: string,
+  options: HeaderPreviewOptions = {},
+): Promise<HeaderPreviewResponse> {
+  console.log('[IMPORT_DEBUG] previewHeaders called for fileId:', fileId);
+  console.log('[IMPORT_DEBUG] previewHeaders URL:', apiConfig.previewHeadersUrl);
+  console.log('[IMPORT_DEBUG] previewHeaders organizationId:', organizationId);
+  const previewBody: Record<string, unknown> = { fileId };
+  if (options.sheetName) {
+    previewBody.sheetName = options.sheetName;
+  }
+  if (options.headerRowIndex !== undefined) {
+    previewBody.headerRowIndex = options.headerRowIndex;
+  }
+  if (apiConfig.includeOrganizationId !== false) {
+    previewBody.organizationId = organizationId;
+  }
+  const response = await fetch(apiConfig.previewHeadersUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(previewBody),
+  });
+  console.log('[IMPORT_DEBUG] previewHeaders response status:', response.status);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: 'Failed to preview headers',
+    }));
+    console.error(
+      '[IMPORT_DEBUG] previewHeaders error response body:',
+      JSON.stringify(errorData, null, 2),
+    );
+    throw new Error(errorData.message || 'Failed to preview headers');
+  }
+
+  return response.json();
+}
+
+/**
+ * Ask the backend what a replace-mode import with these parameters would delete.
+ */
+export async function requestReplaceImpactPreview(
+  apiConfig: CatalogImportApiConfig,
+  organizationId: string,
+  params: StartCatalogImportParams,
+): Promise<ReplaceImpactPreview> {
+  if (!apiConfig.replaceImpactPreviewUrl) {
+    throw new Error('Replace impact preview not supported');
+  }
+
+  const response = await fetch(apiConfig.replaceImpactPreviewUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(buildStartImportBody(apiConfig, organizationId, params)),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: 'Failed to preview replace impact',
+    }));
+    throw new Error(errorData.message || 'Failed to preview replace impact');
+  }
+
+  const data = await response.json();
+  console.log('[IMPORT_DEBUG] replaceImpactPreview response data:', data);
+
+  return {
+    products: (data.products as number) ?? 0,
+    packages: (data.packages as number) ?? 0,
+    libraryEntries: (data.libraryEntries as number) ?? 0,
+    sampleSkus: Array.isArray(data.sampleSkus) ? data.sampleSkus : [],
+  };
+}
+
+/**
+ * Cancel a job. Resolves to whether the backend actually cancelled it.
+ */
+export async function requestCancelImport(
+  apiConfig: CatalogImportApiConfig,
+  jobId: string,
+): Promise<boolean> {
+  if (!apiConfig.cancelImportUrl) {
+    console.error('[IMPORT_DEBUG] cancelImportUrl not configured');
+    throw new Error('Cancel import not supported');
+  }
+
+  console.log('[IMPORT_DEBUG] cancelImport called for jobId:', jobId);
+  const response = await fetch(apiConfig.cancelImportUrl(jobId), {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      message: 'Failed to cancel import',
+    }));
+    throw new Error(errorData.message || 'Failed to cancel import');
+  }
+
+  const data = await response.json();
+  console.log('[IMPORT_DEBUG] cancelImport result:', data);
+
+  return data.cancelled as boolean;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyColumnContent,
+  CONTENT_PROPOSAL_THRESHOLD,
+  contentScoreFor,
+  proposeKindFromContent,
+} from './columnClassifier';
+import { ColumnMappingKind } from './types';
+
+const MOLBLOCK = `Methane
+  RDKit          2D
+
+  1  0  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+M  END`;
+
+const ALL_KINDS = new Set<ColumnMappingKind>([
+  'cas',
+  'inchiKey',
+  'smiles',
+  'molfile',
+  'well',
+  'unitPrice',
+  'packageSize',
+  'hazmat',
+]);
+
+function propose(samples: string[]) {
+  return proposeKindFromContent(classifyColumnContent(samples), ALL_KINDS)?.kind ?? null;
+}
+
+describe('classifyColumnContent', () => {
+  it.each<[string, string[], ColumnMappingKind]>([
+    ['CAS numbers with a valid check digit', ['64-17-5', '7732-18-5', '50-00-0'], 'cas'],
+    ['InChIKeys', ['LFQSCWFLJHTTHZ-UHFFFAOYSA-N', 'XLYOFNOQVPJJNP-UHFFFAOYSA-N'], 'inchiKey'],
+    ['SMILES', ['CCO', 'c1ccccc1', 'CC(=O)Oc1ccccc1C(=O)O'], 'smiles'],
+    ['molblocks', [MOLBLOCK, MOLBLOCK], 'molfile'],
+    ['plate wells', ['A1', 'B02', 'H12', 'AF48'], 'well'],
+    ['prices with a currency', ['$12.50', '9,90 €', 'USD 100'], 'unitPrice'],
+    ['package sizes', ['5 g', '250mg', '2 x 10 mL'], 'packageSize'],
+  ])('proposes a kind for %s', (_, samples, kind) => {
+    expect(propose(samples)).toBe(kind);
+  });
+
+  it('scores a "Struct" column of short SMILES above the proposal threshold', () => {
+    const smiles = classifyColumnContent(['CCO', 'c1ccccc1', 'CC(=O)Oc1ccccc1C(=O)O']).find(
+      (match) => match.kind === 'smiles',
+    );
+
+    expect(smiles?.score).toBeGreaterThanOrEqual(CONTENT_PROPOSAL_THRESHOLD);
+  });
+
+  it('rejects CAS numbers with a wrong check digit', () => {
+    expect(propose(['64-17-6', '7732-18-4', '50-00-1'])).toBeNull();
+  });
+
+  it('does not take short codes for SMILES', () => {
+    expect(propose(['NO', 'CN', 'SO'])).toBeNull();
+  });
+
+  it('does not take bare numbers for prices', () => {
+    expect(propose(['12.50', '9.90', '100'])).toBeNull();
+  });
+
+  it('scores Y/N flags but never proposes a flag kind from content alone', () => {
+    const matches = classifyColumnContent(['Y', 'N', 'yes', '']);
+
+    expect(matches).toContainEqual({ kind: 'hazmat', score: 1 });
+    expect(proposeKindFromContent(matches, ALL_KINDS)).toBeNull();
+  });
+
+  it('only proposes allowed kinds', () => {
+    const matches = classifyColumnContent(['64-17-5', '50-00-0']);
+
+    expect(proposeKindFromContent(matches, new Set<ColumnMappingKind>(['smiles']))).toBeNull();
+  });
+
+  it('returns no matches without non-empty samples', () => {
+    expect(classifyColumnContent(['', '  '])).toEqual([]);
+  });
+});
+
+describe('contentScoreFor', () => {
+  it('scores samples with the lenient format check of the kind', () => {
+    expect(contentScoreFor(['Y', 'N', 'maybe', 'yes'], 'hazmat')).toBe(0.75);
+    expect(contentScoreFor([], 'cas')).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Content-based column classification: scores a column's sample values
+ * against the value formats of mapping kinds, so columns with unfamiliar
+ * headers ("Struct", "Registry No.") can still be mapped, and header-based
+ * guesses can be confirmed or overruled by what the column contains.
+ */
+
+import { ColumnMappingKind } from './types';
+import {
+  isCasNumber,
+  isInchiKey,
+  isMolblock,
+  isPackageSize,
+  isPrice,
+  isSmilesLike,
+  isWellCoordinate,
+  isYesNoFlag,
+  VALUE_FORMAT_CHECKS,
+} from './valueFormats';
+
+export interface ContentMatch {
+  kind: ColumnMappingKind;
+  /** Share of non-empty samples matching the kind's format (0-1) */
+  score: number;
+}
+
+/** Minimum share of matching samples for content alone to propose a kind */
+export const CONTENT_PROPOSAL_THRESHOLD = 0.8;
+
+const CURRENCY_MARKER = /[$€£¥]|USD|EUR|GBP|CHF|JPY|CNY/i;
+/** Structure characters rarely found in IDs or names */
+const SMILES_SYNTAX = /[()=#[\]@]|[cnos]\d/;
+/** Three or more organic-subset atoms and nothing else, e.g. "CCO" or "CCCl" */
+const SMILES_ATOM_CHAIN = /^(Cl|Br|[BCNOPSFI]){3,}$/;
+/** Rows A-AF and columns 1-48 cover every plate up to 1536 wells */
+const PLATE_WELL = /^(A[A-F]|[A-Z])\s*-?\s*0*([1-9]|[1-3]\d|4[0-8])$/i;
+
+/**
+ * Content patterns per kind. These are stricter than the format checks in
+ * valueFormats where a lenient check would also match unrelated columns,
+ * e.g. a price check that accepts bare numbers or SMILES checks that accept
+ * short upper-case codes.
+ */
+const CONTENT_PATTERNS: { kind: ColumnMappingKind; test: (value: string) => boolean }[] = [
+  { kind: 'cas', test: isCasNumber },
+  { kind: 'inchiKey', test: isInchiKey },
+  { kind: 'molfile', test: isMolblock },
+  {
+    kind: 'smiles',
+    test: (value) =>
+      isSmilesLike(value) &&
+      (SMILES_SYNTAX.test(value) || SMILES_ATOM_CHAIN.test(value) || value.length >= 6),
+  },
+  { kind: 'well', test: (value) => isWellCoordinate(value) && PLATE_WELL.test(value.trim()) },
+  { kind: 'unitPrice', test: (value) => isPrice(value) && CURRENCY_MARKER.test(value) },
+  { kind: 'packageSize', test: isPackageSize },
+];
+
+/** Y/N flag kinds; flags alone cannot tell which one, so they only confirm a header match */
+const FLAG_KINDS: ColumnMappingKind[] = [
+  'sdsAvailable',
+  'coaAvailable',
+  'customSynthesis',
+  'hazmat',
+];
+
+function nonEmptyValues(samples: string[]): string[] {
+  return samples.map((sample) => sample.trim()).filter((sample) => sample !== '');
+}
+
+/**
+ * Score `samples` against every content pattern. Returns matches with a
+ * score above zero, best first; empty when there are no non-empty samples.
+ */
+export function classifyColumnContent(samples: string[]): ContentMatch[] {
+  const values = nonEmptyValues(samples);
+  if (values.length === 0) return [];
+
+  const matches: ContentMatch[] = [];
+  for (const { kind, test } of CONTENT_PATTERNS) {
+    const score = values.filter((value) => test(value)).length / values.length;
+    if (score > 0) matches.push({ kind, score });
+  }
+
+  const flagScore = values.filter((value) => isYesNoFlag(value)).length / values.length;
+  if (flagScore > 0) {
+    for (const kind of FLAG_KINDS) matches.push({ kind, score: flagScore });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Best kind proposed by content alone, restricted to `allowedKinds`.
+ * Y/N flags never propose a kind on their own.
+ */
+export function proposeKindFromContent(
+  matches: ContentMatch[],
+  allowedKinds: ReadonlySet<ColumnMappingKind>,
+): ContentMatch | null {
+  return (
+    matches.find(
+      (match) =>
+        match.score >= CONTENT_PROPOSAL_THRESHOLD &&
+        !FLAG_KINDS.includes(match.kind) &&
+        allowedKinds.has(match.kind),
+    ) ?? null
+  );
+}
+
+/**
+ * Share of non-empty samples passing the (lenient) format check of `kind`,
+ * used to confirm a header match. Null when the kind has no format check or
+ * there are no samples.
+ */
+export function contentScoreFor(samples: string[], kind: ColumnMappingKind): number | null {
+  const check = VALUE_FORMAT_CHECKS[kind];
+  const values = nonEmptyValues(samples);
+  if (!check || values.length === 0) return null;
+
+  return values.filter((value) => check(value)).length / values.length;
+}
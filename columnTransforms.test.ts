@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { previewTransformedSamples } from './columnTransforms';
+import { buildHeaderPreview, parseDelimitedRows } from './localHeaderPreview';
+import { ColumnMappingEntry } from './types';
+
+describe('previewTransformedSamples', () => {
+  const preview = buildHeaderPreview(
+    parseDelimitedRows('Amount,Unit\n10,mg\n,g\n5,kg\n', ',', '"'),
+    10,
+    10,
+  );
+  const entry: ColumnMappingEntry = {
+    fileColumn: 'Amount',
+    mapTo: 'packageSize',
+    transforms: [{ type: 'concat', columns: ['Unit'], separator: ' ' }],
+  };
+
+  it('concatenates cells of the same row when preview rows are given', () => {
+    expect(previewTransformedSamples(entry, preview.columns, preview.rows)).toEqual([
+      { value: '10', result: '10 mg' },
+      { value: '5', result: '5 kg' },
+    ]);
+  });
+
+  it('falls back to the column samples without rows', () => {
+    // Samples skip empty cells, so the second amount is paired with the second unit
+    expect(previewTransformedSamples(entry, preview.columns)).toEqual([
+      { value: '10', result: '10 mg' },
+      { value: '5', result: '5 g' },
+    ]);
+  });
+});
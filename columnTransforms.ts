@@ -0,0 +1,236 @@
+/**
+ * Column transforms: pipelines on mapping entries that split, extract, join,
+ * clean up or look up cell values before they reach the mapped field.
+ *
+ * The pipeline travels with the column mapping and the backend applies it on
+ * import; the helpers below run the same steps on sample values for the
+ * preview and find broken steps (e.g. invalid regexes) before the import
+ * starts.
+ */
+import {
+  ColumnMappingEntry,
+  ColumnTransform,
+  ColumnTransformType,
+  HeaderPreviewColumn,
+} from './types';
+
+export const COLUMN_TRANSFORM_LABELS: Record<ColumnTransformType, string> = {
+  split: 'Split',
+  regex: 'Regex Extract',
+  concat: 'Concatenate Columns',
+  trim: 'Trim Whitespace',
+  case: 'Change Case',
+  lookup: 'Value Map',
+};
+
+/** Value map turning Y/N style flags into true/false */
+export const YES_NO_LOOKUP: Record<string, string> = {
+  yes: 'true',
+  y: 'true',
+  true: 'true',
+  '1': 'true',
+  x: 'true',
+  no: 'false',
+  n: 'false',
+  false: 'false',
+  '0': 'false',
+};
+
+/** A step with default settings, as added in the transform editor */
+export function createColumnTransform(type: ColumnTransformType): ColumnTransform {
+  switch (type) {
+    case 'split':
+      return { type, delimiter: '/', index: 0 };
+    case 'regex':
+      return { type, pattern: '', group: 1 };
+    case 'concat':
+      return { type, columns: [], separator: ' ' };
+    case 'trim':
+      return { type };
+    case 'case':
+      return { type, to: 'upper' };
+    case 'lookup':
+      return { type, table: {} };
+  }
+}
+
+export function hasTransforms(entry: Pick<ColumnMappingEntry, 'transforms'>): boolean {
+  return (entry.transforms?.length ?? 0) > 0;
+}
+
+function compileRegex(pattern: string, flags = ''): RegExp | null {
+  try {
+    // Only the first match is used, so a global flag would only add state
+    return new RegExp(pattern, flags.replace(/g/g, ''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What keeps the steps from running as intended, one message per problem.
+ * Concatenated columns are checked against `fileColumns` when given.
+ */
+export function findTransformProblems(
+  transforms: ColumnTransform[],
+  fileColumns?: string[],
+): string[] {
+  return transforms.flatMap((transform, index) => {
+    const step = `Step ${index + 1} (${COLUMN_TRANSFORM_LABELS[transform.type]})`;
+    switch (transform.type) {
+      case 'split':
+        return transform.delimiter === '' ? [`${step}: the delimiter is empty`] : [];
+      case 'regex':
+        if (transform.pattern === '') return [`${step}: the pattern is empty`];
+
+        return compileRegex(transform.pattern, transform.flags)
+          ? []
+          : [`${step}: "${transform.pattern}" is not a valid regular expression`];
+      case 'concat': {
+        if (transform.columns.length === 0) return [`${step}: no columns to append`];
+        const missing = fileColumns
+          ? transform.columns.filter((column) => !fileColumns.includes(column))
+          : [];
+
+        return missing.length > 0 ? [`${step}: column not in the file: ${missing.join(', ')}`] : [];
+      }
+      case 'lookup':
+        return Object.keys(transform.table).length === 0 ? [`${step}: the value map is empty`] : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function applyTransform(
+  value: string,
+  transform: ColumnTransform,
+  getColumnValue: (fileColumn: string) => string,
+): string {
+  switch (transform.type) {
+    case 'split': {
+      if (transform.delimiter === '') return value;
+      const parts = value.split(transform.delimiter);
+      const index = transform.index < 0 ? parts.length + transform.index : transform.index;
+
+      return parts[index]?.trim() ?? '';
+    }
+    case 'regex': {
+      const regex = transform.pattern ? compileRegex(transform.pattern, transform.flags) : null;
+      if (!regex) return value;
+      const match = regex.exec(value);
+      if (!match) return '';
+
+      return match[transform.group ?? 1] ?? match[0];
+    }
+    case 'concat':
+      return [value, ...transform.columns.map(getColumnValue)]
+        .filter((part) => part !== '')
+        .join(transform.separator);
+    case 'trim':
+      return value.trim();
+    case 'case':
+      return transform.to === 'upper' ? value.toUpperCase() : value.toLowerCase();
+    case 'lookup': {
+      const key = value.trim();
+      const found = transform.caseSensitive
+        ? transform.table[key]
+        : Object.entries(transform.table).find(
+            ([from]) => from.toLowerCase() === key.toLowerCase(),
+          )?.[1];
+
+      return found ?? transform.otherwise ?? value;
+    }
+  }
+}
+
+/**
+ * Run `transforms` on a cell value. `getColumnValue` returns other cells of
+ * the same row, for concatenation. Broken steps leave the value unchanged.
+ */
+export function applyColumnTransforms(
+  value: string,
+  transforms: ColumnTransform[] = [],
+  getColumnValue: (fileColumn: string) => string = () => '',
+): string {
+  return transforms.reduce(
+    (current, transform) => applyTransform(current, transform, getColumnValue),
+    value,
+  );
+}
+
+export interface TransformedSample {
+  value: string;
+  result: string;
+}
+
+/**
+ * The entry's values before and after its transforms, from the row-aligned
+ * preview `rows` (cells in `columns` order) so concatenated cells come from
+ * the same row. Rows where the entry's own cell is empty are skipped. Without
+ * rows the column samples are used; they skip empty cells, so other columns'
+ * samples with the same index may belong to another row.
+ */
+export function previewTransformedSamples(
+  entry: ColumnMappingEntry,
+  columns: HeaderPreviewColumn[],
+  rows?: string[][],
+): TransformedSample[] {
+  if (!rows || rows.length === 0) {
+    const samplesByColumn = new Map(columns.map((col) => [col.fileColumn, col.samples]));
+
+    return (samplesByColumn.get(entry.fileColumn) ?? []).map((value, row) => ({
+      value,
+      result: applyColumnTransforms(
+        value,
+        entry.transforms,
+        (fileColumn) => samplesByColumn.get(fileColumn)?.[row] ?? '',
+      ),
+    }));
+  }
+
+  const columnIndex = new Map<string, number>();
+  columns.forEach((col, index) => {
+    if (!columnIndex.has(col.fileColumn)) columnIndex.set(col.fileColumn, index);
+  });
+  const ownIndex = columnIndex.get(entry.fileColumn);
+  if (ownIndex === undefined) return [];
+
+  return rows.flatMap((row) => {
+    const cell = (index: number | undefined) =>
+      index === undefined ? '' : (row[index]?.trim() ?? '');
+    const value = cell(ownIndex);
+    if (value === '') return [];
+
+    return [
+      {
+        value,
+        result: applyColumnTransforms(value, entry.transforms, (fileColumn) =>
+          cell(columnIndex.get(fileColumn)),
+        ),
+      },
+    ];
+  });
+}
+
+/** One-line summary of a step, e.g. `Split on "/", part 1` */
+export function describeColumnTransform(transform: ColumnTransform): string {
+  switch (transform.type) {
+    case 'split':
+      return `Split on "${transform.delimiter}", ${
+        transform.index < 0
+          ? `part ${-transform.index} from the end`
+          : `part ${transform.index + 1}`
+      }`;
+    case 'regex':
+      return `Extract /${transform.pattern}/${transform.flags ?? ''}`;
+    case 'concat':
+      return `Append ${transform.columns.join(', ') || '(no columns)'}`;
+    case 'trim':
+      return 'Trim';
+    case 'case':
+      return transform.to === 'upper' ? 'Upper case' : 'Lower case';
+    case 'lookup':
+      return `Value map (${Object.keys(transform.table).length} values)`;
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseErrorReport } from './errorReport';
+
+describe('parseErrorReport (CSV)', () => {
+  it('keeps quoted line breaks, commas and quotes inside their field', () => {
+    const csv = [
+      'rowNumber,sku,error,fileColumn,mapTo,value',
+      '2,A-1,"Invalid molfile:',
+      'missing M  END",Structure,mdl,"benzene',
+      '  RDKit          2D',
+      '"',
+      '3,A-2,"Price ""12,50"" is not a number",Price,unitPrice,"12,50"',
+    ].join('\r\n');
+
+    expect(parseErrorReport(csv)).toEqual([
+      {
+        row: 2,
+        sku: 'A-1',
+        error: 'Invalid molfile:\r\nmissing M  END',
+        code: undefined,
+        fileColumn: 'Structure',
+        mapTo: 'molfile',
+        value: 'benzene\r\n  RDKit          2D\r\n',
+        severity: undefined,
+      },
+      {
+        row: 3,
+        sku: 'A-2',
+        error: 'Price "12,50" is not a number',
+        code: undefined,
+        fileColumn: 'Price',
+        mapTo: 'unitPrice',
+        value: '12,50',
+        severity: undefined,
+      },
+    ]);
+  });
+
+  it('skips blank lines between records', () => {
+    const csv = 'row,error\n\n5,Missing CAS\n\n';
+
+    expect(parseErrorReport(csv)).toEqual([
+      expect.objectContaining({ row: 5, error: 'Missing CAS' }),
+    ]);
+  });
+});
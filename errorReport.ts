@@ -0,0 +1,218 @@
+/**
+ * Loading and querying of the full row-error report referenced by
+ * CatalogImportStatus.errorsLocation.
+ *
+ * Reports can hold hundreds of thousands of rows, so the helpers below work on
+ * plain arrays in single passes and leave pagination to the caller.
+ */
+
+import {
+  CATALOG_IMPORT_ERROR_CODES,
+  CatalogImportError,
+  CatalogImportErrorCode,
+  ColumnMappingKind,
+} from './types';
+import { fromBackendMappingKind } from './mappingKinds';
+import { parseDelimitedRows } from './localHeaderPreview';
+
+export type ErrorSortDirection = 'asc' | 'desc';
+
+/** Identical error messages collapsed into one entry. */
+export interface ImportErrorGroup {
+  error: string;
+  count: number;
+  /** Lowest row numbers affected, for display (at most 5) */
+  sampleRows: number[];
+}
+
+const MAX_SAMPLE_ROWS = 5;
+
+function parseErrorCode(raw: unknown): CatalogImportErrorCode | undefined {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  const code = raw.toUpperCase() as CatalogImportErrorCode;
+
+  return CATALOG_IMPORT_ERROR_CODES.includes(code) ? code : 'UNKNOWN';
+}
+
+function parseMappingKind(raw: unknown): ColumnMappingKind | undefined {
+  if (typeof raw !== 'string' || !raw) return undefined;
+
+  return fromBackendMappingKind(raw);
+}
+
+function optionalString(raw: unknown): string | undefined {
+  if (typeof raw === 'string') return raw;
+  if (typeof raw === 'number' || typeof raw === 'boolean') return String(raw);
+
+  return undefined;
+}
+
+/**
+ * Normalize one raw error entry from the backend. Accepts the documented
+ * `{ row, sku, error }` shape plus the `rowNumber` / `message` aliases, and
+ * the structured fields `code`, `fileColumn` (or `column`), `mapTo`, `value`
+ * and `severity`. A bare string is treated as a message without a row.
+ * Returns null for entries that carry no message.
+ */
+export function normalizeImportError(raw: unknown): CatalogImportError | null {
+  if (typeof raw === 'string') {
+    return raw ? { row: 0, error: raw } : null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  const error = data.error ?? data.message;
+  if (typeof error !== 'string' || !error) return null;
+
+  const row = Number(data.row ?? data.rowNumber ?? 0);
+  const sku = data.sku;
+  const fileColumn = optionalString(data.fileColumn ?? data.column);
+
+  return {
+    row: Number.isFinite(row) ? row : 0,
+    sku: typeof sku === 'string' && sku ? sku : undefined,
+    error,
+    code: parseErrorCode(data.code),
+    fileColumn: fileColumn || undefined,
+    mapTo: parseMappingKind(data.mapTo),
+    value: optionalString(data.value),
+    severity: data.severity === 'warning' || data.severity === 'error' ? data.severity : undefined,
+  };
+}
+
+export function normalizeImportErrors(raw: unknown[]): CatalogImportError[] {
+  const errors: CatalogImportError[] = [];
+  for (const item of raw) {
+    const normalized = normalizeImportError(item);
+    if (normalized) errors.push(normalized);
+  }
+
+  return errors;
+}
+
+/** Camel-cased error fields, keyed by their lower-cased CSV header */
+const CSV_HEADER_KEYS: Record<string, string> = {
+  rownumber: 'rowNumber',
+  filecolumn: 'fileColumn',
+  mapto: 'mapTo',
+};
+
+function parseCsvReport(text: string): CatalogImportError[] {
+  // Quoted messages and values (e.g. molblocks) may span several lines
+  const [headerRow, ...dataRows] = parseDelimitedRows(text, ',', '"');
+  if (!headerRow) return [];
+
+  const header = headerRow.map((h) => {
+    const key = h.trim().toLowerCase();
+
+    return CSV_HEADER_KEYS[key] ?? key;
+  });
+  const rows = dataRows.map((fields) =>
+    Object.fromEntries(header.map((key, i) => [key, fields[i]])),
+  );
+
+  return normalizeImportErrors(rows);
+}
+
+/**
+ * Parse an error report body. Supported formats: a JSON array, a JSON object
+ * with an `errors` array, newline-delimited JSON, and CSV with a header row.
+ */
+export function parseErrorReport(text: string): CatalogImportError[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return normalizeImportErrors(parsed);
+      if (Array.isArray(parsed?.errors)) return normalizeImportErrors(parsed.errors);
+    } catch {
+      // Not a single JSON document - try newline-delimited JSON below
+    }
+
+    if (trimmed.startsWith('{')) {
+      const items: unknown[] = [];
+      for (const line of trimmed.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        try {
+          items.push(JSON.parse(line));
+        } catch {
+          // Skip truncated or malformed lines
+        }
+      }
+
+      return normalizeImportErrors(items);
+    }
+  }
+
+  return parseCsvReport(trimmed);
+}
+
+/**
+ * Download and parse the error report at `url`. `init` carries e.g. the
+ * credentials: cookies for the authenticated API, none for presigned URLs.
+ */
+export async function fetchErrorReport(
+  url: string,
+  init?: RequestInit,
+): Promise<CatalogImportError[]> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load error report (${response.status})`);
+  }
+
+  return parseErrorReport(await response.text());
+}
+
+/**
+ * Keep errors whose message, SKU, column or value contains `query` (case-insensitive).
+ */
+export function filterImportErrors(
+  errors: CatalogImportError[],
+  query: string,
+): CatalogImportError[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return errors;
+
+  return errors.filter(
+    (err) =>
+      err.error.toLowerCase().includes(needle) ||
+      (!!err.sku && err.sku.toLowerCase().includes(needle)) ||
+      (!!err.fileColumn && err.fileColumn.toLowerCase().includes(needle)) ||
+      (!!err.value && err.value.toLowerCase().includes(needle)),
+  );
+}
+
+export function sortImportErrors(
+  errors: CatalogImportError[],
+  direction: ErrorSortDirection,
+): CatalogImportError[] {
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...errors].sort((a, b) => (a.row - b.row) * sign);
+}
+
+/**
+ * Collapse identical messages, most frequent first.
+ */
+export function groupImportErrors(errors: CatalogImportError[]): ImportErrorGroup[] {
+  const groups = new Map<string, ImportErrorGroup>();
+
+  for (const err of errors) {
+    let group = groups.get(err.error);
+    if (!group) {
+      group = { error: err.error, count: 0, sampleRows: [] };
+      groups.set(err.error, group);
+    }
+    group.count++;
+    if (group.sampleRows.length < MAX_SAMPLE_ROWS) {
+      group.sampleRows.push(err.row);
+    } else if (err.row < group.sampleRows[MAX_SAMPLE_ROWS - 1]) {
+      group.sampleRows[MAX_SAMPLE_ROWS - 1] = err.row;
+    }
+    group.sampleRows.sort((a, b) => a - b);
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
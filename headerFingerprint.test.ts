@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeHeaderFingerprint,
+  diffHeaders,
+  findBestTemplateMatch,
+  headerSimilarity,
+} from './headerFingerprint';
+import { MappingTemplateCandidate } from './mappingTemplates';
+
+function template(id: string, headers: string[]): MappingTemplateCandidate {
+  return {
+    id,
+    name: id,
+    mapping: { mappings: headers.map((fileColumn) => ({ fileColumn, mapTo: 'ignore' })) },
+    config: { importKind: 'BUILDING_BLOCK' },
+  };
+}
+
+const columns = (headers: string[]) => headers.map((fileColumn) => ({ fileColumn, samples: [] }));
+
+describe('computeHeaderFingerprint', () => {
+  it('gives files with the same layout the same key', () => {
+    expect(computeHeaderFingerprint(['Cat No', 'CAS Number']).key).toBe(
+      computeHeaderFingerprint(['cat_no', 'casNumber']).key,
+    );
+    expect(computeHeaderFingerprint(['CAS', 'Cat No']).key).not.toBe(
+      computeHeaderFingerprint(['Cat No', 'CAS']).key,
+    );
+  });
+});
+
+describe('diffHeaders', () => {
+  it('matches headers that normalise alike', () => {
+    expect(diffHeaders(['Cat No', 'CAS Number'], ['cat_no', 'casNumber'])).toEqual({
+      added: [],
+      removed: [],
+      renamed: [],
+      unchanged: ['cat_no', 'casNumber'],
+    });
+  });
+
+  it('pairs close names as renames', () => {
+    expect(diffHeaders(['CAS', 'Catalog Number'], ['Catalog No', 'CAS', 'Stock'])).toEqual({
+      added: ['Stock'],
+      removed: [],
+      renamed: [{ from: 'Catalog Number', to: 'Catalog No' }],
+      unchanged: ['CAS'],
+    });
+  });
+
+  it('does not pair unrelated headers just because they share a position', () => {
+    expect(diffHeaders(['CAS', 'Price', 'Name'], ['CAS', 'Stock', 'Name'])).toEqual({
+      added: ['Stock'],
+      removed: ['Price'],
+      renamed: [],
+      unchanged: ['CAS', 'Name'],
+    });
+  });
+
+  it('prefers the pair at the same position among equally close names', () => {
+    expect(diffHeaders(['Size 1', 'Size 2'], ['Size A', 'Size B']).renamed).toEqual([
+      { from: 'Size 1', to: 'Size A' },
+      { from: 'Size 2', to: 'Size B' },
+    ]);
+  });
+});
+
+describe('headerSimilarity', () => {
+  it('is 1 for the same headers in the same order', () => {
+    expect(headerSimilarity(['A', 'B', 'C'], ['A', 'B', 'C'])).toBe(1);
+  });
+
+  it('scores reordered, renamed and missing headers lower', () => {
+    const reordered = headerSimilarity(['Alpha', 'Beta', 'Gamma'], ['Gamma', 'Beta', 'Alpha']);
+    const renamed = headerSimilarity(['Alpha', 'Beta', 'Gamma'], ['Alpha', 'Beta', 'Gamma 2']);
+    const missing = headerSimilarity(['Alpha', 'Beta', 'Gamma'], ['Alpha', 'Beta']);
+
+    expect(reordered).toBeLessThan(1);
+    expect(renamed).toBeLessThan(1);
+    expect(missing).toBeLessThan(renamed);
+  });
+
+  it('is 0 without headers', () => {
+    expect(headerSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('findBestTemplateMatch', () => {
+  it('picks the closest template above the threshold, earlier ones on ties', () => {
+    const saved = template('saved', ['Cat No', 'CAS', 'Price']);
+    const profile = template('profile', ['Cat No', 'CAS', 'Price']);
+    const other = template('other', ['Well', 'Plate']);
+
+    const match = findBestTemplateMatch(columns(['Cat No', 'CAS', 'Price']), [
+      other,
+      saved,
+      profile,
+    ]);
+
+    expect(match?.template.id).toBe('saved');
+    expect(match?.similarity).toBe(1);
+    expect(findBestTemplateMatch(columns(['Vendor', 'Amount']), [saved, other])).toBeNull();
+  });
+});
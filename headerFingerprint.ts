@@ -0,0 +1,197 @@
+/**
+ * Header fingerprints: the normalised header list of a file, used to find the
+ * saved template or vendor profile a file was exported with, and to tell what
+ * changed (added, removed or renamed columns) since that template was saved.
+ */
+import { HeaderPreviewColumn } from './types';
+import type { MappingTemplateCandidate } from './mappingTemplates';
+import { editDistance, normalizeHeader } from './headerMatching';
+
+export interface HeaderFingerprint {
+  /** Normalised headers in file order; empty for punctuation-only headers */
+  headers: string[];
+  /** Order-sensitive key, equal for files with the same layout */
+  key: string;
+}
+
+export interface HeaderRename {
+  /** Header as saved in the template */
+  from: string;
+  /** Header in the incoming file */
+  to: string;
+}
+
+export interface HeaderDiff {
+  /** File headers the template does not know */
+  added: string[];
+  /** Template headers missing from the file */
+  removed: string[];
+  renamed: HeaderRename[];
+  /** File headers found unchanged in the template */
+  unchanged: string[];
+}
+
+export interface TemplateMatch<T extends MappingTemplateCandidate = MappingTemplateCandidate> {
+  template: T;
+  /** 0-1; 1 for the same headers in the same order */
+  similarity: number;
+  diff: HeaderDiff;
+}
+
+/** Minimum similarity for the wizard to apply a template on its own */
+export const TEMPLATE_AUTO_APPLY_SIMILARITY = 0.75;
+
+// Share of the similarity decided by the header set; the rest is column order
+const SET_WEIGHT = 0.85;
+// Renamed columns count as half a match
+const RENAME_WEIGHT = 0.5;
+// Minimum string similarity for a removed and an added header to be a rename
+const RENAME_SIMILARITY = 0.5;
+
+const headerKey = (header: string) => normalizeHeader(header).join(' ');
+
+export function computeHeaderFingerprint(headers: string[]): HeaderFingerprint {
+  const keys = headers.map(headerKey);
+
+  return { headers: keys, key: keys.join('|') };
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+
+  return maxLength === 0 ? 1 : 1 - editDistance(a, b) / maxLength;
+}
+
+/** Length of the longest common subsequence, for how well column order is kept */
+function commonSubsequenceLength(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [0];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] =
+        a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Compare the headers a template was saved with against the headers of an
+ * incoming file. Headers match when they normalise alike; leftover headers
+ * are paired as renames when their names are close. Among close pairs, those
+ * at the same position in files with the same number of columns come first.
+ */
+export function diffHeaders(templateHeaders: string[], fileHeaders: string[]): HeaderDiff {
+  const templateKeys = templateHeaders.map(headerKey);
+  const fileKeys = fileHeaders.map(headerKey);
+  const unmatchedTemplate = new Set(templateHeaders.map((_, index) => index));
+  const unchanged: string[] = [];
+  const unmatchedFile: number[] = [];
+
+  fileKeys.forEach((key, fileIndex) => {
+    const templateIndex = [...unmatchedTemplate].find(
+      (index) =>
+        templateKeys[index] === key &&
+        (key !== '' || templateHeaders[index] === fileHeaders[fileIndex]),
+    );
+    if (templateIndex === undefined) {
+      unmatchedFile.push(fileIndex);
+    } else {
+      unmatchedTemplate.delete(templateIndex);
+      unchanged.push(fileHeaders[fileIndex]);
+    }
+  });
+
+  // Closest pairs first, so a near-identical rename is not taken by a weaker one
+  const samePositions = templateHeaders.length === fileHeaders.length;
+  const candidates = unmatchedFile
+    .flatMap((fileIndex) =>
+      [...unmatchedTemplate].map((templateIndex) => ({
+        fileIndex,
+        templateIndex,
+        similarity: stringSimilarity(fileKeys[fileIndex], templateKeys[templateIndex]),
+        samePosition: samePositions && templateIndex === fileIndex,
+      })),
+    )
+    .filter((pair) => pair.similarity >= RENAME_SIMILARITY)
+    .sort((a, b) => Number(b.samePosition) - Number(a.samePosition) || b.similarity - a.similarity);
+
+  const renamed: HeaderRename[] = [];
+  const renamedFile = new Set<number>();
+  for (const { fileIndex, templateIndex } of candidates) {
+    if (renamedFile.has(fileIndex) || !unmatchedTemplate.has(templateIndex)) continue;
+    renamedFile.add(fileIndex);
+    unmatchedTemplate.delete(templateIndex);
+    renamed.push({ from: templateHeaders[templateIndex], to: fileHeaders[fileIndex] });
+  }
+
+  return {
+    added: unmatchedFile
+      .filter((fileIndex) => !renamedFile.has(fileIndex))
+      .map((fileIndex) => fileHeaders[fileIndex]),
+    removed: [...unmatchedTemplate].map((index) => templateHeaders[index]),
+    renamed,
+    unchanged,
+  };
+}
+
+/**
+ * Similarity of two header layouts from 0 to 1: mostly the share of headers
+ * both have (renames count half), the rest how well their order is kept.
+ */
+export function headerSimilarity(
+  templateHeaders: string[],
+  fileHeaders: string[],
+  diff: HeaderDiff = diffHeaders(templateHeaders, fileHeaders),
+): number {
+  const total = Math.max(templateHeaders.length, fileHeaders.length);
+  if (total === 0) return 0;
+
+  const setScore = (diff.unchanged.length + diff.renamed.length * RENAME_WEIGHT) / total;
+  const common = new Set(diff.unchanged.map(headerKey));
+  const inCommon = (headers: string[]) =>
+    computeHeaderFingerprint(headers).headers.filter((key) => common.has(key));
+  const orderScore =
+    diff.unchanged.length === 0
+      ? 0
+      : commonSubsequenceLength(inCommon(templateHeaders), inCommon(fileHeaders)) /
+        diff.unchanged.length;
+
+  return SET_WEIGHT * setScore + (1 - SET_WEIGHT) * Math.min(orderScore, 1);
+}
+
+/** Compare a template's saved headers with the incoming file */
+export function matchTemplate<T extends MappingTemplateCandidate>(
+  template: T,
+  columns: HeaderPreviewColumn[],
+): TemplateMatch<T> {
+  // Columns feeding several fields have several entries but are one header
+  const templateHeaders = [...new Set(template.mapping.mappings.map((m) => m.fileColumn))];
+  const fileHeaders = columns.map((col) => col.fileColumn);
+  const diff = diffHeaders(templateHeaders, fileHeaders);
+
+  return { template, similarity: headerSimilarity(templateHeaders, fileHeaders, diff), diff };
+}
+
+/**
+ * The candidate whose headers best fit `columns`, or null when none reaches
+ * `minSimilarity`. Earlier candidates win ties, so saved templates listed
+ * before vendor profiles take precedence.
+ */
+export function findBestTemplateMatch<T extends MappingTemplateCandidate>(
+  columns: HeaderPreviewColumn[],
+  candidates: T[],
+  minSimilarity = TEMPLATE_AUTO_APPLY_SIMILARITY,
+): TemplateMatch<T> | null {
+  let best: TemplateMatch<T> | null = null;
+  for (const candidate of candidates) {
+    const match = matchTemplate(candidate, columns);
+    if (match.similarity >= minSimilarity && (!best || match.similarity > best.similarity)) {
+      best = match;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  editDistance,
+  HeaderMatch,
+  matchHeader,
+  normalizeHeader,
+  registerHeaderSynonymPack,
+} from './headerMatching';
+import { MAPPING_KINDS } from './mappingKinds';
+import { ColumnMappingKind } from './types';
+
+const ALL_KINDS = new Set<ColumnMappingKind>(MAPPING_KINDS.map((definition) => definition.kind));
+
+function kindOf(header: string): ColumnMappingKind | null {
+  return matchHeader(header, ALL_KINDS)?.kind ?? null;
+}
+
+describe('normalizeHeader', () => {
+  it.each([
+    ['Product_Name', ['product', 'name']],
+    ['productName', ['product', 'name']],
+    ['PRODUCT NAME', ['product', 'name']],
+    ['unitPrices (USD)', ['unit', 'price', 'usd']],
+    ['CASNumber', ['cas', 'number']],
+    ['Pureté', ['purete']],
+    ['Ｐｕｒｅｔé', ['purete']],
+    ['Größe', ['grosse']],
+    ['Кат. №', ['кат', 'no']],
+    ['Boxes', ['box']],
+    ['Status', ['status']],
+  ])('normalises %j', (header, tokens) => {
+    expect(normalizeHeader(header)).toEqual(tokens);
+  });
+});
+
+describe('matchHeader', () => {
+  it.each<[string, ColumnMappingKind, HeaderMatch['matchedBy']]>([
+    ['Catalog Number', 'catalogNumber', 'synonym'],
+    ['cat_no', 'catalogNumber', 'synonym'],
+    ['Catalog Numbr', 'catalogNumber', 'fuzzy'],
+    ['Molecular Wieght', 'molWeight', 'fuzzy'],
+    ['unit_price_usd', 'unitPrice', 'keyword'],
+  ])('matches %j to %s by %s', (header, kind, matchedBy) => {
+    expect(matchHeader(header, ALL_KINDS)).toMatchObject({ kind, matchedBy });
+  });
+
+  it('scores synonyms above typos and typos above keywords', () => {
+    const synonym = matchHeader('Molecular Weight', ALL_KINDS)!;
+    const fuzzy = matchHeader('Molecular Wieght', ALL_KINDS)!;
+    const keyword = matchHeader('Average weight', ALL_KINDS)!;
+
+    expect(synonym.score).toBe(1);
+    expect(fuzzy.score).toBeLessThan(1);
+    expect(keyword.score).toBeLessThan(fuzzy.score);
+  });
+
+  it('does not apply typo tolerance to short headers', () => {
+    expect(kindOf('mx')).toBeNull();
+    expect(kindOf('mw')).toBe('molWeight');
+  });
+
+  it('only matches allowed kinds', () => {
+    expect(matchHeader('CAS', new Set<ColumnMappingKind>(['smiles']))).toBeNull();
+  });
+
+  it('returns null for headers without letters or digits', () => {
+    expect(matchHeader('---', ALL_KINDS)).toBeNull();
+  });
+});
+
+describe('built-in language packs', () => {
+  it.each<[string, string, ColumnMappingKind]>([
+    ['de', 'Summenformel', 'molFormula'],
+    ['de', 'Artikelnummer', 'catalogNumber'],
+    ['ru', 'Кат. №', 'catalogNumber'],
+    ['uk', 'Каталожний номер', 'catalogNumber'],
+    ['ja', 'カタログ番号', 'catalogNumber'],
+    ['zh', '货号', 'catalogNumber'],
+    ['zh', 'CAS号', 'cas'],
+    ['fr', 'Pureté', 'purity'],
+    ['fr', 'PURETE', 'purity'],
+    ['es', 'Masa molecular', 'molWeight'],
+    ['es', 'Peso molecular', 'molWeight'],
+    ['es', 'Precio unitario', 'unitPrice'],
+  ])('%s: maps %j to %s', (_, header, kind) => {
+    expect(kindOf(header)).toBe(kind);
+  });
+});
+
+describe('registerHeaderSynonymPack', () => {
+  let unregister: (() => void) | null = null;
+
+  afterEach(() => {
+    unregister?.();
+    unregister = null;
+  });
+
+  it('adds synonyms and keywords until it is removed again', () => {
+    expect(kindOf('Indeks produktu')).toBeNull();
+    expect(kindOf('Cena za kus')).toBeNull();
+
+    unregister = registerHeaderSynonymPack({
+      language: 'pl',
+      synonyms: { unitPrice: ['Cena za kus'] },
+      keywords: { catalogNumber: ['indeks'] },
+    });
+
+    expect(matchHeader('Cena za kus', ALL_KINDS)).toMatchObject({
+      kind: 'unitPrice',
+      matchedBy: 'synonym',
+    });
+    expect(matchHeader('Indeks produktu', ALL_KINDS)).toMatchObject({
+      kind: 'catalogNumber',
+      matchedBy: 'keyword',
+    });
+
+    unregister();
+    unregister = null;
+    expect(kindOf('Cena za kus')).toBeNull();
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+});
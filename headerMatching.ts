@@ -0,0 +1,227 @@
+/**
+ * Header-based column matching: a synonym dictionary per mapping kind,
+ * token normalisation and edit-distance scoring.
+ *
+ * Headers and synonyms are normalised the same way (Unicode width and
+ * accents, case, punctuation, camelCase, plurals) and compared in their
+ * compact form, so "Product_Name", "productName" and "PRODUCT NAME" all match
+ * the synonym "product name". Non-English synonyms come in language packs.
+ */
+
+import { ColumnMappingKind } from './types';
+import { MAPPING_KINDS } from './mappingKinds';
+import { BUILT_IN_SYNONYM_PACKS } from './headerSynonymPacks';
+
+export interface HeaderSynonymEntry {
+  kind: ColumnMappingKind;
+  /** Whole headers meaning this kind; also matched with small typos */
+  synonyms: string[];
+  /**
+   * Words that mean this kind anywhere in the header, e.g. "price" in
+   * "unit_price_usd". An array entry matches only when all its words appear.
+   */
+  keywords?: (string | string[])[];
+  /** Headers containing any of these words never match the keywords */
+  excludes?: string[];
+  /** Only applies when another column of the file matched this kind */
+  whenFileHas?: ColumnMappingKind;
+}
+
+/** Synonyms of one language, turned into entries after the English ones */
+export interface HeaderSynonymPack {
+  /** Language tag, e.g. 'de' or 'zh' */
+  language: string;
+  synonyms: Partial<Record<ColumnMappingKind, string[]>>;
+  /** Words that mean a kind anywhere in the header, as in HeaderSynonymEntry */
+  keywords?: Partial<Record<ColumnMappingKind, string[]>>;
+}
+
+export interface HeaderMatch {
+  kind: ColumnMappingKind;
+  /** 1 for a synonym, less for typos and keywords */
+  score: number;
+  matchedBy: 'synonym' | 'fuzzy' | 'keyword';
+}
+
+const KEYWORD_SCORE = 0.7;
+/** Fuzzy matches score below exact synonyms, scaled by their similarity */
+const FUZZY_WEIGHT = 0.9;
+const MIN_FUZZY_SIMILARITY = 0.85;
+/** Shorter headers (e.g. "mw", "dg") are too ambiguous for typo tolerance */
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * English synonyms of every kind, from the mapping kind registry. Order
+ * matters when two kinds score the same: the earlier entry wins, so entries
+ * are in registry order with higher `priority` first (e.g. price before
+ * package size for "unit_price_per_package"). Entries for kinds the import
+ * kind does not offer are skipped.
+ */
+export const HEADER_SYNONYMS: HeaderSynonymEntry[] = MAPPING_KINDS.flatMap((definition) =>
+  definition.synonyms.map(({ priority = 0, ...entry }) => ({
+    priority,
+    entry: { kind: definition.kind, ...entry },
+  })),
+)
+  .sort((a, b) => b.priority - a.priority)
+  .map(({ entry }) => entry);
+
+/** Reduce an English plural to its singular; applied to headers and synonyms alike */
+function singularize(token: string): string {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (/(ss|ch|sh|x)es$/.test(token)) return token.slice(0, -2);
+  if (/(ss|us|is|as)$/.test(token)) return token;
+
+  return token.endsWith('s') ? token.slice(0, -1) : token;
+}
+
+/**
+ * Split a header into lower-case, singular tokens: camelCase and
+ * punctuation separate words, e.g. "unitPrices (USD)" -> unit, price, usd.
+ * Full-width forms become ASCII and accents are dropped ("Pureté" -> purete),
+ * so any script compares by its letters and digits.
+ */
+export function normalizeHeader(header: string): string[] {
+  return header
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== '')
+    .map(singularize);
+}
+
+function compact(text: string): string {
+  return normalizeHeader(text).join('');
+}
+
+// Dictionary words are compared against every header; normalise each once
+const compactWords = new Map<string, string>();
+
+function compactWord(word: string): string {
+  let compacted = compactWords.get(word);
+  if (compacted === undefined) {
+    compacted = compact(word);
+    compactWords.set(word, compacted);
+  }
+
+  return compacted;
+}
+
+/** Levenshtein distance between two strings */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Similarity from 0 (nothing in common) to 1 (identical) */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+function scoreEntry(header: string, entry: HeaderSynonymEntry): HeaderMatch | null {
+  let best: HeaderMatch | null = null;
+
+  for (const synonym of entry.synonyms.map(compactWord)) {
+    if (synonym === header) return { kind: entry.kind, score: 1, matchedBy: 'synonym' };
+    if (Math.min(synonym.length, header.length) < MIN_FUZZY_LENGTH) continue;
+
+    const fuzzy = similarity(synonym, header);
+    if (fuzzy >= MIN_FUZZY_SIMILARITY && (!best || fuzzy * FUZZY_WEIGHT > best.score)) {
+      best = { kind: entry.kind, score: fuzzy * FUZZY_WEIGHT, matchedBy: 'fuzzy' };
+    }
+  }
+  if (best) return best;
+
+  if (entry.excludes?.some((word) => header.includes(compactWord(word)))) return null;
+  const hasKeyword = entry.keywords?.some((keyword) =>
+    (Array.isArray(keyword) ? keyword : [keyword]).every((word) =>
+      header.includes(compactWord(word)),
+    ),
+  );
+
+  return hasKeyword ? { kind: entry.kind, score: KEYWORD_SCORE, matchedBy: 'keyword' } : null;
+}
+
+function packToEntries(pack: HeaderSynonymPack): HeaderSynonymEntry[] {
+  const kinds = new Set([
+    ...Object.keys(pack.synonyms),
+    ...Object.keys(pack.keywords ?? {}),
+  ]) as Set<ColumnMappingKind>;
+
+  return [...kinds].map((kind) => ({
+    kind,
+    synonyms: pack.synonyms[kind] ?? [],
+    keywords: pack.keywords?.[kind],
+  }));
+}
+
+let synonymPacks: HeaderSynonymPack[] = BUILT_IN_SYNONYM_PACKS;
+let synonymEntries: HeaderSynonymEntry[] = buildSynonymEntries();
+
+function buildSynonymEntries(): HeaderSynonymEntry[] {
+  return [...HEADER_SYNONYMS, ...synonymPacks.flatMap(packToEntries)];
+}
+
+/** English synonyms followed by every registered language pack */
+export function getHeaderSynonymEntries(): HeaderSynonymEntry[] {
+  return synonymEntries;
+}
+
+/**
+ * Add a language pack (or extra terms for a built-in language) used by
+ * header matching from now on. Returns a function that removes it again.
+ */
+export function registerHeaderSynonymPack(pack: HeaderSynonymPack): () => void {
+  synonymPacks = [...synonymPacks, pack];
+  synonymEntries = buildSynonymEntries();
+
+  return () => {
+    synonymPacks = synonymPacks.filter((registered) => registered !== pack);
+    synonymEntries = buildSynonymEntries();
+  };
+}
+
+/**
+ * Best match for `header` among `entries`, restricted to `allowedKinds`.
+ * Entries with `whenFileHas` only count when `fileKinds` contains that kind.
+ * Returns null when nothing matches.
+ */
+export function matchHeader(
+  header: string,
+  allowedKinds: ReadonlySet<ColumnMappingKind>,
+  fileKinds: ReadonlySet<ColumnMappingKind> = new Set(),
+  entries: HeaderSynonymEntry[] = getHeaderSynonymEntries(),
+): HeaderMatch | null {
+  const normalized = compact(header);
+  if (normalized === '') return null;
+
+  let best: HeaderMatch | null = null;
+  for (const entry of entries) {
+    if (!allowedKinds.has(entry.kind)) continue;
+    if (entry.whenFileHas && !fileKinds.has(entry.whenFileHas)) continue;
+
+    const match = scoreEntry(normalized, entry);
+    if (match && (!best || match.score > best.score)) best = match;
+  }
+
+  return best;
+}
@@ -0,0 +1,531 @@
+/**
+ * Built-in non-English header synonyms, for vendor files from China, Japan,
+ * Germany, Russia/Ukraine, France and Spain. Headers and synonyms go through
+ * the same Unicode normalisation (width, accents, case), so "Pureté",
+ * "PURETE" and "Ｐｕｒｅｔé" all match. More packs can be added at runtime
+ * with `registerHeaderSynonymPack`.
+ */
+
+import type { HeaderSynonymPack } from './headerMatching';
+
+const ZH: HeaderSynonymPack = {
+  language: 'zh',
+  synonyms: {
+    catalogNumber: ['货号', '貨號', '产品编号', '商品编号', '目录号', '编号'],
+    cas: ['CAS号', 'CAS编号', 'CAS登记号'],
+    inchiKey: ['InChIKey值'],
+    productName: [
+      '产品名称',
+      '產品名稱',
+      '品名',
+      '名称',
+      '中文名称',
+      '英文名称',
+      '化学名称',
+      '化合物名称',
+    ],
+    mdlNumber: ['MDL号', 'MDL编号'],
+    compoundId: ['化合物编号', '化合物ID'],
+    smiles: ['结构式', '结构', 'SMILES式'],
+    molfile: ['MOL文件', '结构文件'],
+    molFormula: ['分子式'],
+    molWeight: ['分子量', '相对分子质量', '分子質量'],
+    saltData: ['盐型', '盐信息'],
+    purity: ['纯度', '純度', '含量'],
+    chiralPurity: ['手性纯度', '光学纯度', 'ee值'],
+    packageSize: ['包装', '包裝', '包装规格', '规格'],
+    unitPrice: ['价格', '價格', '单价', '售价'],
+    inventoryAvailable: ['库存', '庫存', '库存数量', '现货'],
+    leadTime: ['货期', '交货期', '交期', '发货时间'],
+    moq: ['最小起订量', '起订量'],
+    vendorName: ['供应商', '厂家', '生产商'],
+    countryOfOrigin: ['原产国', '产地'],
+    storageConditions: ['储存条件', '存储条件', '贮存条件'],
+    appearance: ['外观', '性状'],
+    solubility: ['溶解度', '溶解性'],
+    shelfLife: ['保质期', '有效期'],
+    physicalForm: ['物理形态', '形态'],
+    notes: ['备注', '備註', '说明'],
+    sdsAvailable: ['有无SDS', '安全技术说明书'],
+    coaAvailable: ['有无COA', '分析证书'],
+    customSynthesis: ['定制合成'],
+    retestOrExpiry: ['复验期', '失效日期', '过期日期'],
+    hsCode: ['海关编码', 'HS编码'],
+    hazmat: ['危险品', '危险化学品'],
+    plateId: ['板号', '板编号'],
+    well: ['孔位', '孔号'],
+    row: ['行'],
+    column: ['列'],
+    libraryName: ['库名称', '化合物库'],
+    libraryId: ['库编号'],
+    targetName: ['靶点'],
+    pathway: ['信号通路', '通路'],
+    application: ['应用', '用途'],
+    description: ['描述', '简介'],
+    moleculeType: ['分子类型'],
+    alias: ['别名', '同义词'],
+    mechanismOfAction: ['作用机制'],
+    concentration: ['浓度'],
+    volume: ['体积'],
+    solvent: ['溶剂'],
+    controlType: ['对照类型'],
+    batchId: ['批号', '批次'],
+    warehouseCode: ['仓库代码', '仓库编号'],
+    warehouseName: ['仓库名称'],
+    warehouseCountry: ['仓库国家'],
+    warehouseCity: ['仓库城市'],
+    warehouseLeadTimeDays: ['仓库货期'],
+    warehouseStockQty: ['仓库库存'],
+    warehousePrice: ['仓库价格'],
+  },
+  keywords: {
+    catalogNumber: ['货号'],
+    unitPrice: ['价格', '单价'],
+    packageSize: ['规格'],
+    inventoryAvailable: ['库存'],
+    leadTime: ['货期'],
+    molWeight: ['分子量'],
+    purity: ['纯度'],
+  },
+};
+
+const JA: HeaderSynonymPack = {
+  language: 'ja',
+  synonyms: {
+    catalogNumber: ['品番', '製品番号', 'カタログ番号', 'コード', '商品コード'],
+    cas: ['CAS番号'],
+    inchiKey: ['InChIキー'],
+    productName: ['製品名', '品名', '化合物名', '商品名', '名称'],
+    mdlNumber: ['MDL番号'],
+    compoundId: ['化合物ID', '化合物番号'],
+    smiles: ['構造', '構造式'],
+    molfile: ['MOLファイル'],
+    molFormula: ['分子式', '組成式'],
+    molWeight: ['分子量'],
+    saltData: ['塩', '塩情報'],
+    purity: ['純度', '含量'],
+    chiralPurity: ['光学純度', '鏡像体過剰率'],
+    packageSize: ['容量', '包装', '包装単位', '入数'],
+    unitPrice: ['価格', '単価', '定価'],
+    inventoryAvailable: ['在庫', '在庫数'],
+    leadTime: ['納期', 'リードタイム'],
+    moq: ['最小注文数', '最低発注数量'],
+    vendorName: ['メーカー', '供給元', '販売元'],
+    countryOfOrigin: ['原産国'],
+    storageConditions: ['保存条件', '保管条件'],
+    appearance: ['外観', '性状'],
+    solubility: ['溶解性', '溶解度'],
+    shelfLife: ['保存期間', '有効期間'],
+    physicalForm: ['形状'],
+    notes: ['備考', '注記'],
+    sdsAvailable: ['SDS有無'],
+    coaAvailable: ['COA有無', '分析証明書'],
+    customSynthesis: ['受託合成', 'カスタム合成'],
+    retestOrExpiry: ['使用期限', '有効期限', '再試験日'],
+    hsCode: ['HSコード'],
+    hazmat: ['危険物'],
+    plateId: ['プレートID', 'プレート番号'],
+    well: ['ウェル', 'ウェル位置'],
+    row: ['行'],
+    column: ['列'],
+    libraryName: ['ライブラリ名'],
+    libraryId: ['ライブラリID'],
+    targetName: ['標的', 'ターゲット'],
+    pathway: ['経路', 'パスウェイ'],
+    application: ['用途', 'アプリケーション'],
+    description: ['説明', '概要'],
+    moleculeType: ['分子種', '分子タイプ'],
+    alias: ['別名', '同義語'],
+    mechanismOfAction: ['作用機序'],
+    concentration: ['濃度'],
+    volume: ['液量', '体積'],
+    solvent: ['溶媒'],
+    controlType: ['コントロール種別', '対照'],
+    batchId: ['ロット', 'ロット番号', 'バッチ'],
+    warehouseCode: ['倉庫コード'],
+    warehouseName: ['倉庫名'],
+    warehouseCountry: ['倉庫所在国'],
+    warehouseCity: ['倉庫所在都市'],
+    warehouseLeadTimeDays: ['倉庫納期'],
+    warehouseStockQty: ['倉庫在庫'],
+    warehousePrice: ['倉庫価格'],
+  },
+  keywords: {
+    unitPrice: ['価格', '単価'],
+    inventoryAvailable: ['在庫'],
+    leadTime: ['納期'],
+    molWeight: ['分子量'],
+    purity: ['純度'],
+  },
+};
+
+const DE: HeaderSynonymPack = {
+  language: 'de',
+  synonyms: {
+    catalogNumber: [
+      'Artikelnummer',
+      'Art.-Nr.',
+      'Artikel-Nr.',
+      'Katalognummer',
+      'Bestellnummer',
+      'Produktnummer',
+    ],
+    cas: ['CAS-Nummer', 'CAS-Nr.'],
+    inchiKey: ['InChI-Schlüssel'],
+    productName: [
+      'Produktname',
+      'Bezeichnung',
+      'Artikelbezeichnung',
+      'Substanzname',
+      'Chemischer Name',
+    ],
+    mdlNumber: ['MDL-Nummer'],
+    compoundId: ['Verbindungs-ID', 'Substanz-ID'],
+    smiles: ['Struktur'],
+    molfile: ['Mol-Datei'],
+    molFormula: ['Summenformel', 'Molekularformel'],
+    molWeight: ['Molekulargewicht', 'Molmasse', 'Molare Masse'],
+    saltData: ['Salz', 'Salzform'],
+    purity: ['Reinheit', 'Gehalt'],
+    chiralPurity: ['Chirale Reinheit', 'Enantiomerenreinheit'],
+    packageSize: ['Packungsgröße', 'Gebindegröße', 'Menge', 'Inhalt', 'Verpackung'],
+    unitPrice: ['Preis', 'Stückpreis', 'Einzelpreis', 'Listenpreis'],
+    inventoryAvailable: ['Lagerbestand', 'Bestand', 'Verfügbarkeit', 'Verfügbar'],
+    leadTime: ['Lieferzeit'],
+    moq: ['Mindestbestellmenge'],
+    vendorName: ['Lieferant', 'Hersteller', 'Anbieter'],
+    countryOfOrigin: ['Ursprungsland', 'Herkunftsland'],
+    storageConditions: ['Lagerbedingungen', 'Lagerung'],
+    appearance: ['Aussehen'],
+    solubility: ['Löslichkeit'],
+    shelfLife: ['Haltbarkeit'],
+    physicalForm: ['Physikalische Form', 'Darreichungsform'],
+    notes: ['Bemerkung', 'Bemerkungen', 'Hinweise', 'Anmerkungen', 'Kommentar'],
+    sdsAvailable: ['SDB verfügbar', 'Sicherheitsdatenblatt'],
+    coaAvailable: ['Analysenzertifikat'],
+    customSynthesis: ['Auftragssynthese', 'Kundensynthese'],
+    retestOrExpiry: ['Verfallsdatum', 'Ablaufdatum', 'Nachtestdatum'],
+    hsCode: ['Zolltarifnummer'],
+    hazmat: ['Gefahrgut'],
+    plateId: ['Platten-ID', 'Plattennummer'],
+    well: ['Vertiefung', 'Well-Position'],
+    row: ['Zeile', 'Reihe'],
+    column: ['Spalte'],
+    libraryName: ['Bibliothek', 'Bibliotheksname'],
+    libraryId: ['Bibliotheks-ID'],
+    targetName: ['Zielstruktur'],
+    pathway: ['Signalweg'],
+    application: ['Anwendung', 'Verwendung'],
+    description: ['Beschreibung', 'Kurzbeschreibung'],
+    moleculeType: ['Molekültyp'],
+    alias: ['Synonyme'],
+    mechanismOfAction: ['Wirkmechanismus'],
+    concentration: ['Konzentration'],
+    volume: ['Volumen'],
+    solvent: ['Lösungsmittel'],
+    controlType: ['Kontrolltyp', 'Kontrolle'],
+    batchId: ['Charge', 'Chargennummer', 'Los'],
+    warehouseCode: ['Lagercode', 'Lagernummer'],
+    warehouseName: ['Lagername'],
+    warehouseCountry: ['Lagerland'],
+    warehouseCity: ['Lagerstadt'],
+    warehouseLeadTimeDays: ['Lieferzeit Lager'],
+    warehouseStockQty: ['Bestand je Lager'],
+    warehousePrice: ['Lagerpreis'],
+  },
+  keywords: {
+    catalogNumber: ['artikelnummer', 'artikelnr'],
+    unitPrice: ['preis'],
+    inventoryAvailable: ['bestand'],
+    leadTime: ['lieferzeit'],
+    purity: ['reinheit'],
+  },
+};
+
+const RU: HeaderSynonymPack = {
+  language: 'ru',
+  synonyms: {
+    catalogNumber: [
+      'Каталожный номер',
+      'Кат. номер',
+      'Кат. №',
+      'Номер по каталогу',
+      'Артикул',
+      'Код товара',
+    ],
+    cas: ['CAS номер', 'Номер CAS'],
+    inchiKey: ['Ключ InChI'],
+    productName: [
+      'Наименование',
+      'Название',
+      'Название продукта',
+      'Наименование товара',
+      'Химическое название',
+    ],
+    mdlNumber: ['MDL номер', 'Номер MDL'],
+    compoundId: ['ID соединения', 'Код соединения'],
+    smiles: ['Структура'],
+    molfile: ['Mol-файл'],
+    molFormula: ['Брутто-формула', 'Молекулярная формула', 'Формула'],
+    molWeight: ['Молекулярная масса', 'Мол. масса', 'Молярная масса'],
+    saltData: ['Соль', 'Форма соли'],
+    purity: ['Чистота', 'Содержание'],
+    chiralPurity: ['Хиральная чистота', 'Энантиомерная чистота'],
+    packageSize: ['Фасовка', 'Упаковка', 'Количество', 'Объем упаковки'],
+    unitPrice: ['Цена', 'Стоимость', 'Цена за единицу'],
+    inventoryAvailable: ['Наличие', 'Остаток', 'Количество на складе'],
+    leadTime: ['Срок поставки'],
+    moq: ['Минимальный заказ'],
+    vendorName: ['Поставщик', 'Производитель'],
+    countryOfOrigin: ['Страна происхождения'],
+    storageConditions: ['Условия хранения'],
+    appearance: ['Внешний вид'],
+    solubility: ['Растворимость'],
+    shelfLife: ['Срок хранения'],
+    physicalForm: ['Форма', 'Агрегатное состояние'],
+    notes: ['Примечание', 'Примечания', 'Комментарий'],
+    sdsAvailable: ['Наличие SDS', 'Паспорт безопасности'],
+    coaAvailable: ['Наличие COA', 'Сертификат анализа'],
+    customSynthesis: ['Заказной синтез'],
+    retestOrExpiry: ['Срок годности', 'Дата истечения срока'],
+    hsCode: ['Код ТН ВЭД'],
+    hazmat: ['Опасный груз'],
+    plateId: ['Номер планшета', 'ID планшета'],
+    well: ['Лунка', 'Позиция лунки'],
+    row: ['Ряд', 'Строка'],
+    column: ['Столбец', 'Колонка'],
+    libraryName: ['Библиотека', 'Название библиотеки'],
+    libraryId: ['ID библиотеки'],
+    targetName: ['Мишень'],
+    pathway: ['Сигнальный путь'],
+    application: ['Применение'],
+    description: ['Описание'],
+    moleculeType: ['Тип молекулы'],
+    alias: ['Синонимы'],
+    mechanismOfAction: ['Механизм действия'],
+    concentration: ['Концентрация'],
+    volume: ['Объем'],
+    solvent: ['Растворитель'],
+    controlType: ['Тип контроля'],
+    batchId: ['Партия', 'Номер партии'],
+    warehouseCode: ['Код склада'],
+    warehouseName: ['Название склада'],
+    warehouseCountry: ['Страна склада'],
+    warehouseCity: ['Город склада'],
+    warehouseLeadTimeDays: ['Срок поставки со склада'],
+    warehouseStockQty: ['Остаток на складе'],
+    warehousePrice: ['Цена на складе'],
+  },
+  keywords: {
+    catalogNumber: ['артикул', 'каталожный'],
+    unitPrice: ['цена', 'стоимость'],
+    inventoryAvailable: ['наличие', 'остаток'],
+    purity: ['чистота'],
+  },
+};
+
+const UK: HeaderSynonymPack = {
+  language: 'uk',
+  synonyms: {
+    catalogNumber: ['Каталожний номер', 'Кат. номер', 'Артикул', 'Код товару'],
+    cas: ['Номер CAS'],
+    inchiKey: ['Ключ InChI'],
+    productName: ['Назва', 'Найменування', 'Назва продукту', 'Хімічна назва'],
+    mdlNumber: ['Номер MDL'],
+    compoundId: ['ID сполуки', 'Код сполуки'],
+    smiles: ['Структура'],
+    molfile: ['Mol-файл'],
+    molFormula: ['Брутто-формула', 'Молекулярна формула', 'Формула'],
+    molWeight: ['Молекулярна маса', 'Молярна маса'],
+    saltData: ['Сіль', 'Форма солі'],
+    purity: ['Чистота', 'Вміст'],
+    chiralPurity: ['Хіральна чистота', 'Енантіомерна чистота'],
+    packageSize: ['Фасування', 'Упаковка', 'Кількість'],
+    unitPrice: ['Ціна', 'Вартість', 'Ціна за одиницю'],
+    inventoryAvailable: ['Наявність', 'Залишок'],
+    leadTime: ['Термін поставки'],
+    moq: ['Мінімальне замовлення'],
+    vendorName: ['Постачальник', 'Виробник'],
+    countryOfOrigin: ['Країна походження'],
+    storageConditions: ['Умови зберігання'],
+    appearance: ['Зовнішній вигляд'],
+    solubility: ['Розчинність'],
+    shelfLife: ['Термін зберігання'],
+    physicalForm: ['Форма', 'Агрегатний стан'],
+    notes: ['Примітка', 'Примітки', 'Коментар'],
+    sdsAvailable: ['Наявність SDS', 'Паспорт безпеки'],
+    coaAvailable: ['Наявність COA', 'Сертифікат аналізу'],
+    customSynthesis: ['Синтез на замовлення'],
+    retestOrExpiry: ['Термін придатності'],
+    hsCode: ['Код УКТ ЗЕД'],
+    hazmat: ['Небезпечний вантаж'],
+    plateId: ['Номер планшета', 'ID планшета'],
+    well: ['Лунка', 'Позиція лунки'],
+    row: ['Ряд', 'Рядок'],
+    column: ['Стовпець', 'Колонка'],
+    libraryName: ['Бібліотека', 'Назва бібліотеки'],
+    libraryId: ['ID бібліотеки'],
+    targetName: ['Мішень'],
+    pathway: ['Сигнальний шлях'],
+    application: ['Застосування'],
+    description: ['Опис'],
+    moleculeType: ['Тип молекули'],
+    alias: ['Синоніми'],
+    mechanismOfAction: ['Механізм дії'],
+    concentration: ['Концентрація'],
+    volume: ["Об'єм"],
+    solvent: ['Розчинник'],
+    controlType: ['Тип контролю'],
+    batchId: ['Партія', 'Номер партії'],
+    warehouseCode: ['Код складу'],
+    warehouseName: ['Назва складу'],
+    warehouseCountry: ['Країна складу'],
+    warehouseCity: ['Місто складу'],
+    warehouseLeadTimeDays: ['Термін поставки зі складу'],
+    warehouseStockQty: ['Залишок на складі'],
+    warehousePrice: ['Ціна на складі'],
+  },
+  keywords: {
+    catalogNumber: ['артикул', 'каталожний'],
+    unitPrice: ['ціна', 'вартість'],
+    inventoryAvailable: ['наявність', 'залишок'],
+    purity: ['чистота'],
+  },
+};
+
+const FR: HeaderSynonymPack = {
+  language: 'fr',
+  synonyms: {
+    catalogNumber: ['Référence', 'Réf.', 'Numéro de catalogue', 'N° catalogue', 'Code article'],
+    cas: ['Numéro CAS', 'N° CAS'],
+    inchiKey: ['Clé InChI'],
+    productName: ['Nom', 'Nom du produit', 'Désignation', 'Nom chimique'],
+    mdlNumber: ['Numéro MDL'],
+    compoundId: ['Identifiant du composé', 'ID composé'],
+    smiles: ['Structure chimique'],
+    molfile: ['Fichier mol'],
+    molFormula: ['Formule brute', 'Formule moléculaire', 'Formule'],
+    molWeight: ['Masse molaire', 'Poids moléculaire', 'Masse moléculaire'],
+    saltData: ['Sel', 'Forme saline'],
+    purity: ['Pureté', 'Teneur'],
+    chiralPurity: ['Pureté chirale', 'Pureté énantiomérique'],
+    packageSize: ['Conditionnement', "Taille de l'emballage", 'Quantité'],
+    unitPrice: ['Prix', 'Prix unitaire', 'Tarif'],
+    inventoryAvailable: ['Stock disponible', 'Disponibilité'],
+    leadTime: ['Délai de livraison', 'Délai'],
+    moq: ['Quantité minimale de commande'],
+    vendorName: ['Fournisseur', 'Fabricant'],
+    countryOfOrigin: ["Pays d'origine"],
+    storageConditions: ['Conditions de stockage', 'Stockage', 'Conservation'],
+    appearance: ['Aspect'],
+    solubility: ['Solubilité'],
+    shelfLife: ['Durée de conservation'],
+    physicalForm: ['Forme physique', 'Forme'],
+    notes: ['Remarques', 'Commentaires'],
+    sdsAvailable: ['FDS disponible', 'FDS'],
+    coaAvailable: ["Certificat d'analyse"],
+    customSynthesis: ['Synthèse à façon', 'Synthèse sur mesure'],
+    retestOrExpiry: ['Date de péremption', "Date d'expiration", 'Date de recontrôle'],
+    hsCode: ['Code SH', 'Code douanier'],
+    hazmat: ['Matière dangereuse', 'Marchandise dangereuse'],
+    plateId: ['Plaque', 'ID plaque', 'Numéro de plaque'],
+    well: ['Puits', 'Position du puits'],
+    row: ['Ligne', 'Rangée'],
+    column: ['Colonne'],
+    libraryName: ['Chimiothèque', 'Nom de la bibliothèque'],
+    libraryId: ['ID bibliothèque'],
+    targetName: ['Cible'],
+    pathway: ['Voie de signalisation', 'Voie'],
+    application: ['Utilisation'],
+    description: ['Descriptif'],
+    moleculeType: ['Type de molécule'],
+    alias: ['Synonymes'],
+    mechanismOfAction: ["Mécanisme d'action"],
+    concentration: ['Concentration'],
+    volume: ['Volume'],
+    solvent: ['Solvant'],
+    controlType: ['Type de contrôle', 'Contrôle'],
+    batchId: ['Numéro de lot'],
+    warehouseCode: ['Code entrepôt'],
+    warehouseName: ["Nom de l'entrepôt"],
+    warehouseCountry: ["Pays de l'entrepôt"],
+    warehouseCity: ["Ville de l'entrepôt"],
+    warehouseLeadTimeDays: ['Délai entrepôt'],
+    warehouseStockQty: ['Stock entrepôt'],
+    warehousePrice: ['Prix entrepôt'],
+  },
+  keywords: {
+    unitPrice: ['prix'],
+    purity: ['pureté'],
+  },
+};
+
+const ES: HeaderSynonymPack = {
+  language: 'es',
+  synonyms: {
+    catalogNumber: ['Referencia', 'Ref.', 'Número de catálogo', 'Código', 'Código de producto'],
+    cas: ['Número CAS', 'Nº CAS'],
+    inchiKey: ['Clave InChI'],
+    productName: ['Nombre', 'Nombre del producto', 'Nombre químico', 'Producto'],
+    mdlNumber: ['Número MDL'],
+    compoundId: ['ID del compuesto', 'Código del compuesto'],
+    smiles: ['Estructura'],
+    molfile: ['Archivo mol'],
+    molFormula: ['Fórmula molecular', 'Fórmula'],
+    molWeight: ['Peso molecular', 'Masa molecular', 'Masa molar'],
+    saltData: ['Sal', 'Forma salina'],
+    purity: ['Pureza'],
+    chiralPurity: ['Pureza quiral', 'Pureza enantiomérica'],
+    packageSize: ['Presentación', 'Envase', 'Tamaño del envase', 'Cantidad'],
+    unitPrice: ['Precio', 'Precio unitario', 'Coste', 'Costo'],
+    inventoryAvailable: ['Existencias', 'Stock disponible', 'Disponibilidad', 'Inventario'],
+    leadTime: ['Plazo de entrega'],
+    moq: ['Pedido mínimo', 'Cantidad mínima de pedido'],
+    vendorName: ['Proveedor', 'Fabricante'],
+    countryOfOrigin: ['País de origen'],
+    storageConditions: ['Condiciones de almacenamiento', 'Almacenamiento'],
+    appearance: ['Aspecto', 'Apariencia'],
+    solubility: ['Solubilidad'],
+    shelfLife: ['Vida útil'],
+    physicalForm: ['Forma física', 'Forma'],
+    notes: ['Notas', 'Observaciones', 'Comentarios'],
+    sdsAvailable: ['FDS disponible', 'Hoja de seguridad'],
+    coaAvailable: ['Certificado de análisis'],
+    customSynthesis: ['Síntesis a medida', 'Síntesis personalizada'],
+    retestOrExpiry: ['Fecha de caducidad', 'Fecha de vencimiento', 'Fecha de reanálisis'],
+    hsCode: ['Código arancelario', 'Código SA'],
+    hazmat: ['Mercancía peligrosa', 'Material peligroso'],
+    plateId: ['Placa', 'ID de placa', 'Número de placa'],
+    well: ['Pocillo', 'Posición del pocillo'],
+    row: ['Fila'],
+    column: ['Columna'],
+    libraryName: ['Quimioteca', 'Nombre de la biblioteca'],
+    libraryId: ['ID de biblioteca'],
+    targetName: ['Diana'],
+    pathway: ['Vía de señalización'],
+    application: ['Aplicación', 'Uso'],
+    description: ['Descripción'],
+    moleculeType: ['Tipo de molécula'],
+    alias: ['Sinónimos'],
+    mechanismOfAction: ['Mecanismo de acción'],
+    concentration: ['Concentración'],
+    volume: ['Volumen'],
+    solvent: ['Disolvente', 'Solvente'],
+    controlType: ['Tipo de control'],
+    batchId: ['Lote', 'Número de lote'],
+    warehouseCode: ['Código de almacén'],
+    warehouseName: ['Nombre del almacén'],
+    warehouseCountry: ['País del almacén'],
+    warehouseCity: ['Ciudad del almacén'],
+    warehouseLeadTimeDays: ['Plazo del almacén'],
+    warehouseStockQty: ['Stock del almacén'],
+    warehousePrice: ['Precio del almacén'],
+  },
+  keywords: {
+    unitPrice: ['precio'],
+    inventoryAvailable: ['existencias'],
+    purity: ['pureza'],
+  },
+};
+
+export const BUILT_IN_SYNONYM_PACKS: HeaderSynonymPack[] = [ZH, JA, DE, RU, UK, FR, ES];
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createImportJobRegistry } from './importJobRegistry';
+import { CatalogImportApiConfig } from './catalogImportApi';
+import { StatusStreamConnector, StatusStreamHandlers } from './statusStream';
+import { CatalogImportStatus } from './types';
+
+/** Connector standing in for EventSource/WebSocket; tests drive the handlers */
+function createFakeConnector() {
+  const streams: { url: string; handlers: StatusStreamHandlers; close: () => void }[] = [];
+  const connector: StatusStreamConnector = vi.fn((url, _transport, handlers) => {
+    const stream = { url, handlers, close: vi.fn() };
+    streams.push(stream);
+
+    return stream;
+  });
+
+  return { connector, streams };
+}
+
+const runningStatus: CatalogImportStatus = {
+  jobId: 'job-1',
+  organizationId: 'org-1',
+  state: 'active',
+  progressPct: 10,
+  progress: {
+    total: 100,
+    processed: 10,
+    inserted: 0,
+    insertedCompounds: 0,
+    updated: 0,
+    errored: 0,
+    enqueuedAt: '2026-01-01T00:00:00Z',
+  },
+};
+
+function apiConfig(connector: StatusStreamConnector): CatalogImportApiConfig {
+  return {
+    startImportUrl: '/imports',
+    getStatusUrl: (jobId) => `/imports/${jobId}`,
+    getActiveImportsUrl: (organizationId) => `/organizations/${organizationId}/imports`,
+    previewHeadersUrl: '/imports/preview',
+    statusStreamUrl: (jobId) => `https://api.example.com/imports/${jobId}/stream`,
+    statusStreamConnector: connector,
+  };
+}
+
+describe('import job registry with a status stream', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('maps stream messages into the job status without polling', async () => {
+    const { connector, streams } = createFakeConnector();
+    const registry = createImportJobRegistry(apiConfig(connector));
+    registry.track('job-1', { status: runningStatus });
+    const stop = registry.start();
+
+    expect(streams).toHaveLength(1);
+    expect(streams[0].url).toBe('https://api.example.com/imports/job-1/stream');
+
+    streams[0].handlers.onMessage({
+      jobId: 'job-1',
+      organizationId: 'org-1',
+      state: 'active',
+      progressPct: 55,
+      total: 100,
+      valid: 50,
+      invalid: 5,
+      upsertedProducts: 40,
+      upsertedPackages: 10,
+      enqueuedAt: '2026-01-01T00:00:00Z',
+    });
+
+    const { status } = registry.getJob('job-1')!;
+    expect(status?.progressPct).toBe(55);
+    expect(status?.progress).toMatchObject({
+      total: 100,
+      processed: 55,
+      errored: 5,
+      inserted: 40,
+      updated: 10,
+    });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('closes the stream once the job finishes', () => {
+    const { connector, streams } = createFakeConnector();
+    const registry = createImportJobRegistry(apiConfig(connector));
+    registry.track('job-1', { status: runningStatus });
+    const stop = registry.start();
+
+    streams[0].handlers.onMessage({ jobId: 'job-1', state: 'completed', progressPct: 100 });
+
+    expect(registry.getJob('job-1')?.status?.state).toBe('completed');
+    expect(streams[0].close).toHaveBeenCalled();
+    stop();
+  });
+
+  it('falls back to polling when the stream disconnects', async () => {
+    const { connector, streams } = createFakeConnector();
+    const registry = createImportJobRegistry(apiConfig(connector));
+    registry.track('job-1', { status: runningStatus });
+    const stop = registry.start();
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ jobId: 'job-1', state: 'active', progressPct: 70 }),
+    });
+
+    streams[0].handlers.onDisconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledWith('/imports/job-1', expect.anything());
+    expect(registry.getJob('job-1')?.status?.progressPct).toBe(70);
+    // Polling continues; the dead stream is not reopened
+    expect(connector).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('keeps polling after a cancel when the final status fetch fails', async () => {
+    const { connector, streams } = createFakeConnector();
+    const registry = createImportJobRegistry({
+      ...apiConfig(connector),
+      cancelImportUrl: (jobId) => `/imports/${jobId}/cancel`,
+      pollingPolicy: { activeIntervalMs: 1000 },
+    });
+    registry.track('job-1', { status: runningStatus });
+    const stop = registry.start();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ cancelled: true }) })
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ jobId: 'job-1', state: 'failed', progressPct: 10 }),
+      });
+
+    await expect(registry.cancel('job-1')).resolves.toBe(true);
+    expect(streams[0].close).toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(registry.getJob('job-1')?.status?.state).toBe('failed');
+    expect(registry.getJob('job-1')?.isCancelling).toBe(false);
+    stop();
+  });
+});
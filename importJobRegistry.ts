@@ -0,0 +1,384 @@
+/* eslint-disable no-console */
+/**
+ * Registry that tracks any number of catalog import jobs at once.
+ *
+ * All jobs share a single timer: each job keeps its own next-poll time
+ * (following the polling policy) and the timer always fires for the earliest
+ * one, so ten running imports cost one timer instead of ten intervals. Jobs
+ * with a status stream are updated by push and only join the schedule when
+ * their stream disconnects.
+ *
+ * The registry holds no React state; React code subscribes to it with
+ * useSyncExternalStore (see CatalogImportJobsProvider and useCatalogImport).
+ */
+import { CatalogImportStatus, StartCatalogImportParams } from './types';
+import {
+  CatalogImportApiConfig,
+  fetchImportStatus,
+  isImportRunning,
+  mapApiResponseToStatus,
+  requestCancelImport,
+} from './catalogImportApi';
+import {
+  connectStatusStream,
+  getStatusStreamTransport,
+  StatusStreamConnection,
+} from './statusStream';
+import {
+  CatalogImportPollingPolicy,
+  getPollDelay,
+  getRetryDelay,
+  isTransientError,
+  resolvePollingPolicy,
+} from './pollingPolicy';
+
+/** Display information attached to a job by whoever started or reattached it. */
+export interface CatalogImportJobMeta {
+  fileName?: string;
+  organizationName?: string;
+  /** Parameters the job was started with, when it was started from this client */
+  params?: StartCatalogImportParams;
+}
+
+/** Snapshot of a tracked job. Replaced (never mutated) on every change. */
+export interface CatalogImportJob {
+  jobId: string;
+  /** Latest known status, null until the first response arrives */
+  status: CatalogImportStatus | null;
+  /** Polling failure surfaced after transient retries were exhausted */
+  error: string | null;
+  isCancelling: boolean;
+  meta: CatalogImportJobMeta;
+  /** When the job was added to the registry (ms since epoch) */
+  trackedAt: number;
+}
+
+export interface TrackImportJobOptions {
+  /** Status already known to the caller (e.g. from getActiveImports) */
+  status?: CatalogImportStatus;
+  meta?: CatalogImportJobMeta;
+}
+
+export interface CatalogImportJobRegistry {
+  /** All tracked jobs, newest first. Same array instance until something changes. */
+  getJobs: () => CatalogImportJob[];
+  getJob: (jobId: string) => CatalogImportJob | undefined;
+  subscribe: (listener: () => void) => () => void;
+  /** Start tracking a job; tracking an already tracked job only merges its meta */
+  track: (jobId: string, options?: TrackImportJobOptions) => void;
+  /** Fetch a job's status now. Updates the job when it is tracked. */
+  refresh: (jobId: string) => Promise<CatalogImportStatus>;
+  /** Cancel a job on the backend and stop polling it */
+  cancel: (jobId: string) => Promise<boolean>;
+  /** Stop tracking a job and forget it */
+  reset: (jobId: string) => void;
+  setApiConfig: (apiConfig: CatalogImportApiConfig) => void;
+  /**
+   * Begin polling/streaming. Returns a function that stops all timers and
+   * streams again; tracked jobs are kept and resume on the next start.
+   */
+  start: () => () => void;
+}
+
+/** Scheduler bookkeeping for a tracked job. */
+interface JobSchedule {
+  /** When the job is due for its next poll, null when it is not scheduled */
+  nextPollAt: number | null;
+  /** Consecutive polls that returned `queued`, drives the queued backoff */
+  queuedPolls: number;
+  retryAttempt: number;
+  inFlight: boolean;
+  stream: StatusStreamConnection | null;
+  /** The stream disconnected; poll this job from now on */
+  streamFailed: boolean;
+}
+
+export function createImportJobRegistry(
+  initialApiConfig: CatalogImportApiConfig,
+): CatalogImportJobRegistry {
+  let apiConfig = initialApiConfig;
+  let policy: CatalogImportPollingPolicy = resolvePollingPolicy(apiConfig.pollingPolicy);
+  let active = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const jobs = new Map<string, CatalogImportJob>();
+  const schedules = new Map<string, JobSchedule>();
+  const listeners = new Set<() => void>();
+  let snapshot: CatalogImportJob[] = [];
+
+  const emit = () => {
+    snapshot = [...jobs.values()].sort((a, b) => b.trackedAt - a.trackedAt);
+    listeners.forEach((listener) => listener());
+  };
+
+  const updateJob = (jobId: string, patch: Partial<CatalogImportJob>) => {
+    const job = jobs.get(jobId);
+    if (!job) return;
+    jobs.set(jobId, { ...job, ...patch });
+    emit();
+  };
+
+  const isHidden = () =>
+    policy.pauseWhenHidden &&
+    typeof document !== 'undefined' &&
+    document.visibilityState === 'hidden';
+
+  const closeStream = (schedule: JobSchedule) => {
+    if (schedule.stream) {
+      schedule.stream.close();
+      schedule.stream = null;
+    }
+  };
+
+  /** Arm the shared timer for the earliest due job. */
+  const reschedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!active || isHidden()) return;
+
+    let earliest: number | null = null;
+    schedules.forEach((schedule) => {
+      if (schedule.inFlight || schedule.nextPollAt === null) return;
+      if (earliest === null || schedule.nextPollAt < earliest) {
+        earliest = schedule.nextPollAt;
+      }
+    });
+    if (earliest === null) return;
+
+    timer = setTimeout(tick, Math.max(0, earliest - Date.now()));
+  };
+
+  const openStream = (jobId: string, schedule: JobSchedule) => {
+    const { statusStreamUrl, statusStreamConnector } = apiConfig;
+    if (!statusStreamUrl) return;
+
+    const url = statusStreamUrl(jobId);
+    const connect = statusStreamConnector ?? connectStatusStream;
+    console.log('[IMPORT_DEBUG] Opening status stream:', url);
+
+    schedule.stream = connect(url, getStatusStreamTransport(url), {
+      onMessage: (data) => {
+        if (schedules.get(jobId) !== schedule) return;
+        applyStatus(jobId, mapApiResponseToStatus(data));
+      },
+      onDisconnect: () => {
+        console.log('[IMPORT_DEBUG] Status stream disconnected, falling back to polling');
+        schedule.stream = null;
+        if (schedules.get(jobId) !== schedule) return;
+        schedule.streamFailed = true;
+        schedule.nextPollAt = Date.now();
+        reschedule();
+      },
+    });
+  };
+
+  /** Decide how a job gets its next update after its status changed. */
+  const planJob = (jobId: string) => {
+    const schedule = schedules.get(jobId);
+    const job = jobs.get(jobId);
+    if (!schedule || !job) return;
+
+    if (job.status && !isImportRunning(job.status)) {
+      closeStream(schedule);
+      schedule.nextPollAt = null;
+      schedule.queuedPolls = 0;
+    } else if (active && job.status && apiConfig.statusStreamUrl && !schedule.streamFailed) {
+      if (!schedule.stream) openStream(jobId, schedule);
+      schedule.nextPollAt = null;
+    } else if (!job.status) {
+      // Nothing known yet: fetch as soon as possible
+      schedule.nextPollAt = Date.now();
+    } else {
+      schedule.nextPollAt =
+        Date.now() + getPollDelay(job.status.state, schedule.queuedPolls, policy);
+    }
+
+    reschedule();
+  };
+
+  const applyStatus = (jobId: string, status: CatalogImportStatus) => {
+    const schedule = schedules.get(jobId);
+    if (!schedule) return;
+
+    schedule.queuedPolls = status.state === 'queued' ? schedule.queuedPolls + 1 : 0;
+    updateJob(jobId, { status, error: null });
+    planJob(jobId);
+  };
+
+  const pollJob = async (jobId: string) => {
+    const schedule = schedules.get(jobId);
+    if (!schedule) return;
+
+    schedule.inFlight = true;
+    schedule.nextPollAt = null;
+
+    try {
+      const status = await fetchImportStatus(apiConfig, jobId);
+      if (schedules.get(jobId) !== schedule) return;
+      schedule.retryAttempt = 0;
+      schedule.inFlight = false;
+      applyStatus(jobId, status);
+    } catch (err) {
+      if (schedules.get(jobId) !== schedule) return;
+      schedule.inFlight = false;
+
+      const transient = isTransientError(err);
+      if (transient && schedule.retryAttempt < policy.maxRetries) {
+        const delay = getRetryDelay(schedule.retryAttempt, policy);
+        schedule.retryAttempt += 1;
+        console.warn(
+          `[IMPORT_DEBUG] Status poll for ${jobId} failed, retry ${schedule.retryAttempt}/${policy.maxRetries} in ${delay}ms`,
+          err,
+        );
+        schedule.nextPollAt = Date.now() + delay;
+      } else {
+        console.error('Error polling catalog import status:', err);
+        updateJob(jobId, {
+          error: err instanceof Error ? err.message : 'Failed to get import status',
+        });
+        // Keep trying transient failures in the background so the job recovers with the API
+        schedule.retryAttempt = 0;
+        schedule.nextPollAt = transient ? Date.now() + policy.retryMaxDelayMs : null;
+      }
+      reschedule();
+    }
+  };
+
+  function tick() {
+    timer = null;
+    if (isHidden()) return;
+
+    const now = Date.now();
+    schedules.forEach((schedule, jobId) => {
+      if (!schedule.inFlight && schedule.nextPollAt !== null && schedule.nextPollAt <= now) {
+        pollJob(jobId);
+      }
+    });
+    reschedule();
+  }
+
+  const handleVisibilityChange = () => {
+    // Hidden: reschedule() clears the timer. Visible: overdue jobs poll right away.
+    reschedule();
+  };
+
+  return {
+    getJobs: () => snapshot,
+
+    getJob: (jobId) => jobs.get(jobId),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    track: (jobId, options = {}) => {
+      const existing = jobs.get(jobId);
+      if (existing) {
+        jobs.set(jobId, {
+          ...existing,
+          status: options.status ?? existing.status,
+          meta: { ...existing.meta, ...options.meta },
+        });
+        emit();
+        planJob(jobId);
+
+        return;
+      }
+
+      jobs.set(jobId, {
+        jobId,
+        status: options.status ?? null,
+        error: null,
+        isCancelling: false,
+        meta: options.meta ?? {},
+        trackedAt: Date.now(),
+      });
+      schedules.set(jobId, {
+        nextPollAt: null,
+        queuedPolls: 0,
+        retryAttempt: 0,
+        inFlight: false,
+        stream: null,
+        streamFailed: false,
+      });
+      emit();
+      planJob(jobId);
+    },
+
+    refresh: async (jobId) => {
+      const status = await fetchImportStatus(apiConfig, jobId);
+      if (jobs.has(jobId)) applyStatus(jobId, status);
+
+      return status;
+    },
+
+    cancel: async (jobId) => {
+      updateJob(jobId, { isCancelling: true });
+      try {
+        const cancelled = await requestCancelImport(apiConfig, jobId);
+        const schedule = schedules.get(jobId);
+        if (cancelled && schedule) {
+          // Stop streaming and polling, then pick up the final state
+          closeStream(schedule);
+          schedule.nextPollAt = null;
+          reschedule();
+          try {
+            const status = await fetchImportStatus(apiConfig, jobId);
+            if (jobs.has(jobId)) applyStatus(jobId, status);
+          } catch (err) {
+            // The cancel went through; keep polling until the job reports its final state
+            console.warn(`[IMPORT_DEBUG] Status fetch after cancelling ${jobId} failed`, err);
+            if (schedules.get(jobId) === schedule) {
+              const state = jobs.get(jobId)?.status?.state ?? 'active';
+              schedule.nextPollAt = Date.now() + getPollDelay(state, schedule.queuedPolls, policy);
+              reschedule();
+            }
+          }
+        }
+
+        return cancelled;
+      } finally {
+        updateJob(jobId, { isCancelling: false });
+      }
+    },
+
+    reset: (jobId) => {
+      const schedule = schedules.get(jobId);
+      if (schedule) closeStream(schedule);
+      schedules.delete(jobId);
+      if (jobs.delete(jobId)) emit();
+      reschedule();
+    },
+
+    setApiConfig: (nextApiConfig) => {
+      apiConfig = nextApiConfig;
+      policy = resolvePollingPolicy(nextApiConfig.pollingPolicy);
+    },
+
+    start: () => {
+      active = true;
+      if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+      }
+      jobs.forEach((_job, jobId) => planJob(jobId));
+
+      return () => {
+        active = false;
+        if (typeof document !== 'undefined') {
+          document.removeEventListener('visibilitychange', handleVisibilityChange);
+        }
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        schedules.forEach((schedule) => closeStream(schedule));
+      };
+    },
+  };
+}
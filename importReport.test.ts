@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportReport, escapeCsvCell, serializeImportReportCsv } from './importReport';
+import { CatalogImportStatus } from './types';
+
+const status: CatalogImportStatus = {
+  jobId: 'job-1',
+  organizationId: 'org-1',
+  state: 'completed',
+  progressPct: 100,
+  progress: {
+    total: 2,
+    processed: 2,
+    inserted: 2,
+    insertedCompounds: 0,
+    updated: 0,
+    errored: 0,
+    enqueuedAt: '2026-01-01T00:00:00Z',
+  },
+};
+
+describe('import report mapping', () => {
+  const report = buildImportReport({
+    status,
+    params: {
+      fileId: 'file-1',
+      mode: 'merge',
+      importKind: 'BUILDING_BLOCK',
+      columnMapping: {
+        mappings: [
+          { fileColumn: 'Cat No', mapTo: 'catalogNumber' },
+          {
+            fileColumn: 'Pack',
+            mapTo: 'packageSize',
+            transforms: [{ type: 'split', delimiter: '/', index: 0 }],
+          },
+        ],
+      },
+      constantValues: { vendorName: 'Enamine' },
+    },
+  });
+
+  it('keeps transforms and constant values in the job', () => {
+    expect(report.job.columnMapping?.[1].transforms).toEqual([
+      { type: 'split', delimiter: '/', index: 0 },
+    ]);
+    expect(report.job.constantValues).toEqual({ vendorName: 'Enamine' });
+  });
+
+  it('lists transforms and constant values in the CSV', () => {
+    const lines = serializeImportReportCsv(report).split('\r\n');
+
+    expect(lines).toContain('fileColumn,mapTo,transforms');
+    expect(lines).toContain('Cat No,catalogNumber,');
+    expect(lines).toContain('Pack,packageSize,"Split on ""/"", part 1"');
+    expect(lines).toContain('mapTo,constantValue');
+    expect(lines).toContain('vendorName,Enamine');
+  });
+});
+
+describe('escapeCsvCell', () => {
+  it.each([
+    ['=SUM(A1:A2)', "'=SUM(A1:A2)"],
+    ['+cmd', "'+cmd"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tdata', "'\tdata"],
+    ['\rdata', `"'\rdata"`],
+  ])('prefixes formula text %j with an apostrophe', (value, escaped) => {
+    expect(escapeCsvCell(value)).toBe(escaped);
+  });
+
+  it('quotes cells with quotes and separators', () => {
+    expect(escapeCsvCell('2" vial, amber')).toBe('"2"" vial, amber"');
+    expect(escapeCsvCell('=A1,"x"')).toBe(`"'=A1,""x"""`);
+  });
+
+  it('leaves numbers and signed numeric text as they are', () => {
+    expect(escapeCsvCell(-5)).toBe('-5');
+    expect(escapeCsvCell(1.5)).toBe('1.5');
+    expect(escapeCsvCell('-5')).toBe('-5');
+    expect(escapeCsvCell('+1.5e3')).toBe('+1.5e3');
+    expect(escapeCsvCell('-.5')).toBe('-.5');
+  });
+
+  it('writes empty cells for missing values', () => {
+    expect(escapeCsvCell(undefined)).toBe('');
+    expect(escapeCsvCell(null)).toBe('');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Client-side import report (CSV or JSON) for a finished job: job metadata,
+ * counters and every row error, e.g. to send rejected rows back to a vendor.
+ */
+
+import {
+  CatalogImportError,
+  CatalogImportKind,
+  CatalogImportMode,
+  CatalogImportStatus,
+  ColumnMappingEntry,
+  ConstantValues,
+  ScreeningMode,
+  StartCatalogImportParams,
+} from './types';
+import { describeColumnTransform } from './columnTransforms';
+
+export type ImportReportFormat = 'csv' | 'json';
+
+export interface CatalogImportReport {
+  generatedAt: string;
+  job: {
+    jobId: string;
+    organizationId: string;
+    organizationName?: string;
+    fileName?: string;
+    state: CatalogImportStatus['state'];
+    mode?: CatalogImportMode;
+    importKind?: CatalogImportKind;
+    screeningMode?: ScreeningMode;
+    libraryName?: string;
+    validateOnly?: boolean;
+    /** Mapping as sent to the backend, with column transforms */
+    columnMapping?: ColumnMappingEntry[];
+    /** Constant values as sent to the backend */
+    constantValues?: ConstantValues;
+    enqueuedAt?: string;
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+    failureReason?: string;
+  };
+  counters: {
+    total: number;
+    processed: number;
+    inserted: number;
+    insertedCompounds: number;
+    updated: number;
+    errored: number;
+  };
+  errors: CatalogImportError[];
+}
+
+export interface BuildImportReportOptions {
+  status: CatalogImportStatus;
+  /** Start parameters, when known (jobs picked up after a reload have none) */
+  params?: StartCatalogImportParams;
+  fileName?: string;
+  organizationName?: string;
+  /** Full error list; defaults to the inline sample in the status */
+  errors?: CatalogImportError[];
+}
+
+export function buildImportReport({
+  status,
+  params,
+  fileName,
+  organizationName,
+  errors,
+}: BuildImportReportOptions): CatalogImportReport {
+  const progress = status.progress;
+  const startedAt = progress?.startedAt;
+  const finishedAt = progress?.finishedAt;
+  const durationMs =
+    startedAt && finishedAt
+      ? new Date(finishedAt).getTime() - new Date(startedAt).getTime()
+      : undefined;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    job: {
+      jobId: status.jobId,
+      organizationId: status.organizationId,
+      organizationName,
+      fileName,
+      state: status.state,
+      mode: params?.mode,
+      importKind: params?.importKind,
+      screeningMode: params?.screeningMode,
+      libraryName: params?.libraryName,
+      validateOnly: status.validateOnly ?? params?.validateOnly,
+      columnMapping: params?.columnMapping?.mappings,
+      constantValues: params?.constantValues,
+      enqueuedAt: progress?.enqueuedAt || undefined,
+      startedAt,
+      finishedAt,
+      durationMs: durationMs !== undefined && Number.isFinite(durationMs) ? durationMs : undefined,
+      failureReason: status.failureReason,
+    },
+    counters: {
+      total: progress?.total ?? 0,
+      processed: progress?.processed ?? 0,
+      inserted: progress?.inserted ?? 0,
+      insertedCompounds: progress?.insertedCompounds ?? 0,
+      updated: progress?.updated ?? 0,
+      errored: progress?.errored ?? 0,
+    },
+    errors: errors ?? progress?.errors ?? [],
+  };
+}
+
+/** Leading characters that make spreadsheet apps evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Signed numbers such as "-5" or "+1.5e3" are read as numbers, not formulas */
+const NUMERIC_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+/**
+ * Escape one CSV cell. Text that a spreadsheet would run as a formula gets a
+ * leading apostrophe; cells with separators, quotes or line breaks are quoted.
+ */
+export function escapeCsvCell(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) && !NUMERIC_TEXT.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(cells: Array<string | number | undefined | null>): string {
+  return cells.map(escapeCsvCell).join(',');
+}
+
+const ERROR_COLUMNS = [
+  'row',
+  'sku',
+  'severity',
+  'code',
+  'fileColumn',
+  'mapTo',
+  'value',
+  'error',
+] as const;
+
+/**
+ * CSV with blocks separated by blank lines: job metadata and counters as
+ * field/value pairs, the column mapping with its transforms, the constant
+ * values (when any), and one line per row error.
+ */
+export function serializeImportReportCsv(report: CatalogImportReport): string {
+  const { job, counters } = report;
+  const lines: string[] = [toCsvLine(['field', 'value'])];
+
+  const metadata: Array<[string, string | number | boolean | undefined]> = [
+    ['generatedAt', report.generatedAt],
+    ['jobId', job.jobId],
+    ['organizationId', job.organizationId],
+    ['organizationName', job.organizationName],
+    ['fileName', job.fileName],
+    ['state', job.state],
+    ['mode', job.mode],
+    ['importKind', job.importKind],
+    ['screeningMode', job.screeningMode],
+    ['libraryName', job.libraryName],
+    ['validateOnly', job.validateOnly],
+    ['enqueuedAt', job.enqueuedAt],
+    ['startedAt', job.startedAt],
+    ['finishedAt', job.finishedAt],
+    ['durationMs', job.durationMs],
+    ['failureReason', job.failureReason],
+    ...Object.entries(counters),
+  ];
+  for (const [field, value] of metadata) {
+    if (value !== undefined) {
+      lines.push(toCsvLine([field, typeof value === 'boolean' ? String(value) : value]));
+    }
+  }
+
+  if (job.columnMapping && job.columnMapping.length > 0) {
+    lines.push('', toCsvLine(['fileColumn', 'mapTo', 'transforms']));
+    for (const entry of job.columnMapping) {
+      const transforms = (entry.transforms ?? []).map(describeColumnTransform).join('; ');
+      lines.push(toCsvLine([entry.fileColumn, entry.mapTo, transforms || undefined]));
+    }
+  }
+
+  const constants = Object.entries(job.constantValues ?? {});
+  if (constants.length > 0) {
+    lines.push('', toCsvLine(['mapTo', 'constantValue']));
+    for (const [kind, value] of constants) {
+      lines.push(toCsvLine([kind, value]));
+    }
+  }
+
+  lines.push('', toCsvLine([...ERROR_COLUMNS]));
+  for (const err of report.errors) {
+    lines.push(
+      toCsvLine([
+        err.row,
+        err.sku,
+        err.severity ?? 'error',
+        err.code,
+        err.fileColumn,
+        err.mapTo,
+        err.value,
+        err.error,
+      ]),
+    );
+  }
+
+  return lines.join('\r\n');
+}
+
+export function serializeImportReportJson(report: CatalogImportReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/** `vendor-file.xlsx` -> `vendor-file-import-report.csv` */
+export function getImportReportFileName(
+  report: CatalogImportReport,
+  format: ImportReportFormat,
+): string {
+  const base = report.job.fileName?.replace(/\.[^.]+$/, '') || `import-${report.job.jobId}`;
+
+  return `${base}-import-report.${format}`;
+}
+
+/**
+ * Serialize the report and hand it to the browser as a file download.
+ */
+export function downloadImportReport(report: CatalogImportReport, format: ImportReportFormat) {
+  // The BOM makes Excel read the CSV as UTF-8
+  const content =
+    format === 'csv'
+      ? `\uFEFF${serializeImportReportCsv(report)}`
+      : serializeImportReportJson(report);
+  const blob = new Blob([content], {
+    type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getImportReportFileName(report, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
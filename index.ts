@@ -25,20 +25,35 @@ export type {
   ColumnMappingKind,
   ColumnMappingEntry,
   ColumnMapping,
+  ConstantValues,
+  ColumnTransform,
+  ColumnTransformType,
+  ColumnMappingDetection,
+  MappingDetectionSource,
   HeaderPreviewColumn,
   HeaderPreviewResponse,
+  HeaderPreviewOptions,
+  ReplaceImpactPreview,
   CatalogImportError,
+  CatalogImportErrorCode,
+  CatalogImportErrorSeverity,
   CatalogImportProgress,
   CatalogImportStatus,
+  ActiveCatalogImportsResponse,
   CatalogImportConfig,
   StartCatalogImportParams,
   ValidationResult,
   MappingOptionGroup,
+  MappingCardinality,
+  ValidationIssue,
+  ValidationSeverity,
 } from './types';
 
 // Constants
 export {
   MAPPING_LABELS,
+  MAPPING_CARDINALITY,
+  CATALOG_IMPORT_ERROR_CODES,
   BUILDING_BLOCK_OPTIONS,
   SCREENING_COMPOUND_OPTIONS,
   PLATE_FORMAT_OPTIONS,
@@ -46,13 +61,234 @@ export {
 
 // Hook
 export { useCatalogImport, type CatalogImportApiConfig } from './useCatalogImport';
+export {
+  CatalogImportJobsProvider,
+  useCatalogImportJobs,
+  type CatalogImportJobsProviderProps,
+} from './CatalogImportJobsProvider';
+export {
+  createImportJobRegistry,
+  type CatalogImportJob,
+  type CatalogImportJobMeta,
+  type CatalogImportJobRegistry,
+  type TrackImportJobOptions,
+} from './importJobRegistry';
+export {
+  connectStatusStream,
+  getStatusStreamTransport,
+  type StatusStreamTransport,
+  type StatusStreamHandlers,
+  type StatusStreamConnection,
+  type StatusStreamConnector,
+} from './statusStream';
+export {
+  DEFAULT_POLLING_POLICY,
+  CatalogImportRequestError,
+  resolvePollingPolicy,
+  getPollDelay,
+  getRetryDelay,
+  isTransientError,
+  type CatalogImportPollingPolicy,
+} from './pollingPolicy';
 
 // Components
 export {
   ColumnMappingStep,
   initializeColumnMapping,
+  detectColumnMappings,
   validateMapping,
+  findDuplicateTargets,
   type ColumnMappingStepProps,
+  type ValidateMappingOptions,
+  type ChangedColumn,
 } from './ColumnMappingStep';
 
 export { CatalogImportWizard, type CatalogImportWizardProps } from './CatalogImportWizard';
+
+export {
+  previewHeadersLocally,
+  canPreviewHeadersLocally,
+  detectEncoding,
+  detectDelimitedFormat,
+  type LocalHeaderPreviewOptions,
+  type DelimitedTextFormat,
+  type TextFileEncoding,
+} from './localHeaderPreview';
+
+export {
+  parseSdf,
+  previewSdfLocally,
+  buildSdfHeaderPreview,
+  isSdfFile,
+  SDF_MOLBLOCK_COLUMN,
+  type SdfRecord,
+  type SdfParseResult,
+  type SdfPreviewOptions,
+} from './sdfReader';
+
+export { detectHeaderRowIndex, isSpreadsheetFileName } from './spreadsheetPreview';
+export {
+  SpreadsheetLayoutPicker,
+  type SpreadsheetLayoutPickerProps,
+} from './SpreadsheetLayoutPicker';
+
+export {
+  MAPPING_KINDS,
+  MAPPING_GROUP_ORDER,
+  getMappingKind,
+  getMappingKindsInGroup,
+  mapMappingKinds,
+  buildMappingOptionGroups,
+  toBackendMappingKind,
+  fromBackendMappingKind,
+  type MappingKindDefinition,
+  type MappingKindSynonyms,
+  type MappingValueType,
+  type MappingUnitFamily,
+} from './mappingKinds';
+export {
+  matchHeader,
+  normalizeHeader,
+  editDistance,
+  HEADER_SYNONYMS,
+  getHeaderSynonymEntries,
+  registerHeaderSynonymPack,
+  type HeaderSynonymEntry,
+  type HeaderSynonymPack,
+  type HeaderMatch,
+} from './headerMatching';
+export { BUILT_IN_SYNONYM_PACKS } from './headerSynonymPacks';
+export {
+  classifyColumnContent,
+  proposeKindFromContent,
+  contentScoreFor,
+  CONTENT_PROPOSAL_THRESHOLD,
+  type ContentMatch,
+} from './columnClassifier';
+export { DataPreviewGrid, type DataPreviewGridProps } from './DataPreviewGrid';
+export {
+  applyColumnTransforms,
+  previewTransformedSamples,
+  findTransformProblems,
+  describeColumnTransform,
+  createColumnTransform,
+  hasTransforms,
+  COLUMN_TRANSFORM_LABELS,
+  YES_NO_LOOKUP,
+  type TransformedSample,
+} from './columnTransforms';
+export { ColumnTransformDialog, type ColumnTransformDialogProps } from './ColumnTransformDialog';
+export { ConstantValuesEditor, type ConstantValuesEditorProps } from './ConstantValuesEditor';
+export {
+  checkValueFormat,
+  VALUE_FORMAT_CHECKS,
+  VALUE_TYPE_CHECKS,
+  isCasNumber,
+  isInchiKey,
+  isSmilesLike,
+  isMolblock,
+  isWellCoordinate,
+  isNumeric,
+  isPrice,
+  isPackageSize,
+  isPercentage,
+  isYesNoFlag,
+  isMolFormula,
+} from './valueFormats';
+
+export {
+  createLocalStorageTemplateStore,
+  createRestTemplateStore,
+  applyTemplateMapping,
+  type CatalogImportMappingTemplate,
+  type MappingTemplateCandidate,
+  type MappingTemplateConfig,
+  type MappingTemplateStore,
+  type SaveMappingTemplateInput,
+  type LocalStorageTemplateStoreOptions,
+  type RestTemplateStoreConfig,
+} from './mappingTemplates';
+export {
+  computeHeaderFingerprint,
+  diffHeaders,
+  headerSimilarity,
+  matchTemplate,
+  findBestTemplateMatch,
+  TEMPLATE_AUTO_APPLY_SIMILARITY,
+  type HeaderFingerprint,
+  type HeaderDiff,
+  type HeaderRename,
+  type TemplateMatch,
+} from './headerFingerprint';
+export { BUILT_IN_VENDOR_PROFILES } from './vendorProfiles';
+export { TemplateMatchSummary, type TemplateMatchSummaryProps } from './TemplateMatchSummary';
+export {
+  DEFAULT_MAPPING_RULES,
+  extendMappingRules,
+  evaluateMappingRules,
+  type MappingRule,
+  type MappingRuleScope,
+  type MappingRuleContext,
+  type MappingKindAlternatives,
+  type RequiredOneOfRule,
+  type MutuallyExclusiveRule,
+  type RequiresIfPresentRule,
+  type RecommendedRule,
+} from './mappingRules';
+export {
+  createLocalStorageCorrectionStore,
+  createRestCorrectionStore,
+  findMappingCorrections,
+  mergeCorrections,
+  buildLearnedMappings,
+  findStaleCorrections,
+  correctionHeaderKey,
+  serializeCorrectionsCsv,
+  downloadCorrections,
+  type MappingCorrection,
+  type MappingCorrectionInput,
+  type MappingCorrectionKey,
+  type MappingCorrectionStore,
+  type MappingCorrectionExportFormat,
+  type LearnedMappings,
+  type LocalStorageCorrectionStoreOptions,
+  type RestCorrectionStoreConfig,
+} from './mappingCorrections';
+export {
+  MappingCorrectionsAdmin,
+  type MappingCorrectionsAdminProps,
+} from './MappingCorrectionsAdmin';
+export { MappingTemplatePicker, type MappingTemplatePickerProps } from './MappingTemplatePicker';
+export {
+  SaveMappingTemplateDialog,
+  type SaveMappingTemplateDialogProps,
+} from './SaveMappingTemplateDialog';
+
+export { CatalogImportTray, type CatalogImportTrayProps } from './CatalogImportTray';
+
+export { ReplaceImpactReview, type ReplaceImpactReviewProps } from './ReplaceImpactReview';
+
+export {
+  CatalogImportErrorReport,
+  type CatalogImportErrorReportProps,
+} from './CatalogImportErrorReport';
+export { CatalogImportErrors } from './CatalogImportErrors';
+export {
+  parseErrorReport,
+  fetchErrorReport,
+  filterImportErrors,
+  sortImportErrors,
+  groupImportErrors,
+  normalizeImportError,
+  type ErrorSortDirection,
+  type ImportErrorGroup,
+} from './errorReport';
+export {
+  buildImportReport,
+  serializeImportReportCsv,
+  serializeImportReportJson,
+  downloadImportReport,
+  escapeCsvCell,
+  type CatalogImportReport,
+  type ImportReportFormat,
+} from './importReport';
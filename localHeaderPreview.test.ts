@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDelimitedFormat,
+  detectEncoding,
+  parseDelimitedRows,
+  previewHeadersLocally,
+} from './localHeaderPreview';
+
+/** File whose stream yields `chunkSize` bytes at a time, like browsers do for large files */
+function chunkedFile(bytes: Uint8Array, name = 'catalog.csv', chunkSize = 64 * 1024): File {
+  return {
+    name,
+    type: 'text/csv',
+    size: bytes.length,
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+            controller.enqueue(bytes.subarray(offset, offset + chunkSize));
+          }
+          controller.close();
+        },
+      }),
+  } as unknown as File;
+}
+
+function utf16le(text: string): Uint8Array {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+  }
+
+  return bytes;
+}
+
+/** Windows-1252 bytes for text limited to Latin-1 characters */
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (ch) => ch.charCodeAt(0));
+}
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toEqual({
+      encoding: 'utf-8',
+      bomLength: 3,
+    });
+    expect(detectEncoding(utf16le('A'))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+  });
+
+  it('tells UTF-8 from Windows-1252 without a BOM', () => {
+    expect(detectEncoding(new TextEncoder().encode('Café'))).toEqual({
+      encoding: 'utf-8',
+      bomLength: 0,
+    });
+    expect(detectEncoding(latin1('Café;2'))).toEqual({ encoding: 'windows-1252', bomLength: 0 });
+  });
+});
+
+describe('detectDelimitedFormat', () => {
+  it.each([
+    ['a,b,c\n1,2,3\n', ','],
+    ['a\tb\tc\n1\t2\t3\n', '\t'],
+    ['a;b;c\n1,5;2,5;3\n', ';'],
+    ['a|b\n1|2\n', '|'],
+  ])('detects the delimiter of %j', (text, delimiter) => {
+    expect(detectDelimitedFormat(text).delimiter).toBe(delimiter);
+  });
+
+  it('detects double and single quotes', () => {
+    expect(detectDelimitedFormat('name,cas\n"Acid, acetic",64-19-7\n').quote).toBe('"');
+    expect(detectDelimitedFormat("name;cas\n'Acid; acetic';64-19-7\n").quote).toBe("'");
+    expect(detectDelimitedFormat("name,cas\nO'Brien,1\n").quote).toBeNull();
+  });
+});
+
+describe('parseDelimitedRows', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseDelimitedRows('a,b\r\n"x, ""y""","1\n2"\r\n\r\nz,3', ',', '"')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', '1\n2'],
+      ['z', '3'],
+    ]);
+  });
+
+  it('drops the cut-off last row of an incomplete read', () => {
+    expect(parseDelimitedRows('a,b\n1,2\n3,', ',', '"', Infinity, false)).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('previewHeadersLocally', () => {
+  it('skips a UTF-8 BOM', async () => {
+    const bytes = new TextEncoder().encode('\uFEFFName,Price\nCafé,1.5\n');
+    const preview = await previewHeadersLocally(chunkedFile(bytes));
+
+    expect(preview.format).toEqual({ encoding: 'utf-8', delimiter: ',', quote: null });
+    expect(preview.columns.map((column) => column.fileColumn)).toEqual(['Name', 'Price']);
+    expect(preview.columns[0].samples).toEqual(['Café']);
+  });
+
+  it('decodes UTF-16LE with a BOM', async () => {
+    const preview = await previewHeadersLocally(chunkedFile(utf16le('Name\tPrice\r\nCafé\t2\r\n')));
+
+    expect(preview.format).toEqual({ encoding: 'utf-16le', delimiter: '\t', quote: null });
+    expect(preview.columns[0]).toEqual({ fileColumn: 'Name', samples: ['Café'] });
+  });
+
+  it('falls back to Windows-1252 when non-ASCII bytes only appear late in the file', async () => {
+    const line = 'ABC-0001;Plain ASCII product name;12.50\n';
+    const prefix = `Catalog No;Name;Price\n${line.repeat(Math.ceil(70_000 / line.length))}`;
+    const bytes = latin1(`${prefix}ABC-9999;Café;3.00\n`);
+
+    const preview = await previewHeadersLocally(chunkedFile(bytes), {
+      sampleRows: 1,
+      previewRows: 5000,
+    });
+
+    expect(preview.format).toEqual({ encoding: 'windows-1252', delimiter: ';', quote: null });
+    expect(preview.rows?.[preview.rows.length - 1]).toEqual(['ABC-9999', 'Café', '3.00']);
+  });
+});
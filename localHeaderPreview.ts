@@ -0,0 +1,308 @@
+/**
+ * In-browser header preview for delimited text files (CSV/TSV).
+ *
+ * Reads only the start of the file, detects encoding, delimiter and quoting,
+ * and returns the same HeaderPreviewResponse as the preview endpoint, so the
+ * column mapping step works the same whichever source produced it.
+ */
+
+import { HeaderPreviewColumn, HeaderPreviewResponse } from './types';
+
+export type TextFileEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface LocalHeaderPreviewOptions {
+  /** Data rows (after the header) collected as samples (default: 10) */
+  sampleRows?: number;
+  /** Data rows returned for the data preview grid (default: 200) */
+  previewRows?: number;
+  /** Stop reading after this many bytes even if fewer rows were found (default: 1 MiB) */
+  maxBytes?: number;
+}
+
+export interface DelimitedTextFormat {
+  encoding: TextFileEncoding;
+  delimiter: string;
+  /** Quote character, or null when no field in the sample is quoted */
+  quote: string | null;
+}
+
+const DEFAULT_SAMPLE_ROWS = 10;
+const DEFAULT_PREVIEW_ROWS = 200;
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+/** Lines read before the delimiter and quote are detected */
+const FORMAT_SAMPLE_LINES = 20;
+const LOCAL_PREVIEW_EXTENSIONS = ['.csv', '.tsv', '.tab', '.txt'];
+const LOCAL_PREVIEW_MIME_TYPES = ['text/csv', 'text/tab-separated-values', 'text/plain'];
+
+/**
+ * Whether `file` is a delimited text file the local parser can read.
+ * Spreadsheets and SD files still go through the preview endpoint.
+ */
+export function canPreviewHeadersLocally(file: File): boolean {
+  const name = file.name.toLowerCase();
+  if (LOCAL_PREVIEW_EXTENSIONS.some((ext) => name.endsWith(ext))) return true;
+
+  return LOCAL_PREVIEW_MIME_TYPES.includes(file.type);
+}
+
+/**
+ * Detect the text encoding from the first bytes. A BOM wins; otherwise the
+ * bytes are checked for UTF-16 (zero bytes in every other position) and for
+ * valid UTF-8, falling back to Windows-1252 (what Excel writes on Windows).
+ * Returns the encoding and the length of the BOM to skip.
+ */
+export function detectEncoding(bytes: Uint8Array): {
+  encoding: TextFileEncoding;
+  bomLength: number;
+} {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 };
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros > half * 0.3 && evenZeros < half * 0.05) {
+    return { encoding: 'utf-16le', bomLength: 0 };
+  }
+  if (half > 0 && evenZeros > half * 0.3 && oddZeros < half * 0.05) {
+    return { encoding: 'utf-16be', bomLength: 0 };
+  }
+
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+}
+
+/**
+ * Split delimited text into rows, honouring quoted fields (which may contain
+ * delimiters, doubled quotes and line breaks). Stops after `maxRows` rows.
+ * The last row is dropped when `complete` is false, since it may be cut off.
+ */
+export function parseDelimitedRows(
+  text: string,
+  delimiter: string,
+  quote: string | null,
+  maxRows = Infinity,
+  complete = true,
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // Skip blank lines
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === quote && text[i + 1] === quote) {
+        field += ch;
+        i += 2;
+        continue;
+      }
+      if (ch === quote) {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (quote && ch === quote && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if (complete && rows.length < maxRows && (field !== '' || row.length > 0)) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Pick the delimiter that splits the sample lines into the same number of
+ * (more than one) fields most consistently, and the quote character in use.
+ */
+export function detectDelimitedFormat(
+  text: string,
+): Pick<DelimitedTextFormat, 'delimiter' | 'quote'> {
+  // A field opening with a quote; single quotes only count when they also close the field
+  let quote: string | null = null;
+  if (/(^|[,\t;|])"/m.test(text)) {
+    quote = '"';
+  } else if (/(^|[,\t;|])'[^'\r\n]*'([,\t;|]|$)/m.test(text)) {
+    quote = "'";
+  }
+
+  let best = { delimiter: ',', score: 0 };
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const rows = parseDelimitedRows(text, delimiter, quote, 20, false);
+    if (rows.length === 0) continue;
+
+    const headerWidth = rows[0].length;
+    if (headerWidth < 2) continue;
+
+    // Share of rows matching the header width, weighted by the width itself
+    const consistent = rows.filter((row) => row.length === headerWidth).length / rows.length;
+    const score = consistent * headerWidth;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return { delimiter: best.delimiter, quote };
+}
+
+function countLineBreaks(text: string): number {
+  return text.match(/\r\n|\r|\n/g)?.length ?? 0;
+}
+
+/**
+ * Turn parsed rows (header first) into the preview endpoint's shape. The first
+ * `previewRows` data rows are also returned whole, for the data preview grid.
+ */
+export function buildHeaderPreview(
+  rows: string[][],
+  sampleRows: number,
+  previewRows = 0,
+): HeaderPreviewResponse {
+  if (rows.length === 0) return { columns: [] };
+
+  const [header, ...data] = rows;
+  const columns: HeaderPreviewColumn[] = header.map((raw) => ({
+    fileColumn: raw.trim(),
+    samples: [],
+  }));
+
+  for (const row of data.slice(0, sampleRows)) {
+    columns.forEach((column, index) => {
+      const value = row[index]?.trim();
+      if (value) column.samples.push(value);
+    });
+  }
+
+  // Unnamed columns (e.g. a trailing delimiter) cannot be mapped
+  const kept = columns.flatMap((column, index) => (column.fileColumn !== '' ? [index] : []));
+
+  return {
+    columns: kept.map((index) => columns[index]),
+    rows: data.slice(0, previewRows).map((row) => kept.map((index) => row[index] ?? '')),
+  };
+}
+
+/**
+ * Read the first rows of `file` in the browser and build a header preview.
+ * Only as much of the file is read as needed for the header, samples and
+ * preview rows. A file without BOM is read as UTF-8 until a byte sequence
+ * proves otherwise, then everything read so far is decoded as Windows-1252.
+ */
+export async function previewHeadersLocally(
+  file: File,
+  options: LocalHeaderPreviewOptions = {},
+): Promise<HeaderPreviewResponse & { format: DelimitedTextFormat }> {
+  const sampleRows = options.sampleRows ?? DEFAULT_SAMPLE_ROWS;
+  const previewRows = options.previewRows ?? DEFAULT_PREVIEW_ROWS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const dataRows = Math.max(sampleRows, previewRows);
+  const reader = file.stream().getReader();
+
+  let decoder: TextDecoder | null = null;
+  let encoding: TextFileEncoding = 'utf-8';
+  // Bytes read while UTF-8 is only a guess, re-decoded if a later chunk turns out not to be UTF-8
+  let guessedBytes: Uint8Array[] | null = null;
+  let format: Pick<DelimitedTextFormat, 'delimiter' | 'quote'> | null = null;
+  let text = '';
+  let bytesRead = 0;
+  let done = false;
+
+  try {
+    while (!done && bytesRead < maxBytes) {
+      const chunk = await reader.read();
+      done = chunk.done;
+      let bytes = chunk.value ?? new Uint8Array(0);
+      bytesRead += bytes.length;
+
+      if (!decoder) {
+        if (bytes.length === 0 && !done) continue;
+        const detected = detectEncoding(bytes);
+        encoding = detected.encoding;
+        bytes = bytes.subarray(detected.bomLength);
+        if (encoding === 'utf-8' && detected.bomLength === 0) {
+          decoder = new TextDecoder('utf-8', { fatal: true });
+          guessedBytes = [];
+        } else {
+          decoder = new TextDecoder(encoding);
+        }
+      }
+
+      if (guessedBytes) {
+        guessedBytes.push(bytes);
+        try {
+          text += decoder.decode(bytes, { stream: !done });
+        } catch {
+          const fallback = new TextDecoder('windows-1252');
+          encoding = 'windows-1252';
+          decoder = fallback;
+          text = guessedBytes.map((part) => fallback.decode(part, { stream: true })).join('');
+          guessedBytes = null;
+        }
+      } else {
+        text += decoder.decode(bytes, { stream: !done });
+      }
+
+      // The delimiter and quote come from the first lines only
+      if (!format && (done || countLineBreaks(text) > FORMAT_SAMPLE_LINES)) {
+        format = detectDelimitedFormat(text);
+      }
+      if (!format) continue;
+
+      // Header plus data rows, and one more row to be sure the last one is complete
+      const rows = parseDelimitedRows(text, format.delimiter, format.quote, dataRows + 2, done);
+      if (rows.length >= dataRows + 2) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {
+      // Nothing left to release
+    });
+  }
+
+  const complete = done || bytesRead >= file.size;
+  const { delimiter, quote } = format ?? detectDelimitedFormat(text);
+  const rows = parseDelimitedRows(text, delimiter, quote, dataRows + 1, complete);
+  if (rows.length === 0) {
+    throw new Error('File is empty or has no header row');
+  }
+
+  return {
+    ...buildHeaderPreview(rows, sampleRows, previewRows),
+    format: { encoding, delimiter, quote },
+  };
+}
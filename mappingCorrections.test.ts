@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildLearnedMappings,
+  createLocalStorageCorrectionStore,
+  createRestCorrectionStore,
+  findMappingCorrections,
+  findStaleCorrections,
+  MappingCorrection,
+  mergeCorrections,
+  serializeCorrectionsCsv,
+} from './mappingCorrections';
+
+/** In-memory stand-in for window.localStorage */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+function correction(overrides: Partial<MappingCorrection>): MappingCorrection {
+  return {
+    header: 'artikel',
+    exampleHeader: 'Artikel',
+    importKind: 'BUILDING_BLOCK',
+    mapTo: 'catalogNumber',
+    count: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('findMappingCorrections', () => {
+  it('returns the main mappings the user changed', () => {
+    const proposed = {
+      mappings: [
+        { fileColumn: 'Artikel', mapTo: 'productName' as const },
+        { fileColumn: 'CAS', mapTo: 'cas' as const },
+        { fileColumn: 'Pack', mapTo: 'ignore' as const },
+        { fileColumn: '#', mapTo: 'ignore' as const },
+      ],
+    };
+    const final = {
+      mappings: [
+        { fileColumn: 'Artikel', mapTo: 'catalogNumber' as const },
+        // An extra field fed by the same column is not a correction
+        { fileColumn: 'Artikel', mapTo: 'compoundId' as const },
+        { fileColumn: 'CAS', mapTo: 'cas' as const },
+        {
+          fileColumn: 'Pack',
+          mapTo: 'packageSize' as const,
+          transforms: [{ type: 'split' as const, delimiter: '/', index: 0 }],
+        },
+        { fileColumn: '#', mapTo: 'compoundId' as const },
+      ],
+    };
+
+    expect(findMappingCorrections(proposed, final, 'BUILDING_BLOCK')).toEqual([
+      { fileColumn: 'Artikel', importKind: 'BUILDING_BLOCK', mapTo: 'catalogNumber' },
+    ]);
+  });
+});
+
+describe('mergeCorrections', () => {
+  const input = { fileColumn: 'ARTIKEL', importKind: 'BUILDING_BLOCK' as const };
+
+  it('raises the count when the same kind is chosen again', () => {
+    const [merged] = mergeCorrections(
+      [correction({ count: 2 })],
+      [{ ...input, mapTo: 'catalogNumber' }],
+      '2026-02-01T00:00:00.000Z',
+    );
+
+    expect(merged).toEqual(
+      correction({
+        exampleHeader: 'ARTIKEL',
+        count: 3,
+        updatedAt: '2026-02-01T00:00:00.000Z',
+      }),
+    );
+  });
+
+  it('replaces the kind and restarts the count when another kind is chosen', () => {
+    const [merged] = mergeCorrections(
+      [correction({ count: 5 })],
+      [{ ...input, mapTo: 'compoundId' }],
+      '2026-02-01T00:00:00.000Z',
+    );
+
+    expect(merged).toMatchObject({ mapTo: 'compoundId', count: 1 });
+    expect(merged.createdAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('keeps import kinds apart and lists the most recent first', () => {
+    const merged = mergeCorrections(
+      [correction({})],
+      [{ ...input, importKind: 'SCREENING_COMPOUND', mapTo: 'compoundId' }],
+      '2026-02-01T00:00:00.000Z',
+    );
+
+    expect(merged.map((c) => [c.importKind, c.mapTo])).toEqual([
+      ['SCREENING_COMPOUND', 'compoundId'],
+      ['BUILDING_BLOCK', 'catalogNumber'],
+    ]);
+  });
+});
+
+describe('buildLearnedMappings', () => {
+  it('maps normalised headers to kinds for one import kind', () => {
+    const learned = buildLearnedMappings(
+      [
+        correction({}),
+        correction({ header: 'struktur', importKind: 'SCREENING_COMPOUND', mapTo: 'smiles' }),
+      ],
+      'BUILDING_BLOCK',
+    );
+
+    expect([...learned]).toEqual([['artikel', 'catalogNumber']]);
+  });
+});
+
+describe('findStaleCorrections', () => {
+  it('returns corrections not updated within the given days', () => {
+    const fresh = correction({ header: 'fresh', updatedAt: '2026-03-20T00:00:00.000Z' });
+    const stale = correction({ header: 'stale', updatedAt: '2026-01-01T00:00:00.000Z' });
+
+    expect(
+      findStaleCorrections([fresh, stale], 30, Date.parse('2026-04-01T00:00:00.000Z')),
+    ).toEqual([stale]);
+  });
+});
+
+describe('createLocalStorageCorrectionStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records, lists and removes corrections per organization', async () => {
+    const storage = createMemoryStorage();
+    const store = createLocalStorageCorrectionStore({ storage });
+
+    await store.record('org-1', [
+      { fileColumn: 'Artikel', importKind: 'BUILDING_BLOCK', mapTo: 'catalogNumber' },
+    ]);
+
+    expect(await store.list('org-1')).toEqual([
+      correction({ createdAt: '2026-02-01T00:00:00.000Z', updatedAt: '2026-02-01T00:00:00.000Z' }),
+    ]);
+    expect(await store.list('org-2')).toEqual([]);
+    expect(storage.getItem('catalogImport.mappingCorrections:org-1')).not.toBeNull();
+
+    await store.remove('org-1', [{ header: 'artikel', importKind: 'BUILDING_BLOCK' }]);
+    expect(await store.list('org-1')).toEqual([]);
+  });
+
+  it('treats a corrupt entry as empty', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem('corrections:org-1', '{not json');
+    const store = createLocalStorageCorrectionStore({ storage, storageKey: 'corrections' });
+
+    expect(await store.list('org-1')).toEqual([]);
+  });
+});
+
+describe('createRestCorrectionStore', () => {
+  const fetchMock = vi.fn();
+  const store = createRestCorrectionStore({
+    correctionsUrl: (organizationId) => `/organizations/${organizationId}/mapping-corrections`,
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  const respond = (body: unknown, ok = true) =>
+    fetchMock.mockResolvedValueOnce({ ok, status: ok ? 200 : 500, json: async () => body });
+
+  it('sends recorded corrections with their normalised header', async () => {
+    const saved = correction({ updatedAt: '2026-02-01T00:00:00.000Z' });
+    respond({ corrections: [saved] });
+
+    const result = await store.record('org-1', [
+      { fileColumn: 'Artikel', importKind: 'BUILDING_BLOCK', mapTo: 'catalogNumber' },
+    ]);
+
+    expect(result).toEqual([saved]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/organizations/org-1/mapping-corrections');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({
+      corrections: [
+        {
+          fileColumn: 'Artikel',
+          importKind: 'BUILDING_BLOCK',
+          mapTo: 'catalogNumber',
+          header: 'artikel',
+        },
+      ],
+    });
+  });
+
+  it('lists a bare array response, most recent first', async () => {
+    const older = correction({ header: 'older' });
+    const newer = correction({ header: 'newer', updatedAt: '2026-03-01T00:00:00.000Z' });
+    respond([older, newer]);
+
+    expect(await store.list('org-1')).toEqual([newer, older]);
+  });
+
+  it('throws the server message when a request fails', async () => {
+    respond({ message: 'Not allowed' }, false);
+
+    await expect(
+      store.remove('org-1', [{ header: 'artikel', importKind: 'BUILDING_BLOCK' }]),
+    ).rejects.toThrow('Not allowed');
+  });
+});
+
+describe('serializeCorrectionsCsv', () => {
+  it('writes one line per correction', () => {
+    expect(serializeCorrectionsCsv([correction({ exampleHeader: 'Artikel, Nr.' })])).toBe(
+      'header,exampleHeader,importKind,mapTo,count,createdAt,updatedAt\n' +
+        'artikel,"Artikel, Nr.",BUILDING_BLOCK,catalogNumber,1,' +
+        '2026-01-01T00:00:00.000Z,2026-01-01T00:00:00.000Z',
+    );
+  });
+});
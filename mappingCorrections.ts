@@ -0,0 +1,331 @@
+/* eslint-disable no-console */
+/**
+ * Learned mapping corrections: whenever the user maps a column differently
+ * than the wizard proposed, the (normalised header, import kind) -> kind
+ * choice is remembered per organization, and initializeColumnMapping prefers
+ * it over auto-detection on the next import.
+ *
+ * Corrections are kept behind a storage adapter like mapping templates; hosts
+ * pick the localStorage store, the REST store, or provide their own.
+ */
+import { CatalogImportKind, ColumnMapping, ColumnMappingKind } from './types';
+import { normalizeHeader } from './headerMatching';
+import { escapeCsvCell } from './importReport';
+
+export interface MappingCorrection {
+  /** Normalised header the correction applies to (see normalizeHeader) */
+  header: string;
+  /** Header as it last appeared in a file, for display */
+  exampleHeader: string;
+  importKind: CatalogImportKind;
+  mapTo: ColumnMappingKind;
+  /** How often the user chose this mapping */
+  count: number;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One user override, as found by findMappingCorrections */
+export interface MappingCorrectionInput {
+  fileColumn: string;
+  importKind: CatalogImportKind;
+  mapTo: ColumnMappingKind;
+}
+
+/** Identifies a correction within an organization */
+export type MappingCorrectionKey = Pick<MappingCorrection, 'header' | 'importKind'>;
+
+/** Storage adapter for learned corrections. */
+export interface MappingCorrectionStore {
+  /** Corrections of an organization, most recently used first */
+  list: (organizationId: string) => Promise<MappingCorrection[]>;
+  /** Add or reinforce corrections; resolves with the organization's updated list */
+  record: (
+    organizationId: string,
+    corrections: MappingCorrectionInput[],
+  ) => Promise<MappingCorrection[]>;
+  remove: (organizationId: string, keys: MappingCorrectionKey[]) => Promise<void>;
+}
+
+/** Learned kinds by normalised header, for one import kind */
+export type LearnedMappings = ReadonlyMap<string, ColumnMappingKind>;
+
+export function correctionHeaderKey(header: string): string {
+  return normalizeHeader(header).join(' ');
+}
+
+const sameKey = (a: MappingCorrectionKey, b: MappingCorrectionKey) =>
+  a.header === b.header && a.importKind === b.importKind;
+
+function sortByUpdatedAt(corrections: MappingCorrection[]) {
+  return [...corrections].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Columns whose final mapping differs from the mapping the wizard proposed.
+ * Headers that normalise to nothing (punctuation only) cannot be learned, and
+ * only a column's main, untransformed mapping is: extra fields and transformed
+ * values say nothing about what the header means on its own.
+ */
+export function findMappingCorrections(
+  proposed: ColumnMapping,
+  final: ColumnMapping,
+  importKind: CatalogImportKind,
+): MappingCorrectionInput[] {
+  const proposedKinds = new Map(proposed.mappings.map((m) => [m.fileColumn, m.mapTo]));
+  const mainEntries = final.mappings.filter(
+    (m, index) => final.mappings.findIndex((other) => other.fileColumn === m.fileColumn) === index,
+  );
+
+  return mainEntries
+    .filter(
+      (m) =>
+        !m.transforms?.length &&
+        proposedKinds.has(m.fileColumn) &&
+        proposedKinds.get(m.fileColumn) !== m.mapTo &&
+        correctionHeaderKey(m.fileColumn) !== '',
+    )
+    .map((m) => ({ fileColumn: m.fileColumn, importKind, mapTo: m.mapTo }));
+}
+
+/**
+ * Merge new corrections into an organization's list. Choosing the same kind
+ * again raises its count; choosing another kind replaces it, since the latest
+ * choice is what the user wants next time.
+ */
+export function mergeCorrections(
+  corrections: MappingCorrection[],
+  inputs: MappingCorrectionInput[],
+  now = new Date().toISOString(),
+): MappingCorrection[] {
+  const merged = [...corrections];
+  for (const input of inputs) {
+    const key = { header: correctionHeaderKey(input.fileColumn), importKind: input.importKind };
+    if (key.header === '') continue;
+
+    const index = merged.findIndex((correction) => sameKey(correction, key));
+    const existing = index >= 0 ? merged[index] : undefined;
+    const correction: MappingCorrection = {
+      ...key,
+      exampleHeader: input.fileColumn,
+      mapTo: input.mapTo,
+      count: existing?.mapTo === input.mapTo ? existing.count + 1 : 1,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    if (index >= 0) merged[index] = correction;
+    else merged.push(correction);
+  }
+
+  return sortByUpdatedAt(merged);
+}
+
+export function buildLearnedMappings(
+  corrections: MappingCorrection[],
+  importKind: CatalogImportKind,
+): LearnedMappings {
+  return new Map(
+    corrections
+      .filter((correction) => correction.importKind === importKind)
+      .map((correction) => [correction.header, correction.mapTo]),
+  );
+}
+
+/** Corrections not used for `days` days, the usual candidates for pruning */
+export function findStaleCorrections(
+  corrections: MappingCorrection[],
+  days: number,
+  now = Date.now(),
+): MappingCorrection[] {
+  const cutoff = now - days * 24 * 60 * 60 * 1000;
+
+  return corrections.filter((correction) => Date.parse(correction.updatedAt) < cutoff);
+}
+
+// ============================================================================
+// localStorage store
+// ============================================================================
+
+export interface LocalStorageCorrectionStoreOptions {
+  /** Key prefix; corrections are stored under `<prefix>:<organizationId>` */
+  storageKey?: string;
+  /** Defaults to window.localStorage */
+  storage?: Storage;
+}
+
+const DEFAULT_CORRECTION_STORAGE_KEY = 'catalogImport.mappingCorrections';
+
+/** Keep corrections in the browser, per device. */
+export function createLocalStorageCorrectionStore(
+  options: LocalStorageCorrectionStoreOptions = {},
+): MappingCorrectionStore {
+  const prefix = options.storageKey ?? DEFAULT_CORRECTION_STORAGE_KEY;
+  const getStorage = () =>
+    options.storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+  const keyFor = (organizationId: string) => `${prefix}:${organizationId}`;
+
+  const read = (organizationId: string): MappingCorrection[] => {
+    const raw = getStorage()?.getItem(keyFor(organizationId));
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // A corrupt entry should not block the wizard
+      return [];
+    }
+  };
+
+  const write = (organizationId: string, corrections: MappingCorrection[]) => {
+    getStorage()?.setItem(keyFor(organizationId), JSON.stringify(corrections));
+  };
+
+  return {
+    list: async (organizationId) => sortByUpdatedAt(read(organizationId)),
+
+    record: async (organizationId, inputs) => {
+      const corrections = mergeCorrections(read(organizationId), inputs);
+      write(organizationId, corrections);
+
+      return corrections;
+    },
+
+    remove: async (organizationId, keys) => {
+      write(
+        organizationId,
+        read(organizationId).filter((correction) => !keys.some((key) => sameKey(correction, key))),
+      );
+    },
+  };
+}
+
+// ============================================================================
+// REST store
+// ============================================================================
+
+export interface RestCorrectionStoreConfig {
+  /**
+   * GET lists the organization's corrections, POST records `{ corrections }`
+   * and responds with the updated list, DELETE removes `{ keys }`.
+   */
+  correctionsUrl: (organizationId: string) => string;
+}
+
+async function readCorrectionsResponse(
+  response: Response,
+  fallbackMessage: string,
+): Promise<MappingCorrection[]> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: fallbackMessage }));
+    console.log('[IMPORT_DEBUG] mapping corrections error:', errorData);
+    throw new Error(errorData.message || fallbackMessage);
+  }
+
+  const data = await response.json();
+  const corrections = Array.isArray(data)
+    ? data
+    : ((data as { corrections?: MappingCorrection[] } | null)?.corrections ?? []);
+
+  return sortByUpdatedAt(corrections);
+}
+
+/**
+ * Keep corrections on the backend, shared by the organization. Recorded
+ * corrections carry their normalised `header`, so the backend never has to
+ * normalise headers itself.
+ */
+export function createRestCorrectionStore(
+  config: RestCorrectionStoreConfig,
+): MappingCorrectionStore {
+  const request = (organizationId: string, method: string, body?: unknown) => {
+    const url = config.correctionsUrl(organizationId);
+    console.log(`[IMPORT_DEBUG] mapping corrections ${method} URL:`, url);
+
+    return fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  return {
+    list: async (organizationId) =>
+      readCorrectionsResponse(
+        await request(organizationId, 'GET'),
+        'Failed to load mapping corrections',
+      ),
+
+    record: async (organizationId, inputs) =>
+      readCorrectionsResponse(
+        await request(organizationId, 'POST', {
+          corrections: inputs.map((input) => ({
+            ...input,
+            header: correctionHeaderKey(input.fileColumn),
+          })),
+        }),
+        'Failed to save mapping corrections',
+      ),
+
+    remove: async (organizationId, keys) => {
+      const response = await request(organizationId, 'DELETE', { keys });
+      if (!response.ok) {
+        await readCorrectionsResponse(response, 'Failed to delete mapping corrections');
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export type MappingCorrectionExportFormat = 'csv' | 'json';
+
+const CORRECTION_COLUMNS = [
+  'header',
+  'exampleHeader',
+  'importKind',
+  'mapTo',
+  'count',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export function serializeCorrectionsCsv(corrections: MappingCorrection[]): string {
+  return [
+    CORRECTION_COLUMNS.join(','),
+    ...corrections.map((correction) =>
+      CORRECTION_COLUMNS.map((column) => escapeCsvCell(correction[column])).join(','),
+    ),
+  ].join('\n');
+}
+
+/** Hand the corrections to the browser as a file download. */
+export function downloadCorrections(
+  corrections: MappingCorrection[],
+  format: MappingCorrectionExportFormat,
+  fileName = `mapping-corrections.${format}`,
+) {
+  // The BOM makes Excel read the CSV as UTF-8
+  const content =
+    format === 'csv'
+      ? `\uFEFF${serializeCorrectionsCsv(corrections)}`
+      : JSON.stringify(corrections, null, 2);
+  const blob = new Blob([content], {
+    type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
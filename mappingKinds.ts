@@ -0,0 +1,685 @@
+/**
+ * Registry of column mapping kinds: everything the import knows about a kind
+ * (label, option group per import kind, backend name, value type, unit,
+ * cardinality and header synonyms) in one entry.
+ *
+ * MAPPING_LABELS, MAPPING_CARDINALITY, the option groups, HEADER_SYNONYMS,
+ * VALUE_FORMAT_CHECKS, the validation rules and the backend translation are
+ * all derived from it, so a new kind needs its name in ColumnMappingKind and
+ * an entry here (the compiler insists on the latter).
+ */
+import type {
+  CatalogImportKind,
+  ColumnMappingKind,
+  MappingCardinality,
+  MappingOptionGroup,
+} from './types';
+import type { HeaderSynonymEntry } from './headerMatching';
+import { SDF_MOLBLOCK_COLUMN } from './sdfReader';
+
+/** What a kind's cell values look like; drives the format checks in valueFormats */
+export type MappingValueType =
+  | 'text'
+  | 'identifier'
+  | 'cas'
+  | 'inchiKey'
+  | 'smiles'
+  | 'molblock'
+  | 'molFormula'
+  | 'number'
+  | 'integer'
+  | 'percentage'
+  | 'price'
+  | 'packageSize'
+  /** Amount with a unit, e.g. "10 mM" or "2-3 weeks" (not checked yet) */
+  | 'measurement'
+  /** Y/N style flag */
+  | 'flag'
+  | 'date'
+  | 'well'
+  | 'plateRow'
+  | 'plateColumn';
+
+/** Units a kind's values are given in, for hosts that convert or validate units */
+export type MappingUnitFamily =
+  | 'molarMass'
+  | 'concentration'
+  | 'volume'
+  /** Mass, volume or amount of substance, e.g. "5 g" or "10 mmol" */
+  | 'quantity'
+  | 'currency'
+  | 'duration';
+
+/** Header synonyms of a kind; see HeaderSynonymEntry */
+export type MappingKindSynonyms = Omit<HeaderSynonymEntry, 'kind'> & {
+  /**
+   * Entries with a higher priority win ties with other kinds (default 0),
+   * e.g. price over package size for "unit_price_per_package"
+   */
+  priority?: number;
+};
+
+export interface MappingKindDefinition {
+  kind: ColumnMappingKind;
+  /** English label, used where `labelKey` is not translated */
+  label: string;
+  /** i18n key of the label, `catalogImport.mappingKinds.<kind>` */
+  labelKey: string;
+  /** Option group per import kind; the kind is not offered for import kinds without one */
+  groups: Partial<Record<CatalogImportKind, string>>;
+  /** Name the backend uses for the kind (usually the kind itself) */
+  backendName: string;
+  valueType: MappingValueType;
+  unitFamily?: MappingUnitFamily;
+  cardinality: MappingCardinality;
+  synonyms: MappingKindSynonyms[];
+}
+
+type MappingKindSpec = Omit<MappingKindDefinition, 'kind' | 'labelKey' | 'backendName'> & {
+  backendName?: string;
+};
+
+/** Option group order in the mapping dropdown per import kind */
+export const MAPPING_GROUP_ORDER: Record<CatalogImportKind, string[]> = {
+  BUILDING_BLOCK: [
+    'Compound Identifiers',
+    'Structure',
+    'Chemistry',
+    'Research Metadata',
+    'Commercial',
+    'Product Info',
+    'Quality & Compliance',
+    'Warehouses',
+    'Other',
+  ],
+  SCREENING_COMPOUND: [
+    'Plate Map',
+    'Compound Identifiers',
+    'Structure',
+    'Library & Kit Metadata',
+    'PhysChem & Salt',
+    'Supply & Handling',
+    'Screening Annotations',
+    'Commercial',
+    'Product Info',
+    'Quality & Compliance',
+    'Other',
+  ],
+};
+
+const IDENTIFIERS = {
+  BUILDING_BLOCK: 'Compound Identifiers',
+  SCREENING_COMPOUND: 'Compound Identifiers',
+};
+const STRUCTURE = { BUILDING_BLOCK: 'Structure', SCREENING_COMPOUND: 'Structure' };
+const CHEMISTRY = { BUILDING_BLOCK: 'Chemistry', SCREENING_COMPOUND: 'PhysChem & Salt' };
+const PLATE_MAP = { SCREENING_COMPOUND: 'Plate Map' };
+const LIBRARY = { SCREENING_COMPOUND: 'Library & Kit Metadata' };
+const RESEARCH = {
+  BUILDING_BLOCK: 'Research Metadata',
+  SCREENING_COMPOUND: 'Library & Kit Metadata',
+};
+const SUPPLY = { SCREENING_COMPOUND: 'Supply & Handling' };
+const ANNOTATIONS = { SCREENING_COMPOUND: 'Screening Annotations' };
+const COMMERCIAL = { BUILDING_BLOCK: 'Commercial', SCREENING_COMPOUND: 'Commercial' };
+const PRODUCT_INFO = { BUILDING_BLOCK: 'Product Info', SCREENING_COMPOUND: 'Product Info' };
+const QUALITY = {
+  BUILDING_BLOCK: 'Quality & Compliance',
+  SCREENING_COMPOUND: 'Quality & Compliance',
+};
+const WAREHOUSES = { BUILDING_BLOCK: 'Warehouses' };
+
+/**
+ * One entry per kind, in option order within each group. Synonym order
+ * matters when two kinds score the same: the earlier entry wins unless a
+ * `priority` says otherwise.
+ */
+const MAPPING_KIND_SPECS: Record<ColumnMappingKind, MappingKindSpec> = {
+  // Compound identifiers
+  compoundId: {
+    label: 'Compound ID',
+    groups: { SCREENING_COMPOUND: 'Compound Identifiers' },
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['idnumber', 'id number', 'compound id', 'mcule id'] }],
+  },
+  catalogNumber: {
+    label: 'Catalog Number',
+    groups: IDENTIFIERS,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [
+      {
+        // "cat" only as the whole header, to avoid false positives (e.g. "category")
+        synonyms: ['cat', 'cat no', 'catalog number', 'sku'],
+        keywords: ['catalog', 'sku', 'product id', 'item number', 'part number'],
+      },
+    ],
+  },
+  cas: {
+    label: 'CAS Number',
+    groups: IDENTIFIERS,
+    valueType: 'cas',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['cas', 'cas number'], keywords: ['cas'] }],
+  },
+  inchiKey: {
+    label: 'InChI Key',
+    groups: IDENTIFIERS,
+    valueType: 'inchiKey',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['inchi key'], keywords: ['inchi'] }],
+  },
+  productName: {
+    label: 'Product Name',
+    groups: IDENTIFIERS,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [
+      {
+        synonyms: ['name', 'product name', 'chemical name', 'compound name', 'title', 'product'],
+      },
+    ],
+  },
+  mdlNumber: {
+    // MDL identifier (MFCD...), not the structure
+    label: 'MDL Number',
+    groups: IDENTIFIERS,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['mdl number', 'mdl number mdl', 'mfcd number', 'mfcd'] }],
+  },
+
+  // Structure
+  smiles: {
+    label: 'SMILES',
+    groups: STRUCTURE,
+    valueType: 'smiles',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['smiles', 'structure'], keywords: ['smiles'] }],
+  },
+  // Legacy kind, no longer offered; "mdl" headers map to molfile
+  mdl: {
+    label: 'MDL/Molfile',
+    groups: {},
+    valueType: 'molblock',
+    cardinality: 'single',
+    synonyms: [],
+  },
+  molfile: {
+    label: 'Molfile (.mol)',
+    groups: STRUCTURE,
+    backendName: 'mdl',
+    valueType: 'molblock',
+    cardinality: 'single',
+    synonyms: [
+      // Structure of an SD file record
+      { synonyms: [SDF_MOLBLOCK_COLUMN] },
+      // Legacy "mdl" header holds molfiles
+      { synonyms: ['ctab', 'mdl'], keywords: ['molfile', 'mol block'] },
+    ],
+  },
+
+  // Chemistry descriptors
+  molFormula: {
+    // "formula" only as the whole header, not "formulation"
+    label: 'Molecular Formula',
+    groups: CHEMISTRY,
+    valueType: 'molFormula',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['formula', 'mol formula', 'molecular formula', 'mf'] }],
+  },
+  molWeight: {
+    label: 'Molecular Weight',
+    groups: CHEMISTRY,
+    valueType: 'number',
+    unitFamily: 'molarMass',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['mw', 'mol weight', 'molecular weight'], keywords: ['weight'] }],
+  },
+  saltData: {
+    label: 'Salt Data',
+    groups: CHEMISTRY,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['salt data'], keywords: ['salt'] }],
+  },
+  purity: {
+    label: 'Purity',
+    groups: CHEMISTRY,
+    valueType: 'percentage',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['purity', 'quality', 'assay', 'hplc', 'lcms'], keywords: ['purity'] }],
+  },
+  chiralPurity: {
+    label: 'Chiral Purity',
+    groups: CHEMISTRY,
+    valueType: 'percentage',
+    cardinality: 'single',
+    // Before generic purity
+    synonyms: [{ synonyms: ['chiral purity'], keywords: [['chiral', 'purity']], priority: 1 }],
+  },
+
+  // Plate map
+  plateId: {
+    label: 'Plate ID',
+    groups: PLATE_MAP,
+    backendName: 'plate',
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['plate', 'plate id', 'rack number', 'rack'] }],
+  },
+  well: {
+    label: 'Well',
+    groups: PLATE_MAP,
+    valueType: 'well',
+    cardinality: 'single',
+    synonyms: [
+      { synonyms: ['well', 'well position', 'plate location', 'position', 'well location'] },
+    ],
+  },
+  row: {
+    label: 'Row',
+    groups: PLATE_MAP,
+    valueType: 'plateRow',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['row', 'plate row'] }],
+  },
+  column: {
+    label: 'Column',
+    groups: PLATE_MAP,
+    valueType: 'plateColumn',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['column', 'col', 'plate column', 'plate col'] }],
+  },
+
+  // Library and research metadata
+  libraryName: {
+    label: 'Library Name',
+    groups: LIBRARY,
+    backendName: 'library',
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['library', 'library name'] }],
+  },
+  libraryId: {
+    label: 'Library ID',
+    groups: LIBRARY,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['library id'] }],
+  },
+  targetName: {
+    label: 'Target Name',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['target', 'target name', 'biological target', 'e3l'] }],
+  },
+  pathway: {
+    label: 'Pathway',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['pathway', 'signaling pathway'] }],
+  },
+  application: {
+    label: 'Application / Use Case',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['application', 'intended use', 'use case', 'research area'] }],
+  },
+  description: {
+    label: 'Description',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['short description', 'description', 'summary'] }],
+  },
+  moleculeType: {
+    label: 'Molecule Type',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['type of molecule', 'molecule type'] }],
+  },
+  alias: {
+    label: 'Alias',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['alias', 'aliases', 'synonyms'] }],
+  },
+  mechanismOfAction: {
+    label: 'Mechanism of Action',
+    groups: RESEARCH,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['mechanism of action', 'mechanism', 'moa'] }],
+  },
+
+  // Supply and handling
+  concentration: {
+    label: 'Concentration',
+    groups: SUPPLY,
+    valueType: 'measurement',
+    unitFamily: 'concentration',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['concentration', 'conc'] }],
+  },
+  volume: {
+    label: 'Volume',
+    groups: SUPPLY,
+    valueType: 'measurement',
+    unitFamily: 'volume',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['volume', 'vol'] }],
+  },
+  solvent: {
+    label: 'Solvent',
+    groups: SUPPLY,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['solvent'] }],
+  },
+
+  // Screening annotations
+  controlType: {
+    label: 'Control Type',
+    groups: ANNOTATIONS,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['control', 'control type'] }],
+  },
+  batchId: {
+    label: 'Batch ID',
+    groups: ANNOTATIONS,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['batch', 'batch id', 'lot', 'lot id'] }],
+  },
+
+  // Commercial
+  packageSize: {
+    label: 'Package Size',
+    groups: COMMERCIAL,
+    valueType: 'packageSize',
+    unitFamily: 'quantity',
+    cardinality: 'single',
+    synonyms: [
+      {
+        synonyms: ['package size'],
+        keywords: ['package', 'size', 'quantity', 'amount', 'unit'],
+      },
+    ],
+  },
+  unitPrice: {
+    label: 'Unit Price',
+    groups: COMMERCIAL,
+    valueType: 'price',
+    unitFamily: 'currency',
+    cardinality: 'single',
+    // Before package size: "unit_price_per_package_size"
+    synonyms: [{ synonyms: ['unit price'], keywords: ['price', 'cost', 'usd'], priority: 1 }],
+  },
+  inventoryAvailable: {
+    label: 'Inventory Available',
+    groups: COMMERCIAL,
+    valueType: 'integer',
+    cardinality: 'single',
+    synonyms: [
+      {
+        synonyms: ['inventory available'],
+        keywords: ['inventory', 'stock', 'available', 'qty'],
+        // SDS/COA availability columns also say "available"
+        excludes: ['sds', 'coa', 'certificate'],
+      },
+    ],
+  },
+  leadTime: {
+    label: 'Lead Time',
+    groups: COMMERCIAL,
+    valueType: 'measurement',
+    unitFamily: 'duration',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['lead time'], keywords: ['lead', 'delivery', 'ship'] }],
+  },
+  moq: {
+    label: 'MOQ (Min. Order Qty)',
+    groups: COMMERCIAL,
+    valueType: 'integer',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['moq'], keywords: ['min order', 'minimum order'] }],
+  },
+
+  // Product info
+  vendorName: {
+    label: 'Vendor Name',
+    groups: PRODUCT_INFO,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['vendor name', 'vendor', 'supplier'] }],
+  },
+  countryOfOrigin: {
+    label: 'Country of Origin',
+    groups: { BUILDING_BLOCK: 'Product Info' },
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['country of origin', 'origin'] }],
+  },
+  storageConditions: {
+    label: 'Storage Conditions',
+    groups: { BUILDING_BLOCK: 'Product Info', SCREENING_COMPOUND: 'Supply & Handling' },
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['storage', 'storage conditions'] }],
+  },
+  appearance: {
+    label: 'Appearance',
+    groups: PRODUCT_INFO,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['appearance'] }],
+  },
+  solubility: {
+    label: 'Solubility',
+    groups: PRODUCT_INFO,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['solubility'] }],
+  },
+  shelfLife: {
+    label: 'Shelf Life',
+    groups: PRODUCT_INFO,
+    valueType: 'measurement',
+    unitFamily: 'duration',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['shelf life'] }],
+  },
+  physicalForm: {
+    label: 'Physical Form',
+    groups: PRODUCT_INFO,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['physical form', 'form'] }],
+  },
+  notes: {
+    label: 'Notes',
+    groups: PRODUCT_INFO,
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [{ synonyms: ['notes', 'note', 'comments', 'remark'] }],
+  },
+
+  // Quality & compliance
+  sdsAvailable: {
+    label: 'SDS Available (Y/N)',
+    groups: QUALITY,
+    valueType: 'flag',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['sds'], keywords: [['sds', 'avail']] }],
+  },
+  coaAvailable: {
+    label: 'COA Available (Y/N)',
+    groups: QUALITY,
+    valueType: 'flag',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['coa'], keywords: [['coa', 'avail']] }],
+  },
+  customSynthesis: {
+    label: 'Custom Synthesis (Y/N)',
+    groups: QUALITY,
+    valueType: 'flag',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['custom synthesis'], keywords: ['custom synth'] }],
+  },
+  retestOrExpiry: {
+    label: 'Re-test Date / Expiry',
+    groups: QUALITY,
+    valueType: 'date',
+    cardinality: 'single',
+    synonyms: [
+      { synonyms: ['retest date', 'expiry date'], keywords: ['retest', 'expiry', 'expiration'] },
+    ],
+  },
+  hsCode: {
+    label: 'HS Code',
+    groups: QUALITY,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['hs code'], keywords: ['harmonized'] }],
+  },
+  hazmat: {
+    label: 'Hazmat (Yes/No)',
+    groups: QUALITY,
+    valueType: 'flag',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['hazmat', 'dangerous goods', 'dg'], keywords: ['hazmat', 'hazard'] }],
+  },
+
+  // Warehouses (one warehouse per row)
+  warehouseCode: {
+    label: 'Warehouse Code',
+    groups: WAREHOUSES,
+    valueType: 'identifier',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse code'] }],
+  },
+  warehouseName: {
+    label: 'Warehouse Name',
+    groups: WAREHOUSES,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse name'] }],
+  },
+  warehouseCountry: {
+    label: 'Warehouse Country',
+    groups: WAREHOUSES,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse country'] }],
+  },
+  warehouseCity: {
+    label: 'Warehouse City',
+    groups: WAREHOUSES,
+    valueType: 'text',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse city'] }],
+  },
+  warehouseLeadTimeDays: {
+    label: 'Warehouse Lead Time (Days)',
+    groups: WAREHOUSES,
+    valueType: 'integer',
+    unitFamily: 'duration',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse lead time days', 'warehouse lead time'] }],
+  },
+  warehouseStockQty: {
+    label: 'Warehouse Stock Qty',
+    groups: WAREHOUSES,
+    valueType: 'integer',
+    cardinality: 'single',
+    synonyms: [
+      { synonyms: ['warehouse stock qty', 'warehouse qty', 'warehouse inventory'] },
+      // Per-warehouse stock when the file lists warehouses
+      { synonyms: ['inventory available qty'], whenFileHas: 'warehouseCode' },
+    ],
+  },
+  warehousePrice: {
+    label: 'Warehouse Price',
+    groups: WAREHOUSES,
+    valueType: 'price',
+    unitFamily: 'currency',
+    cardinality: 'single',
+    synonyms: [{ synonyms: ['warehouse price'] }],
+  },
+
+  ignore: {
+    label: 'Ignore Column',
+    groups: { BUILDING_BLOCK: 'Other', SCREENING_COMPOUND: 'Other' },
+    valueType: 'text',
+    cardinality: 'multiple',
+    synonyms: [],
+  },
+};
+
+/** Every mapping kind, in registry order */
+export const MAPPING_KINDS: MappingKindDefinition[] = (
+  Object.entries(MAPPING_KIND_SPECS) as [ColumnMappingKind, MappingKindSpec][]
+).map(([kind, spec]) => ({
+  ...spec,
+  kind,
+  labelKey: `catalogImport.mappingKinds.${kind}`,
+  backendName: spec.backendName ?? kind,
+}));
+
+const KINDS_BY_NAME = new Map(MAPPING_KINDS.map((definition) => [definition.kind, definition]));
+
+export function getMappingKind(kind: ColumnMappingKind): MappingKindDefinition {
+  return KINDS_BY_NAME.get(kind)!;
+}
+
+/** A record with one value per kind, e.g. the labels */
+export function mapMappingKinds<T>(
+  select: (definition: MappingKindDefinition) => T,
+): Record<ColumnMappingKind, T> {
+  return Object.fromEntries(
+    MAPPING_KINDS.map((definition) => [definition.kind, select(definition)]),
+  ) as Record<ColumnMappingKind, T>;
+}
+
+/** Kinds offered for `importKind` in `group`, in option order */
+export function getMappingKindsInGroup(
+  importKind: CatalogImportKind,
+  group: string,
+): ColumnMappingKind[] {
+  return MAPPING_KINDS.filter((definition) => definition.groups[importKind] === group).map(
+    (definition) => definition.kind,
+  );
+}
+
+/** Mapping dropdown options for an import kind, grouped */
+export function buildMappingOptionGroups(importKind: CatalogImportKind): MappingOptionGroup[] {
+  return MAPPING_GROUP_ORDER[importKind].map((group) => ({
+    group,
+    options: getMappingKindsInGroup(importKind, group),
+  }));
+}
+
+export function toBackendMappingKind(kind: ColumnMappingKind): string {
+  return getMappingKind(kind).backendName;
+}
+
+/**
+ * Frontend kind of a name the backend sent back, e.g. `library` for
+ * libraryName. Backend names that differ from a kind take precedence, so
+ * `mdl` reads as molfile. Undefined for unknown names.
+ */
+export function fromBackendMappingKind(name: string): ColumnMappingKind | undefined {
+  const renamed = MAPPING_KINDS.find(
+    (definition) => definition.backendName === name && definition.kind !== name,
+  );
+
+  return renamed?.kind ?? KINDS_BY_NAME.get(name as ColumnMappingKind)?.kind;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MAPPING_RULES,
+  evaluateMappingRules,
+  extendMappingRules,
+  MappingRule,
+  MappingRuleContext,
+} from './mappingRules';
+import { ColumnMappingKind } from './types';
+
+function ruleIds(
+  kinds: ColumnMappingKind[],
+  context: MappingRuleContext,
+  rules: MappingRule[] = DEFAULT_MAPPING_RULES,
+) {
+  return evaluateMappingRules(rules, new Set(kinds), context).map((issue) => issue.ruleId);
+}
+
+describe('evaluateMappingRules', () => {
+  const plated: MappingRuleContext = {
+    importKind: 'SCREENING_COMPOUND',
+    screeningMode: 'PLATED_KIT',
+  };
+
+  it('requires a building block key field', () => {
+    expect(ruleIds([], { importKind: 'BUILDING_BLOCK' })).toEqual(['keyFieldRequired']);
+    expect(ruleIds(['cas'], { importKind: 'BUILDING_BLOCK' })).toEqual([]);
+  });
+
+  it('accepts any alternative of a requiredOneOf rule', () => {
+    expect(ruleIds(['compoundId', 'plateId', 'well', 'libraryName'], plated)).toEqual([
+      'structureRecommended',
+    ]);
+    expect(
+      ruleIds(['compoundId', 'plateId', 'row', 'column', 'libraryName', 'smiles'], plated),
+    ).toEqual([]);
+    expect(ruleIds(['compoundId', 'plateId', 'row', 'libraryName', 'smiles'], plated)).toEqual([
+      'wellPositionRequired',
+    ]);
+  });
+
+  it('counts provided kinds for requirements but not for conflicts', () => {
+    const context = { ...plated, providedKinds: new Set<ColumnMappingKind>(['plateId', 'well']) };
+
+    expect(ruleIds(['compoundId', 'row', 'column', 'libraryName', 'smiles'], context)).toEqual([]);
+  });
+
+  it('reports mutually exclusive groups mapped together', () => {
+    expect(
+      ruleIds(['compoundId', 'plateId', 'well', 'row', 'libraryName', 'smiles'], plated),
+    ).toEqual(['wellPositionConflict']);
+  });
+
+  it('requires the warehouse code only when warehouse fields are mapped', () => {
+    const buildingBlock = { importKind: 'BUILDING_BLOCK' as const };
+
+    expect(ruleIds(['cas'], buildingBlock)).toEqual([]);
+    expect(ruleIds(['cas', 'warehousePrice'], buildingBlock)).toEqual(['warehouseCodeRequired']);
+    expect(ruleIds(['cas', 'warehousePrice', 'warehouseCode'], buildingBlock)).toEqual([]);
+  });
+
+  it('applies legacy screening imports the strictest rules', () => {
+    expect(ruleIds(['compoundId'], { importKind: 'SCREENING_COMPOUND' })).toEqual([
+      'structureRequired',
+      'plateIdRequired',
+      'wellPositionRequired',
+      'libraryNameRecommended',
+      'inchiKeyRecommended',
+    ]);
+  });
+
+  it('defaults recommended rules to warnings and others to errors', () => {
+    const issues = evaluateMappingRules(DEFAULT_MAPPING_RULES, new Set(['cas']), {
+      importKind: 'SCREENING_COMPOUND',
+      screeningMode: 'COMPOUND_LIST',
+    });
+
+    expect(issues.map(({ ruleId, severity }) => [ruleId, severity])).toEqual([
+      ['compoundIdRequired', 'error'],
+      ['structureRequired', 'error'],
+      ['libraryNameRecommended', 'warning'],
+      ['inchiKeyRecommended', 'warning'],
+    ]);
+    expect(issues[0].messageKey).toBe('catalogImport.validation.compoundIdRequired');
+  });
+
+  it('keeps an explicit severity', () => {
+    const issues = evaluateMappingRules(
+      DEFAULT_MAPPING_RULES,
+      new Set(['cas', 'inventoryAvailable', 'warehouseStockQty', 'warehouseCode']),
+      { importKind: 'BUILDING_BLOCK' },
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: 'inventoryWithWarehouseStock', severity: 'warning' }),
+    ]);
+  });
+});
+
+describe('extendMappingRules', () => {
+  const base: MappingRule[] = [
+    { id: 'a', type: 'requiredOneOf', anyOf: [['cas']], messageKey: 'a', message: 'A' },
+    { id: 'b', type: 'recommended', anyOf: [['smiles']], messageKey: 'b', message: 'B' },
+    { id: 'c', type: 'recommended', anyOf: [['molfile']], messageKey: 'c', message: 'C' },
+  ];
+
+  it('replaces rules in place, appends new ones and drops removed ones', () => {
+    const replacement: MappingRule = { ...base[1], severity: 'error' };
+    const added: MappingRule = {
+      id: 'd',
+      type: 'requiredOneOf',
+      anyOf: [['vendorName']],
+      messageKey: 'd',
+      message: 'D',
+    };
+
+    expect(extendMappingRules(base, [added, replacement], ['c'])).toEqual([
+      base[0],
+      replacement,
+      added,
+    ]);
+  });
+
+  it('does not append an override whose id is removed', () => {
+    expect(extendMappingRules(base, [{ ...base[2], id: 'e' }], ['e']).map((r) => r.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('lets an organization add a rule for one import kind', () => {
+    const rules = extendMappingRules(DEFAULT_MAPPING_RULES, [
+      {
+        id: 'vendorRequired',
+        type: 'requiredOneOf',
+        anyOf: [['vendorName']],
+        when: { importKinds: ['BUILDING_BLOCK'] },
+        messageKey: 'org.vendorRequired',
+        message: 'Vendor is required',
+      },
+    ]);
+
+    expect(ruleIds(['cas'], { importKind: 'BUILDING_BLOCK' }, rules)).toEqual(['vendorRequired']);
+    expect(ruleIds(['cas'], { importKind: 'SCREENING_COMPOUND' }, rules)).not.toContain(
+      'vendorRequired',
+    );
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Declarative validation rules for column mappings.
+ *
+ * Each rule names the mapping kinds it looks at and the import kinds and
+ * screening modes it applies to; validateMapping evaluates them against the
+ * mapped kinds. DEFAULT_MAPPING_RULES holds the built-in behaviour, and host
+ * apps (or per-organization config) extend or override it with
+ * extendMappingRules.
+ */
+import {
+  CatalogImportKind,
+  ColumnMappingKind,
+  ScreeningMode,
+  ValidationIssue,
+  ValidationSeverity,
+} from './types';
+import { getMappingKind, getMappingKindsInGroup } from './mappingKinds';
+
+/**
+ * Alternatives of which at least one must be satisfied; each alternative is a
+ * set of kinds that must all be present, e.g. `[['well'], ['row', 'column']]`.
+ */
+export type MappingKindAlternatives = ColumnMappingKind[][];
+
+/** Where a rule applies; omitted fields match everything */
+export interface MappingRuleScope {
+  importKinds?: CatalogImportKind[];
+  /** `unspecified` matches imports without a screening mode (legacy screening imports) */
+  screeningModes?: (ScreeningMode | 'unspecified')[];
+}
+
+interface MappingRuleBase {
+  /** Stable identifier, used to override or remove the rule */
+  id: string;
+  /** i18n key of the message, e.g. `catalogImport.validation.structureRequired` */
+  messageKey: string;
+  /** English message, used where the key is not translated */
+  message: string;
+  /** Defaults to `error`, except for `recommended` rules */
+  severity?: ValidationSeverity;
+  when?: MappingRuleScope;
+}
+
+/** At least one alternative must be mapped */
+export interface RequiredOneOfRule extends MappingRuleBase {
+  type: 'requiredOneOf';
+  anyOf: MappingKindAlternatives;
+}
+
+/** At most one of the groups may be mapped, even partly */
+export interface MutuallyExclusiveRule extends MappingRuleBase {
+  type: 'mutuallyExclusive';
+  groups: ColumnMappingKind[][];
+}
+
+/** When any of `ifAny` is mapped, at least one alternative must be mapped too */
+export interface RequiresIfPresentRule extends MappingRuleBase {
+  type: 'requiresIfPresent';
+  ifAny: ColumnMappingKind[];
+  anyOf: MappingKindAlternatives;
+}
+
+/** Like requiredOneOf, but only a warning */
+export interface RecommendedRule extends MappingRuleBase {
+  type: 'recommended';
+  anyOf: MappingKindAlternatives;
+}
+
+export type MappingRule =
+  RequiredOneOfRule | MutuallyExclusiveRule | RequiresIfPresentRule | RecommendedRule;
+
+export interface MappingRuleContext {
+  importKind: CatalogImportKind;
+  screeningMode?: ScreeningMode;
+  /**
+   * Kinds given a value without a column (e.g. the default Plate ID). They
+   * satisfy requirements but never conflict with mapped columns.
+   */
+  providedKinds?: ReadonlySet<ColumnMappingKind>;
+}
+
+const label = (kind: ColumnMappingKind) => getMappingKind(kind).label;
+
+const STRUCTURE: MappingKindAlternatives = [['mdl'], ['molfile'], ['smiles']];
+const WELL_POSITION: MappingKindAlternatives = [['well'], ['row', 'column']];
+const PLATED_SCREENING: MappingRuleScope = {
+  importKinds: ['SCREENING_COMPOUND'],
+  screeningModes: ['PLATED_KIT', 'unspecified'],
+};
+const UNPLATED_SCREENING: MappingRuleScope = {
+  importKinds: ['SCREENING_COMPOUND'],
+  screeningModes: ['COMPOUND_LIST', 'unspecified'],
+};
+
+/**
+ * Built-in rules. Screening imports without a screening mode predate the
+ * mode choice and get the strictest combination: unplated structure rules and
+ * plated plate/well rules. Messages name kinds by their registry labels.
+ */
+export const DEFAULT_MAPPING_RULES: MappingRule[] = [
+  // Screening compounds
+  {
+    id: 'compoundIdRequired',
+    type: 'requiredOneOf',
+    anyOf: [['compoundId'], ['catalogNumber']],
+    when: { importKinds: ['SCREENING_COMPOUND'] },
+    messageKey: 'catalogImport.validation.compoundIdRequired',
+    message: `${label('compoundId')} is required: map a column to "${label('compoundId')}" or "${label('catalogNumber')}"`,
+  },
+  {
+    id: 'structureRequired',
+    type: 'requiredOneOf',
+    anyOf: STRUCTURE,
+    when: UNPLATED_SCREENING,
+    messageKey: 'catalogImport.validation.structureRequired',
+    message: `Structure is required: map a column to "${label('molfile')}" or "${label('smiles')}"`,
+  },
+  {
+    id: 'plateIdRequired',
+    type: 'requiredOneOf',
+    anyOf: [['plateId']],
+    when: PLATED_SCREENING,
+    messageKey: 'catalogImport.validation.plateIdRequired',
+    message: `${label('plateId')} is required for pre-plated kits: map a column to "${label('plateId')}" or provide a Default Plate ID`,
+  },
+  {
+    id: 'wellPositionRequired',
+    type: 'requiredOneOf',
+    anyOf: WELL_POSITION,
+    when: PLATED_SCREENING,
+    messageKey: 'catalogImport.validation.wellPositionRequired',
+    message: `Well position is required for pre-plated kits: map a column to "${label('well')}" OR both "${label('row')}" AND "${label('column')}"`,
+  },
+  {
+    id: 'wellPositionConflict',
+    type: 'mutuallyExclusive',
+    groups: WELL_POSITION,
+    when: { importKinds: ['SCREENING_COMPOUND'] },
+    messageKey: 'catalogImport.validation.wellPositionConflict',
+    message: `Conflicting well position mappings: use either "${label('well')}" OR "${label('row')}"+"${label('column')}", not both`,
+  },
+  {
+    id: 'structureRecommended',
+    type: 'recommended',
+    anyOf: STRUCTURE,
+    when: { importKinds: ['SCREENING_COMPOUND'], screeningModes: ['PLATED_KIT'] },
+    messageKey: 'catalogImport.validation.structureRecommended',
+    message: 'Structure (SMILES or Molfile) is recommended but not required for pre-plated kits',
+  },
+  {
+    id: 'libraryNameRecommended',
+    type: 'recommended',
+    anyOf: [['libraryName']],
+    when: { importKinds: ['SCREENING_COMPOUND'] },
+    messageKey: 'catalogImport.validation.libraryNameRecommended',
+    message: `${label('libraryName')} is recommended for better organization of screening compounds`,
+  },
+  {
+    id: 'inchiKeyRecommended',
+    type: 'recommended',
+    anyOf: [['inchiKey']],
+    when: UNPLATED_SCREENING,
+    messageKey: 'catalogImport.validation.inchiKeyRecommended',
+    message: `${label('inchiKey')} is recommended for compound deduplication and search`,
+  },
+  // Building blocks
+  {
+    id: 'keyFieldRequired',
+    type: 'requiredOneOf',
+    anyOf: [['catalogNumber'], ['cas'], ['inchiKey'], ['productName']],
+    when: { importKinds: ['BUILDING_BLOCK'] },
+    messageKey: 'catalogImport.validation.keyFieldRequired',
+    message: `At least one key field is required: ${label('catalogNumber')}, ${label('cas')}, ${label('inchiKey')}, or ${label('productName')}`,
+  },
+  {
+    id: 'warehouseCodeRequired',
+    type: 'requiresIfPresent',
+    ifAny: getMappingKindsInGroup('BUILDING_BLOCK', 'Warehouses').filter(
+      (kind) => kind !== 'warehouseCode',
+    ),
+    anyOf: [['warehouseCode']],
+    when: { importKinds: ['BUILDING_BLOCK'] },
+    messageKey: 'catalogImport.validation.warehouseCodeRequired',
+    message: `${label('warehouseCode')} is required when mapping warehouse-specific fields`,
+  },
+  {
+    id: 'inventoryWithWarehouseStock',
+    type: 'mutuallyExclusive',
+    groups: [['inventoryAvailable'], ['warehouseStockQty']],
+    severity: 'warning',
+    when: { importKinds: ['BUILDING_BLOCK'] },
+    messageKey: 'catalogImport.validation.inventoryWithWarehouseStock',
+    message: `${label('warehouseStockQty')} is mapped. Recommend setting global ${label('inventoryAvailable')} to Ignore to avoid confusion.`,
+  },
+];
+
+/**
+ * Customise a ruleset: rules in `overrides` replace the rule with the same id
+ * (keeping its position) or are appended, and rules listed in `removeIds`
+ * are dropped.
+ */
+export function extendMappingRules(
+  base: MappingRule[],
+  overrides: MappingRule[] = [],
+  removeIds: string[] = [],
+): MappingRule[] {
+  const byId = new Map(overrides.map((rule) => [rule.id, rule]));
+  const removed = new Set(removeIds);
+  const rules = base
+    .filter((rule) => !removed.has(rule.id))
+    .map((rule) => byId.get(rule.id) ?? rule);
+  const baseIds = new Set(base.map((rule) => rule.id));
+
+  return [...rules, ...overrides.filter((rule) => !baseIds.has(rule.id) && !removed.has(rule.id))];
+}
+
+function appliesTo(rule: MappingRule, context: MappingRuleContext): boolean {
+  const { importKinds, screeningModes } = rule.when ?? {};
+  if (importKinds && !importKinds.includes(context.importKind)) return false;
+
+  return !screeningModes || screeningModes.includes(context.screeningMode ?? 'unspecified');
+}
+
+function isSatisfied(anyOf: MappingKindAlternatives, kinds: ReadonlySet<ColumnMappingKind>) {
+  return anyOf.some((alternative) => alternative.every((kind) => kinds.has(kind)));
+}
+
+/** Whether the rule is broken by the given kinds */
+function isViolated(
+  rule: MappingRule,
+  mappedKinds: ReadonlySet<ColumnMappingKind>,
+  availableKinds: ReadonlySet<ColumnMappingKind>,
+): boolean {
+  switch (rule.type) {
+    case 'requiredOneOf':
+    case 'recommended':
+      return !isSatisfied(rule.anyOf, availableKinds);
+    case 'requiresIfPresent':
+      return (
+        rule.ifAny.some((kind) => mappedKinds.has(kind)) && !isSatisfied(rule.anyOf, availableKinds)
+      );
+    case 'mutuallyExclusive':
+      return rule.groups.filter((group) => group.some((kind) => mappedKinds.has(kind))).length > 1;
+  }
+}
+
+/** Evaluate the rules that apply to `context`, in ruleset order. */
+export function evaluateMappingRules(
+  rules: MappingRule[],
+  mappedKinds: ReadonlySet<ColumnMappingKind>,
+  context: MappingRuleContext,
+): ValidationIssue[] {
+  const availableKinds = new Set([...mappedKinds, ...(context.providedKinds ?? [])]);
+
+  return rules
+    .filter((rule) => appliesTo(rule, context) && isViolated(rule, mappedKinds, availableKinds))
+    .map((rule) => ({
+      ruleId: rule.id,
+      severity: rule.severity ?? (rule.type === 'recommended' ? 'warning' : 'error'),
+      messageKey: rule.messageKey,
+      message: rule.message,
+    }));
+}
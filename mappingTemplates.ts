@@ -0,0 +1,269 @@
+/* eslint-disable no-console */
+/**
+ * Saved mapping templates: a named column mapping together with the import
+ * configuration it was made for, so a supplier's recurring files (e.g. a
+ * monthly price list) can be mapped in one click instead of from scratch.
+ *
+ * Templates are kept per organization behind a small storage adapter; hosts
+ * pick the localStorage store, the REST store, or provide their own.
+ */
+import {
+  CatalogImportConfig,
+  ColumnMapping,
+  ColumnMappingEntry,
+  HeaderPreviewColumn,
+} from './types';
+import { normalizeHeader } from './headerMatching';
+import type { HeaderRename } from './headerFingerprint';
+
+/**
+ * Configuration saved with a template. Import mode and library name are left
+ * out on purpose: they describe a single upload, not the vendor's file layout.
+ */
+export type MappingTemplateConfig = Pick<
+  CatalogImportConfig,
+  'importKind' | 'screeningMode' | 'plateFormat' | 'defaultPlateId' | 'constantValues'
+>;
+
+export interface CatalogImportMappingTemplate {
+  id: string;
+  name: string;
+  organizationId: string;
+  /** Supplier whose files the template was made for */
+  vendorName?: string;
+  mapping: ColumnMapping;
+  config: MappingTemplateConfig;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What template matching needs; saved templates and built-in vendor profiles both fit */
+export type MappingTemplateCandidate = Pick<
+  CatalogImportMappingTemplate,
+  'id' | 'name' | 'vendorName' | 'mapping' | 'config'
+>;
+
+/** Fields provided when saving a template; the store fills in the rest */
+export interface SaveMappingTemplateInput {
+  /** Overwrite this template instead of creating a new one */
+  id?: string;
+  name: string;
+  organizationId: string;
+  vendorName?: string;
+  mapping: ColumnMapping;
+  config: MappingTemplateConfig;
+}
+
+/** Storage adapter for mapping templates. */
+export interface MappingTemplateStore {
+  /** Templates of an organization, most recently updated first */
+  list: (organizationId: string) => Promise<CatalogImportMappingTemplate[]>;
+  save: (input: SaveMappingTemplateInput) => Promise<CatalogImportMappingTemplate>;
+  remove: (organizationId: string, templateId: string) => Promise<void>;
+}
+
+function sortByUpdatedAt(templates: CatalogImportMappingTemplate[]) {
+  return [...templates].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function createTemplateId(): string {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ============================================================================
+// localStorage store
+// ============================================================================
+
+export interface LocalStorageTemplateStoreOptions {
+  /** Key prefix; templates are stored under `<prefix>:<organizationId>` */
+  storageKey?: string;
+  /** Defaults to window.localStorage */
+  storage?: Storage;
+}
+
+const DEFAULT_TEMPLATE_STORAGE_KEY = 'catalogImport.mappingTemplates';
+
+/**
+ * Store templates in the browser. Templates stay on the device they were
+ * saved on; use the REST store to share them across users.
+ */
+export function createLocalStorageTemplateStore(
+  options: LocalStorageTemplateStoreOptions = {},
+): MappingTemplateStore {
+  const prefix = options.storageKey ?? DEFAULT_TEMPLATE_STORAGE_KEY;
+  const getStorage = () =>
+    options.storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+  const keyFor = (organizationId: string) => `${prefix}:${organizationId}`;
+
+  const read = (organizationId: string): CatalogImportMappingTemplate[] => {
+    const raw = getStorage()?.getItem(keyFor(organizationId));
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // A corrupt entry should not block the wizard
+      return [];
+    }
+  };
+
+  const write = (organizationId: string, templates: CatalogImportMappingTemplate[]) => {
+    getStorage()?.setItem(keyFor(organizationId), JSON.stringify(templates));
+  };
+
+  return {
+    list: async (organizationId) => sortByUpdatedAt(read(organizationId)),
+
+    save: async (input) => {
+      const templates = read(input.organizationId);
+      const now = new Date().toISOString();
+      const existing = input.id ? templates.find((tpl) => tpl.id === input.id) : undefined;
+      const template: CatalogImportMappingTemplate = {
+        ...input,
+        id: existing?.id ?? createTemplateId(),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      write(input.organizationId, [template, ...templates.filter((tpl) => tpl.id !== template.id)]);
+
+      return template;
+    },
+
+    remove: async (organizationId, templateId) => {
+      write(
+        organizationId,
+        read(organizationId).filter((tpl) => tpl.id !== templateId),
+      );
+    },
+  };
+}
+
+// ============================================================================
+// REST store
+// ============================================================================
+
+export interface RestTemplateStoreConfig {
+  /** GET lists and POST creates the organization's templates */
+  templatesUrl: (organizationId: string) => string;
+  /** PUT updates and DELETE removes a single template */
+  templateUrl: (organizationId: string, templateId: string) => string;
+}
+
+async function readTemplateResponse(response: Response, fallbackMessage: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: fallbackMessage }));
+    console.log('[IMPORT_DEBUG] mapping templates error:', errorData);
+    throw new Error(errorData.message || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * Store templates on the backend so everyone in the organization shares them.
+ * List responses may be a bare array or `{ templates: [...] }`.
+ */
+export function createRestTemplateStore(config: RestTemplateStoreConfig): MappingTemplateStore {
+  return {
+    list: async (organizationId) => {
+      const url = config.templatesUrl(organizationId);
+      console.log('[IMPORT_DEBUG] listTemplates URL:', url);
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+      });
+      const data = await readTemplateResponse(response, 'Failed to load mapping templates');
+      const templates = Array.isArray(data)
+        ? data
+        : ((data as { templates?: CatalogImportMappingTemplate[] } | null)?.templates ?? []);
+
+      return sortByUpdatedAt(templates);
+    },
+
+    save: async ({ id, ...template }) => {
+      const url = id
+        ? config.templateUrl(template.organizationId, id)
+        : config.templatesUrl(template.organizationId);
+      console.log('[IMPORT_DEBUG] saveTemplate URL:', url);
+      const response = await fetch(url, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(template),
+      });
+
+      return readTemplateResponse(response, 'Failed to save mapping template');
+    },
+
+    remove: async (organizationId, templateId) => {
+      const url = config.templateUrl(organizationId, templateId);
+      console.log('[IMPORT_DEBUG] removeTemplate URL:', url);
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        await readTemplateResponse(response, 'Failed to delete mapping template');
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Applying templates
+// ============================================================================
+
+const headerKey = (header: string) => normalizeHeader(header).join(' ');
+
+/**
+ * Map `columns` with a template. Columns are matched by exact header first,
+ * then by normalized header (case, punctuation, spacing); columns the template
+ * does not know keep their mapping from `fallback` (usually auto-detection).
+ * `renames` (see diffHeaders) carry a template column's kind over to its new header.
+ * Matched columns get all of the template's entries for the header, transforms
+ * included.
+ */
+export function applyTemplateMapping(
+  template: Pick<CatalogImportMappingTemplate, 'mapping'>,
+  columns: HeaderPreviewColumn[],
+  fallback: ColumnMapping,
+  renames: HeaderRename[] = [],
+): ColumnMapping {
+  const byHeader = new Map<string, ColumnMappingEntry[]>();
+  for (const entry of template.mapping.mappings) {
+    byHeader.set(entry.fileColumn, [...(byHeader.get(entry.fileColumn) ?? []), entry]);
+  }
+  const exact = new Map(byHeader);
+  for (const { from, to } of renames) {
+    const entries = exact.get(from);
+    if (entries && !exact.has(to)) exact.set(to, entries);
+  }
+  const normalized = new Map(
+    [...byHeader]
+      // Headers made of punctuation only normalize to nothing and would all collide
+      .filter(([header]) => headerKey(header) !== '')
+      .map(([header, entries]) => [headerKey(header), entries]),
+  );
+  const fallbackKinds = new Map(fallback.mappings.map((m) => [m.fileColumn, m.mapTo]));
+
+  return {
+    mappings: columns.flatMap((col): ColumnMappingEntry[] => {
+      const entries = exact.get(col.fileColumn) ?? normalized.get(headerKey(col.fileColumn));
+      if (entries) return entries.map((entry) => ({ ...entry, fileColumn: col.fileColumn }));
+
+      return [{ fileColumn: col.fileColumn, mapTo: fallbackKinds.get(col.fileColumn) ?? 'ignore' }];
+    }),
+  };
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CatalogImportRequestError,
+  DEFAULT_POLLING_POLICY,
+  getPollDelay,
+  getRetryDelay,
+  isTransientError,
+  resolvePollingPolicy,
+} from './pollingPolicy';
+import { createImportJobRegistry } from './importJobRegistry';
+
+describe('getPollDelay', () => {
+  const policy = resolvePollingPolicy({
+    queuedIntervalMs: 1000,
+    queuedBackoffFactor: 2,
+    maxQueuedIntervalMs: 5000,
+    activeIntervalMs: 700,
+  });
+
+  it('grows the queued interval with every queued poll up to the maximum', () => {
+    expect([0, 1, 2, 3, 10].map((polls) => getPollDelay('queued', polls, policy))).toEqual([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+
+  it('polls active jobs at the fixed interval', () => {
+    expect(getPollDelay('active', 7, policy)).toBe(700);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = resolvePollingPolicy({ retryBaseDelayMs: 1000, retryMaxDelayMs: 8000 });
+
+  it('keeps half of the exponential delay fixed and jitters the other half', () => {
+    expect(getRetryDelay(0, policy, () => 0)).toBe(500);
+    expect(getRetryDelay(0, policy, () => 0.5)).toBe(750);
+    expect(getRetryDelay(0, policy, () => 1)).toBe(1000);
+    expect(getRetryDelay(2, policy, () => 0)).toBe(2000);
+    expect(getRetryDelay(2, policy, () => 1)).toBe(4000);
+  });
+
+  it('caps the exponential delay at retryMaxDelayMs', () => {
+    expect(getRetryDelay(10, policy, () => 0)).toBe(4000);
+    expect(getRetryDelay(10, policy, () => 1)).toBe(8000);
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries network failures and 5xx responses but not 4xx', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new CatalogImportRequestError('offline'))).toBe(true);
+    expect(isTransientError(new CatalogImportRequestError('bad gateway', 502))).toBe(true);
+    expect(isTransientError(new CatalogImportRequestError('not found', 404))).toBe(false);
+    expect(isTransientError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('resolvePollingPolicy', () => {
+  it('fills in defaults for missing fields', () => {
+    expect(resolvePollingPolicy({ maxRetries: 1 })).toEqual({
+      ...DEFAULT_POLLING_POLICY,
+      maxRetries: 1,
+    });
+  });
+});
+
+describe('status poll retries in the job registry', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    // Full jitter: every retry waits the whole exponential delay
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  const activeResponse = {
+    ok: true,
+    status: 200,
+    json: async () => ({ jobId: 'job-1', state: 'active', progressPct: 50 }),
+  };
+
+  it('backs off, surfaces the error after maxRetries and resets on success', async () => {
+    const registry = createImportJobRegistry({
+      startImportUrl: '/imports',
+      getStatusUrl: (jobId) => `/imports/${jobId}`,
+      getActiveImportsUrl: () => '/imports/active',
+      previewHeadersUrl: '/imports/preview',
+      pollingPolicy: {
+        maxRetries: 2,
+        retryBaseDelayMs: 100,
+        retryMaxDelayMs: 1000,
+        activeIntervalMs: 500,
+      },
+    });
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    registry.track('job-1');
+    const stop = registry.start();
+
+    // First poll and two retries, 100 and 200 ms apart
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(registry.getJob('job-1')?.error).toBeNull();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    // Retries exhausted: the error shows and polling continues at the maximum delay
+    expect(registry.getJob('job-1')?.error).toBe('Failed to fetch');
+    fetchMock.mockResolvedValueOnce(activeResponse);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(registry.getJob('job-1')?.error).toBeNull();
+    expect(registry.getJob('job-1')?.status?.progressPct).toBe(50);
+
+    // After a success the next failure starts over at the base delay
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    stop();
+  });
+});
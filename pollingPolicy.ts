@@ -0,0 +1,108 @@
+/**
+ * Polling policy for catalog import status checks.
+ *
+ * Queued jobs are polled with a growing interval (they can wait behind other
+ * imports for a long time), active jobs at a fixed fast interval. Transient
+ * failures (network errors and 5xx responses) are retried with jittered
+ * exponential backoff before the error is surfaced to the user.
+ */
+
+import { CatalogImportStatus } from './types';
+
+export interface CatalogImportPollingPolicy {
+  /** First poll interval while the job is queued (ms) */
+  queuedIntervalMs: number;
+  /** Upper bound for the queued interval after backoff (ms) */
+  maxQueuedIntervalMs: number;
+  /** Multiplier applied to the queued interval after every queued poll */
+  queuedBackoffFactor: number;
+  /** Poll interval while the job is active (ms) */
+  activeIntervalMs: number;
+  /** Stop polling while the browser tab is hidden and resume when it becomes visible */
+  pauseWhenHidden: boolean;
+  /** Retries for transient failures before the error is surfaced */
+  maxRetries: number;
+  /** Base delay for the first retry (ms); doubled on every further attempt */
+  retryBaseDelayMs: number;
+  /** Upper bound for a single retry delay (ms) */
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_POLLING_POLICY: CatalogImportPollingPolicy = {
+  queuedIntervalMs: 3000,
+  maxQueuedIntervalMs: 30000,
+  queuedBackoffFactor: 1.5,
+  activeIntervalMs: 1500,
+  pauseWhenHidden: true,
+  maxRetries: 4,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30000,
+};
+
+/**
+ * Error thrown for a failed status request. `status` is the HTTP status code,
+ * or undefined when the request never reached the server.
+ */
+export class CatalogImportRequestError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'CatalogImportRequestError';
+    this.status = status;
+  }
+}
+
+export function resolvePollingPolicy(
+  overrides?: Partial<CatalogImportPollingPolicy>,
+): CatalogImportPollingPolicy {
+  return { ...DEFAULT_POLLING_POLICY, ...overrides };
+}
+
+/**
+ * Delay before the next status poll.
+ *
+ * @param queuedPolls - Number of consecutive polls that returned `queued`
+ */
+export function getPollDelay(
+  state: CatalogImportStatus['state'],
+  queuedPolls: number,
+  policy: CatalogImportPollingPolicy,
+): number {
+  if (state === 'queued') {
+    const delay = policy.queuedIntervalMs * Math.pow(policy.queuedBackoffFactor, queuedPolls);
+
+    return Math.min(delay, policy.maxQueuedIntervalMs);
+  }
+
+  return policy.activeIntervalMs;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), using "equal jitter":
+ * half of the exponential delay is fixed, the other half is random.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: CatalogImportPollingPolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(
+    policy.retryBaseDelayMs * Math.pow(2, attempt),
+    policy.retryMaxDelayMs,
+  );
+
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Network failures (fetch rejects with a TypeError) and 5xx responses are
+ * worth retrying; 4xx responses are not.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof CatalogImportRequestError) {
+    return err.status === undefined || err.status >= 500;
+  }
+
+  return err instanceof TypeError;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { buildSdfHeaderPreview, parseSdf, SDF_MOLBLOCK_COLUMN } from './sdfReader';
+
+const ETHANOL_V2000 = `Ethanol
+  RDKit          2D
+
+  3  2  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    1.2990    0.7500    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    2.5981   -0.0000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0
+  2  3  1  0
+M  END`;
+
+const METHANE_V3000 = `Methane
+  RDKit          2D
+
+  0  0  0  0  0  0  0  0  0  0999 V3000
+M  V30 BEGIN CTAB
+M  V30 COUNTS 1 0 0 0 0
+M  V30 BEGIN ATOM
+M  V30 1 C 0.000000 0.000000 0.000000 0
+M  V30 END ATOM
+M  V30 END CTAB
+M  END`;
+
+describe('parseSdf', () => {
+  it('reads V2000 and V3000 records with their data items', () => {
+    const { records, errors } = parseSdf(
+      `${ETHANOL_V2000}\n> <CAS>\n64-17-5\n\n$$$$\n${METHANE_V3000}\n>  <CAS> (2)\n74-82-8\n\n$$$$\n`,
+    );
+
+    expect(errors).toEqual([]);
+    expect(
+      records.map(({ title, ctabVersion, atomCount, fields }) => ({
+        title,
+        ctabVersion,
+        atomCount,
+        fields,
+      })),
+    ).toEqual([
+      { title: 'Ethanol', ctabVersion: 'V2000', atomCount: 3, fields: { CAS: '64-17-5' } },
+      { title: 'Methane', ctabVersion: 'V3000', atomCount: 1, fields: { CAS: '74-82-8' } },
+    ]);
+    expect(records[0].molblock).toBe(ETHANOL_V2000);
+  });
+
+  it('reports a record without "M  END" and keeps reading', () => {
+    const truncated = ETHANOL_V2000.replace('M  END', '');
+    const { records, errors } = parseSdf(`${truncated}\n$$$$\n${METHANE_V3000}\n$$$$\n`);
+
+    expect(records.map((record) => record.index)).toEqual([2]);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        row: 1,
+        code: 'INVALID_MOLFILE',
+        fileColumn: SDF_MOLBLOCK_COLUMN,
+        error: 'Ethanol: Molblock has no "M  END" line',
+      }),
+    ]);
+  });
+
+  it('reads data items without blank lines between them', () => {
+    const { records } = parseSdf(
+      `${ETHANOL_V2000}\n> <CAS>\n64-17-5\n> <Catalog No>\nEN300-1\n> <Price>\n12.50\n$$$$\n`,
+    );
+
+    expect(records[0].fields).toEqual({ CAS: '64-17-5', 'Catalog No': 'EN300-1', Price: '12.50' });
+  });
+
+  it('joins multi-line values', () => {
+    const { records } = parseSdf(
+      `${ETHANOL_V2000}\n> <Notes>\nFlammable\nStore cold\n\n> <CAS>\n64-17-5\n\n$$$$\n`,
+    );
+
+    expect(records[0].fields).toEqual({ Notes: 'Flammable\nStore cold', CAS: '64-17-5' });
+  });
+
+  it('leaves a cut-off last record for the next read', () => {
+    const { records } = parseSdf(`${ETHANOL_V2000}\n$$$$\n${METHANE_V3000}`, Infinity, false);
+
+    expect(records.map((record) => record.title)).toEqual(['Ethanol']);
+  });
+});
+
+describe('buildSdfHeaderPreview', () => {
+  it('lists the molblock column first, then tags in order of appearance', () => {
+    const { records } = parseSdf(
+      `${ETHANOL_V2000}\n> <CAS>\n64-17-5\n\n$$$$\n${METHANE_V3000}\n> <Price>\n3\n\n> <CAS>\n74-82-8\n\n$$$$\n`,
+    );
+    const preview = buildSdfHeaderPreview(records);
+
+    expect(preview.columns).toEqual([
+      {
+        fileColumn: SDF_MOLBLOCK_COLUMN,
+        samples: ['Ethanol (V2000, 3 atoms)', 'Methane (V3000, 1 atoms)'],
+      },
+      { fileColumn: 'CAS', samples: ['64-17-5', '74-82-8'] },
+      { fileColumn: 'Price', samples: ['3'] },
+    ]);
+    expect(preview.rows?.[0].slice(1)).toEqual(['64-17-5', '']);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Reader for SD files (.sdf): records separated by `$$$$`, each a molblock
+ * (V2000 or V3000) followed by `> <TAG>` data items.
+ *
+ * Every data tag becomes a virtual column and the molblock itself is exposed
+ * as SDF_MOLBLOCK_COLUMN, so SD files go through the same column mapping as
+ * tabular files.
+ */
+
+import { CatalogImportError, HeaderPreviewColumn, HeaderPreviewResponse } from './types';
+import { detectEncoding } from './localHeaderPreview';
+
+/** Virtual column holding each record's molblock; auto-mapped to `molfile` */
+export const SDF_MOLBLOCK_COLUMN = 'MOL_BLOCK';
+
+export interface SdfRecord {
+  /** 1-based position of the record in the file */
+  index: number;
+  molblock: string;
+  /** Title line of the molblock (often the compound name or ID) */
+  title: string;
+  ctabVersion: 'V2000' | 'V3000' | null;
+  atomCount: number;
+  /** Data items by tag, in file order */
+  fields: Record<string, string>;
+}
+
+export interface SdfParseResult {
+  records: SdfRecord[];
+  /** Malformed records, with `row` set to the record index */
+  errors: CatalogImportError[];
+}
+
+export interface SdfPreviewOptions {
+  /** Records collected as samples (default: 10) */
+  sampleRecords?: number;
+  /** Records returned as rows for the data preview grid (default: 200) */
+  previewRecords?: number;
+  /** Stop reading after this many bytes (default: 4 MiB) */
+  maxBytes?: number;
+}
+
+const DEFAULT_SAMPLE_RECORDS = 10;
+const DEFAULT_PREVIEW_RECORDS = 200;
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
+const SDF_EXTENSIONS = ['.sdf', '.sd'];
+const RECORD_SEPARATOR = /^\$\$\$\$\s*$/;
+/** `> <TAG>`, also with a registry number or `(n)` suffix: `>  <TAG> (1)` */
+const DATA_HEADER = /^>.*?<([^>]+)>/;
+
+export function isSdfFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+
+  return SDF_EXTENSIONS.some((ext) => name.endsWith(ext)) || file.type === 'chemical/x-mdl-sdfile';
+}
+
+/**
+ * Check the connection table of a molblock. Returns the CTAB version and atom
+ * count, or an error message when the block is malformed.
+ */
+function inspectMolblock(
+  lines: string[],
+): { ctabVersion: 'V2000' | 'V3000'; atomCount: number } | { error: string } {
+  if (lines.length < 4) {
+    return { error: 'Molblock is shorter than the 3 header lines and counts line' };
+  }
+  if (!lines.some((line) => line.startsWith('M  END'))) {
+    return { error: 'Molblock has no "M  END" line' };
+  }
+
+  const counts = lines[3];
+  if (counts.includes('V3000')) {
+    const body = lines.slice(4);
+    const countsLine = body.find((line) => line.startsWith('M  V30 COUNTS'));
+    if (!body.some((line) => line.startsWith('M  V30 BEGIN CTAB'))) {
+      return { error: 'V3000 molblock has no "BEGIN CTAB" block' };
+    }
+    if (!countsLine) {
+      return { error: 'V3000 molblock has no COUNTS line' };
+    }
+    const atomCount = parseInt(countsLine.split(/\s+/)[3] ?? '', 10);
+    if (!Number.isFinite(atomCount)) {
+      return { error: 'V3000 COUNTS line has no atom count' };
+    }
+
+    return { ctabVersion: 'V3000', atomCount };
+  }
+
+  // V2000 (or an unversioned counts line, which is V2000 by convention)
+  const atomCount = parseInt(counts.slice(0, 3), 10);
+  const bondCount = parseInt(counts.slice(3, 6), 10);
+  if (!Number.isFinite(atomCount) || !Number.isFinite(bondCount)) {
+    return { error: `Invalid V2000 counts line: "${counts.trim()}"` };
+  }
+  if (lines.length < 4 + atomCount + bondCount) {
+    return {
+      error: `V2000 molblock declares ${atomCount} atoms and ${bondCount} bonds but is truncated`,
+    };
+  }
+
+  return { ctabVersion: 'V2000', atomCount };
+}
+
+function parseRecord(lines: string[], index: number): SdfRecord | CatalogImportError {
+  const endIndex = lines.findIndex((line) => line.startsWith('M  END'));
+  const molLines = endIndex >= 0 ? lines.slice(0, endIndex + 1) : lines;
+  const title = (molLines[0] ?? '').trim();
+
+  const fields: Record<string, string> = {};
+  let tag: string | null = null;
+  let value: string[] = [];
+  for (const line of endIndex >= 0 ? lines.slice(endIndex + 1) : []) {
+    const header = DATA_HEADER.exec(line);
+    if (header) {
+      // Some writers leave out the blank line before the next data item
+      if (tag !== null) fields[tag] = value.join('\n');
+      tag = header[1].trim();
+      value = [];
+    } else if (tag !== null && line.trim() === '') {
+      fields[tag] = value.join('\n');
+      tag = null;
+    } else if (tag !== null) {
+      value.push(line);
+    }
+  }
+  // Last data item without the trailing blank line
+  if (tag !== null) fields[tag] = value.join('\n');
+
+  const inspected = inspectMolblock(molLines);
+  if ('error' in inspected) {
+    return {
+      row: index,
+      error: title ? `${title}: ${inspected.error}` : inspected.error,
+      code: 'INVALID_MOLFILE',
+      fileColumn: SDF_MOLBLOCK_COLUMN,
+      mapTo: 'molfile',
+      severity: 'error',
+    };
+  }
+
+  return {
+    index,
+    molblock: molLines.join('\n'),
+    title,
+    ctabVersion: inspected.ctabVersion,
+    atomCount: inspected.atomCount,
+    fields,
+  };
+}
+
+/**
+ * Split SD file text into records. Stops after `maxRecords` records.
+ * A trailing record without `$$$$` is only parsed when `complete` is true,
+ * since it may have been cut off.
+ */
+export function parseSdf(text: string, maxRecords = Infinity, complete = true): SdfParseResult {
+  const records: SdfRecord[] = [];
+  const errors: CatalogImportError[] = [];
+  let lines: string[] = [];
+  let index = 0;
+
+  const endRecord = () => {
+    // Skip blank records, e.g. a trailing newline after the last `$$$$`
+    if (lines.some((line) => line.trim() !== '')) {
+      index++;
+      const result = parseRecord(lines, index);
+      if ('molblock' in result) records.push(result);
+      else errors.push(result);
+    }
+    lines = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (index >= maxRecords) break;
+    if (RECORD_SEPARATOR.test(line)) {
+      endRecord();
+    } else {
+      lines.push(line);
+    }
+  }
+  if (complete && index < maxRecords) endRecord();
+
+  return { records, errors };
+}
+
+/**
+ * Turn parsed records into the preview endpoint's shape: the molblock column
+ * first, then every data tag in order of first appearance. Samples come from
+ * the first `sampleRecords` records; every record becomes a preview row.
+ */
+export function buildSdfHeaderPreview(
+  records: SdfRecord[],
+  sampleRecords = records.length,
+): HeaderPreviewResponse {
+  const sampled = records.slice(0, sampleRecords);
+  const molblockColumn: HeaderPreviewColumn = {
+    fileColumn: SDF_MOLBLOCK_COLUMN,
+    // Full molblocks are unreadable as samples; show the title and size instead
+    samples: sampled.map(
+      (record) =>
+        `${record.title || `#${record.index}`} (${record.ctabVersion}, ${record.atomCount} atoms)`,
+    ),
+  };
+
+  const tagColumns = new Map<string, HeaderPreviewColumn>();
+  records.forEach((record, recordIndex) => {
+    for (const [tag, value] of Object.entries(record.fields)) {
+      let column = tagColumns.get(tag);
+      if (!column) {
+        column = { fileColumn: tag, samples: [] };
+        tagColumns.set(tag, column);
+      }
+      if (recordIndex < sampleRecords && value.trim()) column.samples.push(value.trim());
+    }
+  });
+
+  const tags = [...tagColumns.keys()];
+
+  return {
+    columns: [molblockColumn, ...tagColumns.values()],
+    rows: records.map((record) => [
+      record.molblock,
+      ...tags.map((tag) => record.fields[tag] ?? ''),
+    ]),
+  };
+}
+
+/**
+ * Read the first records of an SD file in the browser and build a header
+ * preview. Malformed records among them are returned as `errors`.
+ */
+export async function previewSdfLocally(
+  file: File,
+  options: SdfPreviewOptions = {},
+): Promise<HeaderPreviewResponse> {
+  const sampleRecords = options.sampleRecords ?? DEFAULT_SAMPLE_RECORDS;
+  const maxRecords = Math.max(sampleRecords, options.previewRecords ?? DEFAULT_PREVIEW_RECORDS);
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const reader = file.stream().getReader();
+
+  let decoder: TextDecoder | null = null;
+  let text = '';
+  let bytesRead = 0;
+  let done = false;
+
+  try {
+    while (!done && bytesRead < maxBytes) {
+      const chunk = await reader.read();
+      done = chunk.done;
+      let bytes = chunk.value ?? new Uint8Array(0);
+      bytesRead += bytes.length;
+
+      if (!decoder) {
+        if (bytes.length === 0 && !done) continue;
+        const detected = detectEncoding(bytes);
+        decoder = new TextDecoder(detected.encoding);
+        bytes = bytes.subarray(detected.bomLength);
+      }
+      text += decoder.decode(bytes, { stream: !done });
+
+      const separators = text.match(/^\$\$\$\$/gm)?.length ?? 0;
+      if (separators >= maxRecords) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {
+      // Nothing left to release
+    });
+  }
+
+  const { records, errors } = parseSdf(text, maxRecords, done || bytesRead >= file.size);
+  if (records.length === 0 && errors.length === 0) {
+    throw new Error('File contains no SDF records');
+  }
+
+  return { ...buildSdfHeaderPreview(records, sampleRecords), errors };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeaderRowIndex, isSpreadsheetFileName } from './spreadsheetPreview';
+
+const DATA = [
+  ['EN300-1', 'Benzoic acid', '65-85-0', '12.50'],
+  ['EN300-2', 'Ethanol', '64-17-5', '8.00'],
+  ['EN300-3', 'Acetone', '67-64-1', '9.75'],
+];
+const HEADER = ['Catalog No', 'Name', 'CAS', 'Price'];
+
+describe('detectHeaderRowIndex', () => {
+  it('picks the first row of a plain table', () => {
+    expect(detectHeaderRowIndex([HEADER, ...DATA])).toBe(0);
+  });
+
+  it('skips title banners and notes above the table', () => {
+    const rows = [
+      ['Enamine building blocks price list'],
+      ['Valid until 2026-12-31', '', ''],
+      [],
+      HEADER,
+      ...DATA,
+    ];
+
+    expect(detectHeaderRowIndex(rows)).toBe(3);
+  });
+
+  it('prefers a text row over a numeric row of the same width', () => {
+    const rows = [
+      ['2026', '1', '2', '3'],
+      ['Plate', 'Well', 'Amount', 'Unit'],
+      ['P1', 'A01', '10', 'mg'],
+      ['P1', 'A02', '10', 'mg'],
+    ];
+
+    expect(detectHeaderRowIndex(rows)).toBe(1);
+  });
+
+  it('prefers distinct header names over a banner split across repeated cells', () => {
+    const rows = [['Catalog', 'Catalog', 'Catalog', 'Catalog'], HEADER, ...DATA];
+
+    expect(detectHeaderRowIndex(rows)).toBe(1);
+  });
+
+  it('returns 0 when no row looks like a header', () => {
+    expect(detectHeaderRowIndex([])).toBe(0);
+    expect(detectHeaderRowIndex([['only one cell'], ['1', '2'], ['3', '4']])).toBe(0);
+  });
+
+  it('only searches the first 20 rows', () => {
+    const banner = Array.from({ length: 20 }, () => ['note']);
+
+    expect(detectHeaderRowIndex([...banner, HEADER, ...DATA])).toBe(0);
+  });
+});
+
+describe('isSpreadsheetFileName', () => {
+  it('matches spreadsheet extensions in any case', () => {
+    expect(isSpreadsheetFileName('Catalog.XLSX')).toBe(true);
+    expect(isSpreadsheetFileName('catalog.ods')).toBe(true);
+    expect(isSpreadsheetFileName('catalog.csv')).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Helpers for spreadsheet files (sheet and header-row selection).
+ * The workbook itself is read by the preview endpoint, which returns the
+ * sheet names and the first raw rows of the selected sheet.
+ */
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xlsm', '.xls', '.ods'];
+
+/** Rows searched for the header; vendor banners rarely run longer */
+const MAX_HEADER_SCAN_ROWS = 20;
+/** Rows below a candidate compared with it for a consistent width */
+const CONSISTENCY_ROWS = 5;
+
+const NUMERIC_CELL = /^[-+]?[\d\s.,%$€£]+$/;
+
+export function isSpreadsheetFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+
+  return SPREADSHEET_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+function filledCells(row: string[]): string[] {
+  return row.map((cell) => cell.trim()).filter((cell) => cell !== '');
+}
+
+/**
+ * Guess which raw row holds the column headers. Title banners and notes above
+ * the table fill one or two cells; the header row fills many cells with
+ * distinct, non-numeric text and is followed by rows of similar width.
+ * Returns 0 when no row looks like a header.
+ */
+export function detectHeaderRowIndex(rawRows: string[][]): number {
+  let bestIndex = 0;
+  let bestScore = 0;
+
+  const scanRows = Math.min(rawRows.length, MAX_HEADER_SCAN_ROWS);
+  for (let i = 0; i < scanRows; i++) {
+    const cells = filledCells(rawRows[i]);
+    if (cells.length < 2) continue;
+
+    const textShare = cells.filter((cell) => !NUMERIC_CELL.test(cell)).length / cells.length;
+    const uniqueShare = new Set(cells.map((cell) => cell.toLowerCase())).size / cells.length;
+
+    const below = rawRows.slice(i + 1, i + 1 + CONSISTENCY_ROWS).map((row) => filledCells(row));
+    const consistency =
+      below.length > 0
+        ? below.reduce(
+            (sum, row) =>
+              sum + Math.min(row.length, cells.length) / Math.max(row.length, cells.length, 1),
+            0,
+          ) / below.length
+        : 0.5;
+
+    const score = cells.length * textShare * uniqueShare * (0.5 + 0.5 * consistency);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+}
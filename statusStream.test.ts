@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectStatusStream, getStatusStreamTransport } from './statusStream';
+
+/** Local stand-in for the browser EventSource */
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(
+    readonly url: string,
+    readonly init?: EventSourceInit,
+  ) {
+    FakeEventSource.instances.push(this);
+  }
+
+  emit(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('getStatusStreamTransport', () => {
+  it('uses a WebSocket for ws(s) URLs and SSE otherwise', () => {
+    expect(getStatusStreamTransport('wss://api.example.com/imports/1')).toBe('websocket');
+    expect(getStatusStreamTransport('ws://localhost/imports/1')).toBe('websocket');
+    expect(getStatusStreamTransport('https://api.example.com/imports/1/stream')).toBe('sse');
+  });
+});
+
+describe('connectStatusStream (SSE)', () => {
+  afterEach(() => {
+    FakeEventSource.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  const connect = () => {
+    vi.stubGlobal('EventSource', FakeEventSource);
+    const handlers = { onMessage: vi.fn(), onDisconnect: vi.fn() };
+    const connection = connectStatusStream('https://api.example.com/stream', 'sse', handlers);
+
+    return { handlers, connection, source: FakeEventSource.instances[0] };
+  };
+
+  it('opens the source with credentials and forwards parsed JSON messages', () => {
+    const { handlers, source } = connect();
+
+    expect(source.url).toBe('https://api.example.com/stream');
+    expect(source.init).toEqual({ withCredentials: true });
+
+    source.emit(JSON.stringify({ jobId: 'job-1', state: 'active' }));
+    source.emit('not json');
+    source.emit(JSON.stringify(42));
+
+    expect(handlers.onMessage).toHaveBeenCalledTimes(1);
+    expect(handlers.onMessage).toHaveBeenCalledWith({ jobId: 'job-1', state: 'active' });
+  });
+
+  it('closes the source and reports a single disconnect on error', () => {
+    const { handlers, source } = connect();
+
+    source.onerror?.();
+    source.onerror?.();
+
+    expect(source.closed).toBe(true);
+    expect(handlers.onDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not report a disconnect after the caller closed the stream', () => {
+    const { handlers, connection, source } = connect();
+
+    connection.close();
+    source.onerror?.();
+
+    expect(source.closed).toBe(true);
+    expect(handlers.onDisconnect).not.toHaveBeenCalled();
+  });
+});
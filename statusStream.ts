@@ -0,0 +1,98 @@
+/**
+ * Push-based import status streaming.
+ *
+ * Subscribes to a Server-Sent Events endpoint (http/https URLs) or a WebSocket
+ * (ws/wss URLs) that emits ImportStatusResponseDto payloads as JSON messages.
+ * The stream never retries on its own: any error or close is reported through
+ * `onDisconnect` so the caller can fall back to polling.
+ */
+
+export type StatusStreamTransport = 'sse' | 'websocket';
+
+export interface StatusStreamHandlers {
+  /** Called with every parsed JSON message received on the stream */
+  onMessage: (data: Record<string, unknown>) => void;
+  /** Called once when the stream errors or is closed by the server */
+  onDisconnect: () => void;
+}
+
+export interface StatusStreamConnection {
+  close: () => void;
+}
+
+/**
+ * Opens a status stream. Apps (and tests) can provide their own connector to
+ * replace the browser EventSource/WebSocket with a local stand-in.
+ */
+export type StatusStreamConnector = (
+  url: string,
+  transport: StatusStreamTransport,
+  handlers: StatusStreamHandlers,
+) => StatusStreamConnection;
+
+/**
+ * Pick the transport from the URL scheme: ws:// and wss:// use a WebSocket,
+ * everything else is treated as an SSE endpoint.
+ */
+export function getStatusStreamTransport(url: string): StatusStreamTransport {
+  return /^wss?:\/\//i.test(url) ? 'websocket' : 'sse';
+}
+
+function parseMessage(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const parsed = JSON.parse(raw);
+
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Default connector backed by the browser EventSource and WebSocket APIs.
+ */
+export const connectStatusStream: StatusStreamConnector = (url, transport, handlers) => {
+  let closed = false;
+
+  const disconnect = () => {
+    if (closed) return;
+    closed = true;
+    handlers.onDisconnect();
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    const data = parseMessage(event.data);
+    if (data) handlers.onMessage(data);
+  };
+
+  if (transport === 'websocket') {
+    const socket = new WebSocket(url);
+    socket.onmessage = handleMessage;
+    socket.onerror = disconnect;
+    socket.onclose = disconnect;
+
+    return {
+      close: () => {
+        closed = true;
+        socket.close();
+      },
+    };
+  }
+
+  // EventSource reconnects by itself after an error; close it so the hook
+  // falls back to polling instead of silently waiting on a dead endpoint.
+  const source = new EventSource(url, { withCredentials: true });
+  source.onmessage = handleMessage;
+  source.onerror = () => {
+    source.close();
+    disconnect();
+  };
+
+  return {
+    close: () => {
+      closed = true;
+      source.close();
+    },
+  };
+};
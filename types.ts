@@ -2,6 +2,7 @@
  * Shared types for catalog import functionality.
  * Used by both Admin-Dashboard and Frontend applications.
  */
+import { buildMappingOptionGroups, mapMappingKinds } from './mappingKinds';
 
 // ============================================================================
 // Core Import Types
@@ -104,11 +105,47 @@ export type ColumnMappingKind =
   | 'ignore';
 
 /**
- * Single column mapping entry.
+ * One step of a column transform pipeline, applied to the cell value before
+ * it is stored in the mapped field. Sent to the backend as-is.
+ */
+export type ColumnTransform =
+  /**
+   * Keep one part of the value split at `delimiter`; `index` is 0-based and
+   * counts from the end when negative. Parts are trimmed.
+   */
+  | { type: 'split'; delimiter: string; index: number }
+  /**
+   * Keep capture `group` of the first match (default 1; the whole match when
+   * the pattern has no such group). Empty when nothing matches.
+   */
+  | { type: 'regex'; pattern: string; flags?: string; group?: number }
+  /** Append the values of other columns of the same row, joined with `separator` */
+  | { type: 'concat'; columns: string[]; separator: string }
+  | { type: 'trim' }
+  | { type: 'case'; to: 'upper' | 'lower' }
+  /**
+   * Replace whole values found in `table` (case-insensitive unless
+   * `caseSensitive`); other values become `otherwise`, or are kept without it
+   */
+  | {
+      type: 'lookup';
+      table: Record<string, string>;
+      caseSensitive?: boolean;
+      otherwise?: string;
+    };
+
+export type ColumnTransformType = ColumnTransform['type'];
+
+/**
+ * Single column mapping entry. A column may have several entries, e.g. to
+ * split "10 mg / $45" into package size and price; the first one is the
+ * column's main mapping.
  */
 export interface ColumnMappingEntry {
   fileColumn: string;
   mapTo: ColumnMappingKind;
+  /** Applied in order to the column's values; omitted for plain 1:1 mappings */
+  transforms?: ColumnTransform[];
 }
 
 /**
@@ -118,6 +155,31 @@ export interface ColumnMapping {
   mappings: ColumnMappingEntry[];
 }
 
+/**
+ * File-wide values per mapping kind, e.g. the vendor of a file without a
+ * vendor column; every row gets the value.
+ */
+export type ConstantValues = Partial<Record<ColumnMappingKind, string>>;
+
+/** What an auto-detected mapping is based on */
+export type MappingDetectionSource =
+  | 'header'
+  | 'content'
+  | 'header+content'
+  // A correction the organization made on an earlier import
+  | 'learned'
+  | 'none';
+
+/**
+ * Auto-detected mapping of one column, with header and content evidence
+ * combined into a single confidence.
+ */
+export interface ColumnMappingDetection extends ColumnMappingEntry {
+  /** 0-1; 0 for columns left on `ignore` */
+  confidence: number;
+  source: MappingDetectionSource;
+}
+
 /**
  * Single column from header preview response.
  */
@@ -131,16 +193,99 @@ export interface HeaderPreviewColumn {
  */
 export interface HeaderPreviewResponse {
   columns: HeaderPreviewColumn[];
+  /** Records that could not be read while previewing (e.g. malformed SDF records) */
+  errors?: CatalogImportError[];
+  /** Sheet names in workbook order (spreadsheets only) */
+  sheets?: string[];
+  /** Sheet the columns were read from */
+  sheetName?: string;
+  /** 0-based row of the sheet used as the header */
+  headerRowIndex?: number;
+  /** First rows of the sheet as-is, for choosing the header row */
+  rawRows?: string[][];
+  /** First data rows below the header, cells in `columns` order (for the data preview grid) */
+  rows?: string[][];
+}
+
+/**
+ * Which part of a spreadsheet to preview. Omitted fields fall back to the
+ * first sheet and the backend's header row.
+ */
+export interface HeaderPreviewOptions {
+  sheetName?: string;
+  headerRowIndex?: number;
+}
+
+/**
+ * What a replace-mode import would delete: existing records of the
+ * organization that are not in the file.
+ */
+export interface ReplaceImpactPreview {
+  products: number;
+  packages: number;
+  /** Screening library entries (screening compound imports only) */
+  libraryEntries: number;
+  /** Some of the SKUs that would be removed */
+  sampleSkus: string[];
 }
 
 // ============================================================================
 // Import Status Types
 // ============================================================================
 
+/**
+ * Machine-readable reason for a row error.
+ * Older backends send only a free-text message, in which case `code` is absent.
+ */
+export type CatalogImportErrorCode =
+  | 'MISSING_REQUIRED'
+  | 'INVALID_SMILES'
+  | 'INVALID_MOLFILE'
+  | 'INVALID_CAS'
+  | 'INVALID_NUMBER'
+  | 'INVALID_UNIT'
+  | 'INVALID_CURRENCY'
+  | 'INVALID_WELL'
+  | 'INVALID_PLATE_FORMAT'
+  | 'DUPLICATE_SKU'
+  | 'DUPLICATE_WELL'
+  | 'VALUE_OUT_OF_RANGE'
+  | 'VALUE_TOO_LONG'
+  | 'UNKNOWN';
+
+export const CATALOG_IMPORT_ERROR_CODES: CatalogImportErrorCode[] = [
+  'MISSING_REQUIRED',
+  'INVALID_SMILES',
+  'INVALID_MOLFILE',
+  'INVALID_CAS',
+  'INVALID_NUMBER',
+  'INVALID_UNIT',
+  'INVALID_CURRENCY',
+  'INVALID_WELL',
+  'INVALID_PLATE_FORMAT',
+  'DUPLICATE_SKU',
+  'DUPLICATE_WELL',
+  'VALUE_OUT_OF_RANGE',
+  'VALUE_TOO_LONG',
+  'UNKNOWN',
+];
+
+export type CatalogImportErrorSeverity = 'error' | 'warning';
+
 export interface CatalogImportError {
   row: number;
   sku?: string;
+  /** Human-readable message (the only field legacy backends send besides row/sku) */
   error: string;
+  code?: CatalogImportErrorCode;
+  /** File header of the offending cell */
+  fileColumn?: string;
+  /** Mapping kind the offending column was mapped to */
+  mapTo?: ColumnMappingKind;
+  /** Raw cell value as read from the file */
+  value?: string;
+  /** Warnings were imported anyway; errors rejected the row (default: 'error') */
+  severity?: CatalogImportErrorSeverity;
 }
 
 export interface CatalogImportProgress {
@@ -170,6 +315,19 @@ export interface CatalogImportStatus {
   stage?: 'parsing' | 'upserting' | 'image_generation' | 'finalizing';
   /** Human-readable progress message from backend */
   message?: string;
+  /**
+   * Job only parsed and validated the file; inserted/updated are what a real
+   * import would do
+   */
+  validateOnly?: boolean;
+}
+
+/**
+ * Response from the active imports endpoint: the organization's queued and
+ * running jobs, each mapped into the CatalogImportStatus shape.
+ */
+export interface ActiveCatalogImportsResponse {
+  imports: CatalogImportStatus[];
 }
 
 // ============================================================================
@@ -192,13 +350,16 @@ export interface CatalogImportConfig {
   plateFormat?: PlateFormat;
   /** Default Plate ID for pre-plated kits (only when screeningMode is PLATED_KIT) */
   defaultPlateId?: string;
+  /** Constant values for fields missing from the file */
+  constantValues?: ConstantValues;
 }
 
 /**
  * Parameters for starting a catalog import.
  */
 export interface StartCatalogImportParams {
-  organizationId: string;
+  /** Ignored by useCatalogImport, which sends the organization it was created with */
+  organizationId?: string;
   fileId: string;
   mode: CatalogImportMode;
   importKind?: CatalogImportKind;
@@ -208,19 +369,42 @@ export interface StartCatalogImportParams {
   libraryName?: string;
   plateFormat?: PlateFormat;
   defaultPlateId?: string;
+  /** Constant values for fields missing from the file, keyed by mapping kind */
+  constantValues?: ConstantValues;
+  /** Parse and validate the file without writing anything */
+  validateOnly?: boolean;
+  /** Spreadsheet files: sheet to import (default: first sheet) */
+  sheetName?: string;
+  /** Spreadsheet files: 0-based row holding the column headers */
+  headerRowIndex?: number;
 }
 
 // ============================================================================
 // Validation Types
 // ============================================================================
 
+export type ValidationSeverity = 'error' | 'warning';
+
+/** One broken validation rule, with an i18n key for hosts that translate messages */
+export interface ValidationIssue {
+  ruleId: string;
+  severity: ValidationSeverity;
+  messageKey: string;
+  /** English message */
+  message: string;
+  /** Interpolation values for the translated message */
+  params?: Record<string, string>;
+}
+
 /**
  * Validation result for column mapping.
  */
 export interface ValidationResult {
   valid: boolean;
+  /** English messages of the issues, by severity */
   errors: string[];
   warnings: string[];
+  issues: ValidationIssue[];
 }
 
 // ============================================================================
@@ -232,219 +416,29 @@ export interface MappingOptionGroup {
   options: ColumnMappingKind[];
 }
 
-/** Human-readable labels for column mapping kinds */
-export const MAPPING_LABELS: Record<ColumnMappingKind, string> = {
-  // Compound Identifiers
-  catalogNumber: 'Catalog Number',
-  cas: 'CAS Number',
-  inchiKey: 'InChI Key',
-  productName: 'Product Name',
-  compoundId: 'Compound ID',
-  mdlNumber: 'MDL Number',
-  // Plate Map
-  plateId: 'Plate ID',
-  well: 'Well',
-  row: 'Row',
-  column: 'Column',
-  // Library Metadata
-  libraryName: 'Library Name',
-  libraryId: 'Library ID',
-  targetName: 'Target Name',
-  pathway: 'Pathway',
-  application: 'Application / Use Case',
-  description: 'Description',
-  moleculeType: 'Molecule Type',
-  alias: 'Alias',
-  mechanismOfAction: 'Mechanism of Action',
-  // Structure
-  smiles: 'SMILES',
-  mdl: 'MDL/Molfile',
-  molfile: 'Molfile (.mol)',
-  // Chemistry Descriptors
-  molFormula: 'Molecular Formula',
-  molWeight: 'Molecular Weight',
-  saltData: 'Salt Data',
-  purity: 'Purity',
-  chiralPurity: 'Chiral Purity',
-  // Supply & Handling
-  concentration: 'Concentration',
-  volume: 'Volume',
-  solvent: 'Solvent',
-  storageConditions: 'Storage Conditions',
-  // Commercial
-  packageSize: 'Package Size',
-  unitPrice: 'Unit Price',
-  inventoryAvailable: 'Inventory Available',
-  leadTime: 'Lead Time',
-  moq: 'MOQ (Min. Order Qty)',
-  // Product Info
-  vendorName: 'Vendor Name',
-  appearance: 'Appearance',
-  solubility: 'Solubility',
-  shelfLife: 'Shelf Life',
-  physicalForm: 'Physical Form',
-  notes: 'Notes',
-  // Quality & Compliance
-  sdsAvailable: 'SDS Available (Y/N)',
-  coaAvailable: 'COA Available (Y/N)',
-  retestOrExpiry: 'Re-test Date / Expiry',
-  customSynthesis: 'Custom Synthesis (Y/N)',
-  hsCode: 'HS Code',
-  // Screening Annotations
-  controlType: 'Control Type',
-  batchId: 'Batch ID',
-  // Hazard & Operational
-  hazmat: 'Hazmat (Yes/No)',
-  // Product Metadata
-  countryOfOrigin: 'Country of Origin',
-  // Warehouse
-  warehouseCode: 'Warehouse Code',
-  warehouseName: 'Warehouse Name',
-  warehouseCountry: 'Warehouse Country',
-  warehouseCity: 'Warehouse City',
-  warehouseLeadTimeDays: 'Warehouse Lead Time (Days)',
-  warehouseStockQty: 'Warehouse Stock Qty',
-  warehousePrice: 'Warehouse Price',
-  // Other
-  ignore: 'Ignore Column',
-};
+/** Human-readable labels for column mapping kinds (see mappingKinds.ts) */
+export const MAPPING_LABELS: Record<ColumnMappingKind, string> = mapMappingKinds(
+  (definition) => definition.label,
+);
+
+/**
+ * How many file columns may map to a kind. `single` kinds hold one value per
+ * row, so a second column would conflict (the backend would silently keep
+ * one); `multiple` kinds are free text the backend collects from every column.
+ */
+export type MappingCardinality = 'single' | 'multiple';
+
+export const MAPPING_CARDINALITY: Record<ColumnMappingKind, MappingCardinality> = mapMappingKinds(
+  (definition) => definition.cardinality,
+);
 
 /** Grouped mapping options for BUILDING_BLOCK imports */
-export const BUILDING_BLOCK_OPTIONS: MappingOptionGroup[] = [
-  {
-    group: 'Compound Identifiers',
-    options: ['catalogNumber', 'cas', 'inchiKey', 'productName', 'mdlNumber'],
-  },
-  {
-    group: 'Structure',
-    options: ['smiles', 'molfile'],
-  },
-  {
-    group: 'Chemistry',
-    options: ['molFormula', 'molWeight', 'saltData', 'purity', 'chiralPurity'],
-  },
-  {
-    group: 'Research Metadata',
-    options: [
-      'targetName',
-      'pathway',
-      'application',
-      'description',
-      'moleculeType',
-      'alias',
-      'mechanismOfAction',
-    ],
-  },
-  {
-    group: 'Commercial',
-    options: ['packageSize', 'unitPrice', 'inventoryAvailable', 'leadTime', 'moq'],
-  },
-  {
-    group: 'Product Info',
-    options: [
-      'vendorName',
-      'countryOfOrigin',
-      'storageConditions',
-      'appearance',
-      'solubility',
-      'shelfLife',
-      'physicalForm',
-      'notes',
-    ],
-  },
-  {
-    group: 'Quality & Compliance',
-    options: [
-      'sdsAvailable',
-      'coaAvailable',
-      'customSynthesis',
-      'retestOrExpiry',
-      'hsCode',
-      'hazmat',
-    ],
-  },
-  {
-    group: 'Warehouses',
-    options: [
-      'warehouseCode',
-      'warehouseName',
-      'warehouseCountry',
-      'warehouseCity',
-      'warehouseLeadTimeDays',
-      'warehouseStockQty',
-      'warehousePrice',
-    ],
-  },
-  {
-    group: 'Other',
-    options: ['ignore'],
-  },
-];
+export const BUILDING_BLOCK_OPTIONS: MappingOptionGroup[] =
+  buildMappingOptionGroups('BUILDING_BLOCK');
 
 /** Grouped mapping options for SCREENING_COMPOUND imports */
-export const SCREENING_COMPOUND_OPTIONS: MappingOptionGroup[] = [
-  {
-    group: 'Plate Map',
-    options: ['plateId', 'well', 'row', 'column'],
-  },
-  {
-    group: 'Compound Identifiers',
-    options: ['compoundId', 'catalogNumber', 'cas', 'inchiKey', 'productName', 'mdlNumber'],
-  },
-  {
-    group: 'Structure',
-    options: ['smiles', 'molfile'],
-  },
-  {
-    group: 'Library & Kit Metadata',
-    options: [
-      'libraryName',
-      'libraryId',
-      'targetName',
-      'pathway',
-      'application',
-      'description',
-      'moleculeType',
-      'alias',
-      'mechanismOfAction',
-    ],
-  },
-  {
-    group: 'PhysChem & Salt',
-    options: ['molFormula', 'molWeight', 'saltData', 'purity', 'chiralPurity'],
-  },
-  {
-    group: 'Supply & Handling',
-    options: ['concentration', 'volume', 'solvent', 'storageConditions'],
-  },
-  {
-    group: 'Screening Annotations',
-    options: ['controlType', 'batchId'],
-  },
-  {
-    group: 'Commercial',
-    options: ['packageSize', 'unitPrice', 'inventoryAvailable', 'leadTime', 'moq'],
-  },
-  {
-    group: 'Product Info',
-    options: ['vendorName', 'appearance', 'solubility', 'shelfLife', 'physicalForm', 'notes'],
-  },
-  {
-    group: 'Quality & Compliance',
-    options: [
-      'sdsAvailable',
-      'coaAvailable',
-      'customSynthesis',
-      'retestOrExpiry',
-      'hsCode',
-      'hazmat',
-    ],
-  },
-  {
-    group: 'Other',
-    options: ['ignore'],
-  },
-];
+export const SCREENING_COMPOUND_OPTIONS: MappingOptionGroup[] =
+  buildMappingOptionGroups('SCREENING_COMPOUND');
 
 /** Plate format options with labels */
 export const PLATE_FORMAT_OPTIONS: { value: PlateFormat; label: string }[] = [
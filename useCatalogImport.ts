@@ -1,17 +1,30 @@
 /* eslint-disable no-console */
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import {
-  CatalogImportMode,
   CatalogImportStatus,
-  CatalogImportKind,
-  ColumnMapping,
+  HeaderPreviewOptions,
   HeaderPreviewResponse,
-  ScreeningMode,
-  PlateFormat,
+  ActiveCatalogImportsResponse,
+  ReplaceImpactPreview,
+  StartCatalogImportParams,
 } from './types';
+import {
+  CatalogImportApiConfig,
+  fetchActiveImports,
+  fetchImportStatus,
+  isImportRunning,
+  requestHeaderPreview,
+  requestReplaceImpactPreview,
+  requestStartImport,
+} from './catalogImportApi';
+import { CatalogImportJobMeta, createImportJobRegistry } from './importJobRegistry';
+import { useCatalogImportJobRegistry } from './CatalogImportJobsProvider';
+import { canPreviewHeadersLocally, previewHeadersLocally } from './localHeaderPreview';
+import { isSdfFile, previewSdfLocally } from './sdfReader';
 
 // Re-export types for convenience
 export type {
+  ActiveCatalogImportsResponse,
   CatalogImportMode,
   CatalogImportStatus,
   CatalogImportKind,
@@ -23,119 +36,61 @@ export type {
 
 export type { CatalogImportError, CatalogImportProgress } from './types';
 
-/**
- * API configuration for the catalog import hook.
- * Allows different apps to provide their own API endpoints.
- */
-export interface CatalogImportApiConfig {
-  /** POST endpoint to start an import */
-  startImportUrl: string;
-  /** GET endpoint to check import status (receives jobId as parameter) */
-  getStatusUrl: (jobId: string) => string;
-  /** GET endpoint to list active imports for an organization */
-  getActiveImportsUrl: (organizationId: string) => string;
-  /** POST endpoint to preview file headers */
-  previewHeadersUrl: string;
-  /** DELETE endpoint to cancel an import job (receives jobId as parameter) */
-  cancelImportUrl?: (jobId: string) => string;
-  /**
-   * Whether to include organizationId in request bodies.
-   * Admin endpoints require it (default: true); supplier endpoints derive it from the session.
-   */
-  includeOrganizationId?: boolean;
-}
-
-/**
- * Parameters for starting a catalog import.
- */
-export interface StartCatalogImportParams {
-  fileId: string;
-  mode: CatalogImportMode;
-  importKind?: CatalogImportKind;
-  columnMapping?: ColumnMapping;
-  /** New fields for screening compound imports */
-  screeningMode?: ScreeningMode;
-  libraryName?: string;
-  plateFormat?: PlateFormat;
-  defaultPlateId?: string;
-}
-
-/**
- * Maps a flat API response (ImportStatusResponseDto) into the frontend
- * CatalogImportStatus shape with a nested `progress` object.
- */
-function mapApiResponseToStatus(data: Record<string, unknown>): CatalogImportStatus {
-  const valid = (data.valid as number) ?? 0;
-  const invalid = (data.invalid as number) ?? 0;
-  const total = (data.total as number) ?? 0;
-
-  return {
-    jobId: (data.jobId as string) ?? '',
-    organizationId: (data.organizationId as string) ?? '',
-    state: (data.state as CatalogImportStatus['state']) ?? 'queued',
-    progressPct: (data.progressPct as number) ?? 0,
-    stage: data.stage as CatalogImportStatus['stage'],
-    message: data.message as string | undefined,
-    failureReason: data.failureReason as string | undefined,
-    errorsLocation: data.errorsLocation as string | undefined,
-    progress: {
-      total,
-      processed: valid + invalid,
-      inserted: (data.upsertedProducts as number) ?? 0,
-      insertedCompounds: (data.insertedCompounds as number) ?? 0,
-      updated: (data.upsertedPackages as number) ?? 0,
-      errored: invalid,
-      enqueuedAt: (data.enqueuedAt as string) ?? '',
-      startedAt: data.startedAt as string | undefined,
-      finishedAt: data.finishedAt as string | undefined,
-    },
-  };
-}
+export type { CatalogImportApiConfig } from './catalogImportApi';
+export type { StartCatalogImportParams } from './types';
 
 /**
  * Hook for managing catalog import operations.
  *
+ * Follows a single job at a time. Polling, streaming and cancellation are
+ * delegated to the job registry of the surrounding CatalogImportJobsProvider
+ * (so the job stays visible to other consumers), or to a private registry
+ * when there is no provider.
+ *
  * @param organizationId - The organization ID for the import
  * @param apiConfig - API configuration for endpoints
  */
 export function useCatalogImport(organizationId: string, apiConfig: CatalogImportApiConfig) {
-  const [status, setStatus] = useState<CatalogImportStatus | null>(null);
-  const [isPolling, setIsPolling] = useState(false);
+  const sharedRegistry = useCatalogImportJobRegistry();
+  const [localRegistry] = useState(() => createImportJobRegistry(apiConfig));
+  const registry = sharedRegistry ?? localRegistry;
+
+  const [jobId, setJobId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  /** Job the hook picked up from getActiveImports instead of starting it itself */
+  const [reattachedJobId, setReattachedJobId] = useState<string | null>(null);
+  // Current job for async callbacks that may resolve after the job changed
   const jobIdRef = useRef<string | null>(null);
 
-  const getStatus = useCallback(
-    async (jobId: string) => {
-      try {
-        console.log('[IMPORT_DEBUG] getStatus called for jobId:', jobId);
-        console.log('[IMPORT_DEBUG] getStatus URL:', apiConfig.getStatusUrl(jobId));
-        const response = await fetch(apiConfig.getStatusUrl(jobId), {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-        });
+  useEffect(() => {
+    localRegistry.setApiConfig(apiConfig);
+  }, [localRegistry, apiConfig]);
 
-        console.log('[IMPORT_DEBUG] getStatus response status:', response.status);
+  useEffect(() => {
+    if (sharedRegistry) return;
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({
-            message: 'Failed to get import status',
-          }));
-          console.log('[IMPORT_DEBUG] getStatus error:', errorData);
-          throw new Error(errorData.message || 'Failed to get import status');
-        }
+    return localRegistry.start();
+  }, [sharedRegistry, localRegistry]);
 
-        const data = await response.json();
-        console.log('[IMPORT_DEBUG] getStatus response data:', JSON.stringify(data, null, 2));
-        const mapped = mapApiResponseToStatus(data);
-        setStatus(mapped);
+  const job = useSyncExternalStore(registry.subscribe, () =>
+    jobId ? registry.getJob(jobId) : undefined,
+  );
+  const status = job?.status ?? null;
+  const isPolling = !!status && isImportRunning(status);
+
+  const selectJob = useCallback((nextJobId: string | null) => {
+    jobIdRef.current = nextJobId;
+    setJobId(nextJobId);
+  }, []);
 
-        return mapped;
+  const getStatus = useCallback(
+    async (statusJobId: string) => {
+      try {
+        return registry.getJob(statusJobId)
+          ? await registry.refresh(statusJobId)
+          : await fetchImportStatus(apiConfig, statusJobId);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to get import status';
         console.error('[IMPORT_DEBUG] getStatus exception:', err);
@@ -143,81 +98,26 @@ export function useCatalogImport(organizationId: string, apiConfig: CatalogImpor
         throw err;
       }
     },
-    [apiConfig],
+    [registry, apiConfig],
   );
 
   const startImport = useCallback(
-    async (params: StartCatalogImportParams) => {
+    async (params: StartCatalogImportParams, meta?: CatalogImportJobMeta) => {
       try {
         setError(null);
-        setStatus(null);
+        selectJob(null);
+        setReattachedJobId(null);
         setIsStarting(true);
 
-        const requestBody: Record<string, unknown> = {
-          fileId: params.fileId,
-          mode: params.mode,
-          importKind: params.importKind || 'BUILDING_BLOCK',
-        };
-
-        if (apiConfig.includeOrganizationId !== false) {
-          requestBody.organizationId = organizationId;
-        }
-
-        // Add column mapping if provided
-        if (params.columnMapping) {
-          requestBody.columnMapping = params.columnMapping;
-        }
-
-        // Add screening-specific fields if provided
-        if (params.screeningMode) {
-          requestBody.screeningMode = params.screeningMode;
-        }
-        if (params.libraryName) {
-          requestBody.libraryName = params.libraryName;
-        }
-        if (params.plateFormat) {
-          requestBody.plateFormat = params.plateFormat;
-        }
-        if (params.defaultPlateId) {
-          requestBody.defaultPlateId = params.defaultPlateId;
-        }
-
-        console.log('[IMPORT_DEBUG] startImport called');
-        console.log('[IMPORT_DEBUG] startImport URL:', apiConfig.startImportUrl);
-        console.log(
-          '[IMPORT_DEBUG] startImport requestBody:',
-          JSON.stringify(requestBody, null, 2),
-        );
-
-        const response = await fetch(apiConfig.startImportUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-          body: JSON.stringify(requestBody),
-        });
-
-        console.log('[IMPORT_DEBUG] startImport response status:', response.status);
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({
-            message: 'Failed to start catalog import',
-          }));
-          console.log('[IMPORT_DEBUG] startImport error response:', errorData);
-          throw new Error(errorData.message || 'Failed to start catalog import');
-        }
-
-        const data = await response.json();
-        console.log('[IMPORT_DEBUG] startImport success response:', JSON.stringify(data, null, 2));
-        console.log('[IMPORT_DEBUG] jobId received:', data.jobId);
-        jobIdRef.current = data.jobId;
+        const newJobId = await requestStartImport(apiConfig, organizationId, params);
+        registry.track(newJobId, { meta: { ...meta, params } });
+        selectJob(newJobId);
 
         // Immediately fetch initial status
-        console.log('[IMPORT_DEBUG] Fetching initial status for jobId:', data.jobId);
-        await getStatus(data.jobId);
+        console.log('[IMPORT_DEBUG] Fetching initial status for jobId:', newJobId);
+        await getStatus(newJobId);
 
-        return data.jobId;
+        return newJobId;
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to start catalog import';
         console.error('[IMPORT_DEBUG] startImport exception:', err);
@@ -227,65 +127,64 @@ export function useCatalogImport(organizationId: string, apiConfig: CatalogImpor
         setIsStarting(false);
       }
     },
-    [organizationId, apiConfig, getStatus],
+    [organizationId, apiConfig, registry, getStatus, selectJob],
   );
 
-  const getActiveImports = useCallback(async () => {
-    try {
-      const response = await fetch(apiConfig.getActiveImportsUrl(organizationId), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-      });
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+  const getActiveImports = useCallback(
+    async (): Promise<ActiveCatalogImportsResponse | null> =>
+      fetchActiveImports(apiConfig, organizationId),
+    [organizationId, apiConfig],
+  );
 
-      return data;
-    } catch {
-      return null;
-    }
-  }, [organizationId, apiConfig]);
+  /**
+   * Follow an existing job, e.g. one found through getActiveImports or one
+   * picked from the import tray. Polling or streaming starts as soon as the
+   * job's status is known.
+   */
+  const attachToJob = useCallback(
+    async (attachJobId: string, knownStatus?: CatalogImportStatus) => {
+      console.log('[IMPORT_DEBUG] Attaching to existing job:', attachJobId);
+      setError(null);
+      setReattachedJobId(null);
+      const trackedStatus = knownStatus ?? registry.getJob(attachJobId)?.status ?? undefined;
+      registry.track(attachJobId, { status: trackedStatus });
+      selectJob(attachJobId);
+
+      return trackedStatus ?? getStatus(attachJobId);
+    },
+    [registry, getStatus, selectJob],
+  );
 
+  /**
+   * Preview the file's header row and sample values. When the original `file`
+   * is passed and is CSV/TSV or SDF, it is parsed in the browser; the preview
+   * endpoint is only used for other formats or if local parsing fails.
+   * `options` picks the sheet and header row of spreadsheet files.
+   */
   const previewHeaders = useCallback(
-    async (fileId: string): Promise<HeaderPreviewResponse | null> => {
-      try {
-        console.log('[IMPORT_DEBUG] previewHeaders called for fileId:', fileId);
-        console.log('[IMPORT_DEBUG] previewHeaders URL:', apiConfig.previewHeadersUrl);
-        console.log('[IMPORT_DEBUG] previewHeaders organizationId:', organizationId);
-        const previewBody: Record<string, unknown> = { fileId };
-        if (apiConfig.includeOrganizationId !== false) {
-          previewBody.organizationId = organizationId;
+    async (
+      fileId: string,
+      file?: File | null,
+      options?: HeaderPreviewOptions,
+    ): Promise<HeaderPreviewResponse | null> => {
+      if (file && isSdfFile(file)) {
+        try {
+          return await previewSdfLocally(file);
+        } catch (err) {
+          console.error('[IMPORT_DEBUG] local SDF preview failed, using endpoint:', err);
         }
-        const response = await fetch(apiConfig.previewHeadersUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-          body: JSON.stringify(previewBody),
-        });
-        console.log('[IMPORT_DEBUG] previewHeaders response status:', response.status);
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({
-            message: 'Failed to preview headers',
-          }));
-          console.error(
-            '[IMPORT_DEBUG] previewHeaders error response body:',
-            JSON.stringify(errorData, null, 2),
-          );
-          throw new Error(errorData.message || 'Failed to preview headers');
+      } else if (file && canPreviewHeadersLocally(file)) {
+        try {
+          const localPreview = await previewHeadersLocally(file);
+          console.log('[IMPORT_DEBUG] previewHeaders parsed locally:', localPreview.format);
+          if (localPreview.columns.length > 0) return localPreview;
+        } catch (err) {
+          console.error('[IMPORT_DEBUG] local header preview failed, using endpoint:', err);
         }
+      }
 
-        const data = await response.json();
-
-        return data;
+      try {
+        return await requestHeaderPreview(apiConfig, organizationId, fileId, options);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to preview headers';
         console.error('[IMPORT_DEBUG] previewHeaders exception:', err);
@@ -297,46 +196,25 @@ export function useCatalogImport(organizationId: string, apiConfig: CatalogImpor
     [apiConfig, organizationId],
   );
 
-  const cancelImport = useCallback(
-    async (jobId: string) => {
-      if (!apiConfig.cancelImportUrl) {
-        console.error('[IMPORT_DEBUG] cancelImportUrl not configured');
-        throw new Error('Cancel import not supported');
+  const previewReplaceImpact = useCallback(
+    async (params: StartCatalogImportParams): Promise<ReplaceImpactPreview | null> => {
+      try {
+        return await requestReplaceImpactPreview(apiConfig, organizationId, params);
+      } catch (err) {
+        console.error('[IMPORT_DEBUG] previewReplaceImpact exception:', err);
+
+        return null;
       }
+    },
+    [apiConfig, organizationId],
+  );
 
+  const cancelImport = useCallback(
+    async (cancelJobId: string) => {
       try {
         setIsCancelling(true);
-        console.log('[IMPORT_DEBUG] cancelImport called for jobId:', jobId);
-        const response = await fetch(apiConfig.cancelImportUrl(jobId), {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({
-            message: 'Failed to cancel import',
-          }));
-          throw new Error(errorData.message || 'Failed to cancel import');
-        }
 
-        const data = await response.json();
-        console.log('[IMPORT_DEBUG] cancelImport result:', data);
-
-        if (data.cancelled) {
-          // Stop polling
-          if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-            pollingIntervalRef.current = null;
-          }
-          setIsPolling(false);
-          // Refresh status
-          await getStatus(jobId);
-        }
-
-        return data.cancelled as boolean;
+        return await registry.cancel(cancelJobId);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to cancel import';
         console.error('[IMPORT_DEBUG] cancelImport exception:', err);
@@ -346,77 +224,68 @@ export function useCatalogImport(organizationId: string, apiConfig: CatalogImpor
         setIsCancelling(false);
       }
     },
-    [apiConfig, getStatus],
+    [registry],
   );
 
+  /**
+   * Detach from the current job. A private registry forgets the job; a shared
+   * registry keeps it so other consumers can still follow it.
+   */
   const reset = useCallback(() => {
-    setStatus(null);
     setError(null);
-    setIsPolling(false);
     setIsCancelling(false);
-    jobIdRef.current = null;
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
-  }, []);
-
-  // Auto-poll when job is active
-  useEffect(() => {
-    const currentJobId = jobIdRef.current;
-    if (!currentJobId || !status) return;
-
-    if (status.state === 'completed' || status.state === 'failed') {
-      setIsPolling(false);
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
-
-      return;
+    setReattachedJobId(null);
+    if (jobIdRef.current && !sharedRegistry) {
+      localRegistry.reset(jobIdRef.current);
     }
+    selectJob(null);
+  }, [sharedRegistry, localRegistry, selectJob]);
 
-    if (status.state === 'queued' || status.state === 'active') {
-      setIsPolling(true);
+  // Reattach to the organization's running import after a page reload
+  const reattachActiveImport = apiConfig.reattachActiveImport !== false;
 
-      // Poll every 2 seconds
-      pollingIntervalRef.current = setInterval(async () => {
-        try {
-          await getStatus(currentJobId);
-        } catch (err) {
-          console.error('Error polling catalog import status:', err);
-        }
-      }, 2000);
-    }
-
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
-    };
-  }, [status, getStatus]);
-
-  // Cleanup on unmount
   useEffect(() => {
+    if (!reattachActiveImport || !organizationId) return;
+
+    let cancelled = false;
+    getActiveImports().then((result) => {
+      // Skip if unmounted or the user already started/attached a job meanwhile
+      if (cancelled || !result || jobIdRef.current) return;
+
+      const running = result.imports
+        .filter(isImportRunning)
+        .sort((a, b) => (b.progress?.enqueuedAt ?? '').localeCompare(a.progress?.enqueuedAt ?? ''));
+      if (running.length === 0) return;
+
+      attachToJob(running[0].jobId, running[0])
+        .then(() => setReattachedJobId(running[0].jobId))
+        .catch((err) => {
+          console.error('Error reattaching to catalog import:', err);
+        });
+    });
+
     return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
+      cancelled = true;
     };
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId, reattachActiveImport]);
 
   return {
     startImport,
     cancelImport,
     getStatus,
     getActiveImports,
+    attachToJob,
     previewHeaders,
+    previewReplaceImpact,
     reset,
     status,
+    /** Display information and start parameters of the current job */
+    jobMeta: job?.meta ?? null,
+    reattachedJobId,
     isPolling,
     isStarting,
     isCancelling,
-    error,
+    error: error ?? job?.error ?? null,
   };
 }
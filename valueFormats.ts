@@ -0,0 +1,153 @@
+/**
+ * Format checks for cell values by mapping kind, e.g. to highlight cells the
+ * import would likely reject. Checks are deliberately lenient: they catch
+ * values in the wrong column rather than validating chemistry.
+ */
+
+import { ColumnMappingKind } from './types';
+import { MAPPING_KINDS, MappingValueType } from './mappingKinds';
+
+const CAS_PATTERN = /^(\d{2,7})-(\d{2})-(\d)$/;
+const INCHI_KEY_PATTERN = /^[A-Z]{14}-[A-Z]{8}[SN][A-Z]-[A-Z]$/;
+const SMILES_PATTERN = /^[A-Za-z0-9@+\-[\]()=#$%/\\.:*~]+$/;
+/** Organic-subset atoms, the only ones SMILES allows outside square brackets */
+const SMILES_ORGANIC_ATOMS = /^(Cl|Br|[BCNOPSFI]|[bcnops])+$/;
+const WELL_PATTERN = /^[A-Za-z]{1,2}\s*-?\s*0*\d{1,2}$/;
+const PLATE_ROW_PATTERN = /^[A-Za-z]{1,2}$/;
+const PLATE_COLUMN_PATTERN = /^0*\d{1,2}$/;
+const NUMBER_PATTERN = /^[-+]?(\d+|\d{1,3}([,\s]\d{3})+)([.,]\d+)?$/;
+const INTEGER_PATTERN = /^\d+$|^\d{1,3}([,\s]\d{3})+$/;
+const PRICE_PATTERN =
+  /^([$€£¥]|USD|EUR|GBP|CHF|JPY|CNY)?\s*\d+([.,\s]\d{3})*([.,]\d{1,4})?\s*([$€£¥]|USD|EUR|GBP|CHF|JPY|CNY)?$/i;
+const PACKAGE_SIZE_PATTERN =
+  /^\d+([.,]\d+)?\s*(x\s*\d+([.,]\d+)?\s*)?(mg|g|kg|µg|ug|mcg|ml|l|µl|ul|mmol|µmol|umol|mol|nmol)$/i;
+const PERCENT_PATTERN = /^[<>≥≤~]?\s*=?\s*\d{1,3}([.,]\d+)?\s*%?$/;
+const YES_NO_PATTERN = /^(y|n|yes|no|true|false|1|0|x)$/i;
+const MOL_FORMULA_PATTERN = /^(\d*([A-Z][a-z]?\d*)+)([.·*]\s*\d*([A-Z][a-z]?\d*)+)*$/;
+
+/**
+ * CAS Registry Number with a valid check digit: the last digit equals the sum
+ * of the other digits, each multiplied by its position from the right, mod 10.
+ */
+export function isCasNumber(value: string): boolean {
+  const match = CAS_PATTERN.exec(value.trim());
+  if (!match) return false;
+
+  const digits = `${match[1]}${match[2]}`;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    sum += Number(digits[digits.length - 1 - i]) * (i + 1);
+  }
+
+  return sum % 10 === Number(match[3]);
+}
+
+/** Standard InChIKey: 14 + 10 + 1 upper-case letters */
+export function isInchiKey(value: string): boolean {
+  return INCHI_KEY_PATTERN.test(value.trim());
+}
+
+/**
+ * SMILES-like: only SMILES characters, organic-subset atoms outside square
+ * brackets and balanced brackets. Short words such as "CN" or "NO" also pass,
+ * so combine with other evidence when classifying columns.
+ */
+export function isSmilesLike(value: string): boolean {
+  const text = value.trim();
+  if (!SMILES_PATTERN.test(text)) return false;
+
+  const atoms = text.replace(/\[[^\]]*\]/g, '').replace(/[^A-Za-z]/g, '');
+  if (atoms !== '' && !SMILES_ORGANIC_ATOMS.test(atoms)) return false;
+  if (atoms === '' && !text.includes('[')) return false;
+
+  let parens = 0;
+  let brackets = 0;
+  for (const ch of text) {
+    if (ch === '(') parens++;
+    else if (ch === ')') parens--;
+    else if (ch === '[') brackets++;
+    else if (ch === ']') brackets--;
+    if (parens < 0 || brackets < 0) return false;
+  }
+
+  return parens === 0 && brackets === 0;
+}
+
+/** Molfile / molblock text (V2000 or V3000) */
+export function isMolblock(value: string): boolean {
+  return /M {2}END/.test(value) && /V[23]000/.test(value);
+}
+
+/** Plate well such as A1, A01, H12 or AF48 */
+export function isWellCoordinate(value: string): boolean {
+  return WELL_PATTERN.test(value.trim());
+}
+
+export function isNumeric(value: string): boolean {
+  return NUMBER_PATTERN.test(value.trim());
+}
+
+/** Price with optional currency symbol or code before or after the amount */
+export function isPrice(value: string): boolean {
+  return PRICE_PATTERN.test(value.trim());
+}
+
+/** Amount with a mass, volume or molar unit, e.g. "5 g", "250mg", "2 x 10 mL" */
+export function isPackageSize(value: string): boolean {
+  return PACKAGE_SIZE_PATTERN.test(value.trim());
+}
+
+export function isPercentage(value: string): boolean {
+  const text = value.trim();
+  if (!PERCENT_PATTERN.test(text)) return false;
+
+  return parseFloat(text.replace(/[^\d.,]/g, '').replace(',', '.')) <= 100;
+}
+
+/** Y/N style flag (Y, N, Yes, No, true, false, 1, 0, X) */
+export function isYesNoFlag(value: string): boolean {
+  return YES_NO_PATTERN.test(value.trim());
+}
+
+export function isMolFormula(value: string): boolean {
+  return MOL_FORMULA_PATTERN.test(value.replace(/\s+/g, ''));
+}
+
+const isInteger = (value: string) => INTEGER_PATTERN.test(value.trim());
+
+/** Format check per value type; types without an entry accept any value */
+export const VALUE_TYPE_CHECKS: Partial<Record<MappingValueType, (value: string) => boolean>> = {
+  cas: isCasNumber,
+  inchiKey: isInchiKey,
+  smiles: isSmilesLike,
+  molblock: isMolblock,
+  molFormula: isMolFormula,
+  number: isNumeric,
+  integer: isInteger,
+  percentage: isPercentage,
+  price: isPrice,
+  packageSize: isPackageSize,
+  flag: isYesNoFlag,
+  well: isWellCoordinate,
+  plateRow: (value) => PLATE_ROW_PATTERN.test(value.trim()),
+  plateColumn: (value) => PLATE_COLUMN_PATTERN.test(value.trim()),
+};
+
+/** Format check per mapping kind, by its value type in the mapping kind registry */
+export const VALUE_FORMAT_CHECKS: Partial<Record<ColumnMappingKind, (value: string) => boolean>> =
+  Object.fromEntries(
+    MAPPING_KINDS.filter((definition) => VALUE_TYPE_CHECKS[definition.valueType]).map(
+      (definition) => [definition.kind, VALUE_TYPE_CHECKS[definition.valueType]],
+    ),
+  );
+
+/**
+ * Whether `value` fits the format of `kind`. Empty cells always pass;
+ * missing required values are reported by the mapping validation instead.
+ */
+export function checkValueFormat(kind: ColumnMappingKind, value: string): boolean {
+  if (value.trim() === '') return true;
+  const check = VALUE_FORMAT_CHECKS[kind];
+
+  return check ? check(value) : true;
+}
@@ -0,0 +1,86 @@
+/**
+ * Built-in vendor profiles: typical column layouts of common supplier
+ * catalogue exports. They take part in header-fingerprint matching like saved
+ * templates, so a first upload from a known supplier is mapped without a
+ * template of its own.
+ */
+import { ColumnMappingKind } from './types';
+import { MappingTemplateCandidate } from './mappingTemplates';
+
+function columns(entries: [string, ColumnMappingKind][]): MappingTemplateCandidate['mapping'] {
+  return { mappings: entries.map(([fileColumn, mapTo]) => ({ fileColumn, mapTo })) };
+}
+
+export const BUILT_IN_VENDOR_PROFILES: MappingTemplateCandidate[] = [
+  {
+    id: 'vendor:enamine-building-blocks',
+    name: 'Enamine building blocks',
+    vendorName: 'Enamine',
+    config: { importKind: 'BUILDING_BLOCK' },
+    mapping: columns([
+      ['Catalog ID', 'catalogNumber'],
+      ['SMILES', 'smiles'],
+      ['CAS', 'cas'],
+      ['MW', 'molWeight'],
+      ['Formula', 'molFormula'],
+      ['Purity', 'purity'],
+      ['Pack', 'packageSize'],
+      ['Price, USD', 'unitPrice'],
+      ['Lead time', 'leadTime'],
+      ['Stock', 'inventoryAvailable'],
+    ]),
+  },
+  {
+    id: 'vendor:sigma-aldrich-price-list',
+    name: 'Sigma-Aldrich price list',
+    vendorName: 'Sigma-Aldrich',
+    config: { importKind: 'BUILDING_BLOCK' },
+    mapping: columns([
+      ['Product Number', 'catalogNumber'],
+      ['Product Name', 'productName'],
+      ['CAS Number', 'cas'],
+      ['MDL Number', 'mdlNumber'],
+      ['Assay', 'purity'],
+      ['Pack Size', 'packageSize'],
+      ['List Price', 'unitPrice'],
+      ['Availability', 'inventoryAvailable'],
+      ['Storage Temp.', 'storageConditions'],
+    ]),
+  },
+  {
+    id: 'vendor:chemdiv-screening-plates',
+    name: 'ChemDiv screening plates',
+    vendorName: 'ChemDiv',
+    config: { importKind: 'SCREENING_COMPOUND', screeningMode: 'PLATED_KIT', plateFormat: 'P384' },
+    mapping: columns([
+      ['Plate_ID', 'plateId'],
+      ['Well', 'well'],
+      ['IDNUMBER', 'compoundId'],
+      ['SMILES', 'smiles'],
+      ['MW', 'molWeight'],
+      ['Formula', 'molFormula'],
+      ['Concentration, mM', 'concentration'],
+      ['Volume, uL', 'volume'],
+      ['Solvent', 'solvent'],
+    ]),
+  },
+  {
+    id: 'vendor:mce-bioactive-library',
+    name: 'MedChemExpress bioactive library',
+    vendorName: 'MedChemExpress',
+    config: { importKind: 'SCREENING_COMPOUND', screeningMode: 'PLATED_KIT', plateFormat: 'P96' },
+    mapping: columns([
+      ['Plate Location', 'well'],
+      ['Rack Number', 'plateId'],
+      ['Catalog Number', 'catalogNumber'],
+      ['Product Name', 'productName'],
+      ['CAS Number', 'cas'],
+      ['Target', 'targetName'],
+      ['Pathway', 'pathway'],
+      ['Research Area', 'application'],
+      ['M.Wt', 'molWeight'],
+      ['Formula', 'molFormula'],
+      ['Smiles', 'smiles'],
+    ]),
+  },
+];